@@ -16,6 +16,8 @@ module.exports = {
     '!src/preload/index.ts' // Exclude preload script
   ],
   setupFilesAfterEnv: ['<rootDir>/tests/setup.ts'],
+  globalSetup: '<rootDir>/tests/global-setup.ts',
+  globalTeardown: '<rootDir>/tests/global-teardown.ts',
   moduleNameMapper: {
     '^@/(.*)$': '<rootDir>/src/renderer/src/$1',
     '^@renderer/(.*)$': '<rootDir>/src/renderer/src/$1'
@@ -0,0 +1,10 @@
+// Timing tests, kept out of `npm test` as their limits depend on the machine
+// running them. Run them with `npm run test:perf`.
+const config = require('./jest.config');
+
+module.exports = {
+  ...config,
+  testEnvironment: 'node',
+  testMatch: ['<rootDir>/tests/**/*.perf.ts'],
+  setupFilesAfterEnv: [],
+};
@@ -0,0 +1,93 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHmac,
+  randomBytes,
+  scryptSync,
+} from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+
+// Marks encrypted strings and files so plaintext and ciphertext can coexist
+const STRING_PREFIX = 'enc:v1:';
+const BUFFER_MAGIC = Buffer.from('LCENC1');
+
+// scrypt cost parameters for passphrase-derived keys
+const SCRYPT_OPTIONS = { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
+
+export const isEncryptedValue = (value: unknown): value is string =>
+  typeof value === 'string' && value.startsWith(STRING_PREFIX);
+
+export const isEncryptedBuffer = (buffer: Buffer): boolean =>
+  buffer.subarray(0, BUFFER_MAGIC.length).equals(BUFFER_MAGIC);
+
+export const createDataKey = (): Buffer => randomBytes(KEY_LENGTH);
+
+export const deriveKeyFromPassphrase = (
+  passphrase: string,
+  salt: Buffer
+): Buffer => scryptSync(passphrase, salt, KEY_LENGTH, SCRYPT_OPTIONS);
+
+// AES-256-GCM encryption of strings and buffers with a single key
+export class DataCipher {
+  private key: Buffer;
+  private hashKey: Buffer;
+
+  constructor(key: Buffer) {
+    if (key.length !== KEY_LENGTH) {
+      throw new Error(`Encryption key must be ${KEY_LENGTH} bytes`);
+    }
+    this.key = key;
+    // Separate subkey so content hashes never reuse the encryption key
+    this.hashKey = createHmac('sha256', key).update('content-hash').digest();
+  }
+
+  // Keyed hash for comparing values without revealing them
+  hash(value: string | Buffer): string {
+    return createHmac('sha256', this.hashKey).update(value).digest('hex');
+  }
+
+  encryptString(plainText: string): string {
+    return (
+      STRING_PREFIX +
+      this.encryptRaw(Buffer.from(plainText, 'utf8')).toString('base64')
+    );
+  }
+
+  decryptString(value: string): string {
+    // Plaintext values (e.g. written before encryption was enabled) pass through
+    if (!isEncryptedValue(value)) return value;
+
+    const payload = Buffer.from(value.slice(STRING_PREFIX.length), 'base64');
+    return this.decryptRaw(payload).toString('utf8');
+  }
+
+  encryptBuffer(buffer: Buffer): Buffer {
+    return Buffer.concat([BUFFER_MAGIC, this.encryptRaw(buffer)]);
+  }
+
+  decryptBuffer(buffer: Buffer): Buffer {
+    if (!isEncryptedBuffer(buffer)) return buffer;
+    return this.decryptRaw(buffer.subarray(BUFFER_MAGIC.length));
+  }
+
+  private encryptRaw(data: Buffer): Buffer {
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv(ALGORITHM, this.key, iv);
+    const encrypted = Buffer.concat([cipher.update(data), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), encrypted]);
+  }
+
+  private decryptRaw(payload: Buffer): Buffer {
+    const iv = payload.subarray(0, IV_LENGTH);
+    const tag = payload.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+    const encrypted = payload.subarray(IV_LENGTH + TAG_LENGTH);
+
+    const decipher = createDecipheriv(ALGORITHM, this.key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]);
+  }
+}
@@ -0,0 +1,123 @@
+import { app } from 'electron';
+import { existsSync, readdirSync, rmSync, statSync } from 'fs';
+import { basename, join } from 'path';
+import { CleanupReport } from '../shared/types';
+import { SettingsManager } from './settings';
+import { SqliteStorageManager } from './sqlite-storage';
+
+const CLEANUP_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Saved images are named <hash>.png and <hash>_thumb.png, optionally with
+// an .enc suffix when encrypted
+const IMAGE_FILE_PATTERN = /^(.+?)(?:_thumb)?\.png(?:\.enc)?$/;
+
+// Deletes entries older than the retention period, plus image files that no
+// entry references any more
+export class CleanupManager {
+  private storageManager: SqliteStorageManager;
+  private settingsManager: SettingsManager;
+  private imagesDir: string;
+  private interval: NodeJS.Timeout | null = null;
+  private lastReport: CleanupReport | null = null;
+  private onCleanup?: (report: CleanupReport) => void;
+
+  constructor(
+    storageManager: SqliteStorageManager,
+    settingsManager: SettingsManager,
+    onCleanup?: (report: CleanupReport) => void
+  ) {
+    this.storageManager = storageManager;
+    this.settingsManager = settingsManager;
+    this.imagesDir = join(app.getPath('userData'), 'images');
+    this.onCleanup = onCleanup;
+  }
+
+  // Runs once now and then daily
+  start(): void {
+    if (this.interval) return;
+
+    this.runIfEnabled();
+    this.interval = setInterval(() => this.runIfEnabled(), CLEANUP_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  getLastReport(): CleanupReport | null {
+    return this.lastReport;
+  }
+
+  runCleanup(): CleanupReport {
+    const cleanupDays = Math.max(
+      1,
+      this.settingsManager.get('cleanupDays') || 30
+    );
+    const cutoff = new Date(Date.now() - cleanupDays * DAY_MS);
+
+    const deletedEntries = this.storageManager.deleteEntriesOlderThan(cutoff);
+    const { deletedFiles, freedBytes } = this.deleteOrphanedImages();
+
+    const report: CleanupReport = {
+      ranAt: new Date(),
+      deletedEntries,
+      deletedFiles,
+      freedBytes,
+    };
+    this.lastReport = report;
+
+    this.onCleanup?.(report);
+    return report;
+  }
+
+  // Runs the cleanup when autoCleanup is on and history is readable
+  runIfEnabled(): void {
+    if (!this.settingsManager.get('autoCleanup')) return;
+    if (this.storageManager.isLocked()) return;
+
+    try {
+      this.runCleanup();
+    } catch (error) {
+      console.error('❌ Scheduled cleanup failed:', error);
+    }
+  }
+
+  private deleteOrphanedImages(): { deletedFiles: number; freedBytes: number } {
+    let deletedFiles = 0;
+    let freedBytes = 0;
+
+    if (!existsSync(this.imagesDir)) return { deletedFiles, freedBytes };
+
+    // Images of entries saved before the image store are only known by path
+    const referencedHashes = new Set([
+      ...this.storageManager.getStoredImageHashes(),
+      ...[...this.storageManager.getReferencedFilePaths()].map(
+        filePath => basename(filePath).match(IMAGE_FILE_PATTERN)?.[1]
+      ),
+    ]);
+
+    for (const file of readdirSync(this.imagesDir)) {
+      const match = file.match(IMAGE_FILE_PATTERN);
+      if (!match || referencedHashes.has(match[1])) continue;
+
+      const filePath = join(this.imagesDir, file);
+      try {
+        // Skip images still being captured, whose entry isn't saved yet
+        const stats = statSync(filePath);
+        if (Date.now() - stats.mtimeMs < 60 * 1000) continue;
+
+        freedBytes += stats.size;
+        rmSync(filePath, { force: true });
+        deletedFiles++;
+      } catch (error) {
+        console.error(`❌ Failed to delete orphaned image ${file}:`, error);
+      }
+    }
+
+    return { deletedFiles, freedBytes };
+  }
+}
@@ -0,0 +1,227 @@
+import { ChildProcess, execSync, spawn } from 'child_process';
+import { createHash } from 'crypto';
+import { clipboard, NativeImage, powerMonitor } from 'electron';
+
+// Tells the monitor when the clipboard may have changed, so it only reads the
+// clipboard after a copy
+export interface ClipboardWatcher {
+  readonly name: string;
+  // onFailure is called when the backend stops working, after which the
+  // monitor switches to polling
+  start(onChange: () => void, onFailure: (error: Error) => void): void;
+  stop(): void;
+}
+
+// Polling stays this fast while the user is at the keyboard or mouse...
+const MIN_POLL_INTERVAL_MS = 250;
+// ...and backs off to this once they have been away for a while
+const MAX_POLL_INTERVAL_MS = 1000;
+const POLL_BACKOFF = 1.5;
+// Input within this many seconds counts as activity
+const MAX_ACTIVE_IDLE_SECONDS = 5;
+
+export const hasImageFormat = (formats: string[]): boolean =>
+  formats.some(format => format.startsWith('image/'));
+
+// Identifies the copied image by the clipboard formats, its size and a hash
+// of its raw pixels, which is much cheaper than encoding it as PNG. Hashing
+// still takes a while for a large image, so it is only done again once the
+// formats or the size change, or after a copy without an image.
+export class ImageFingerprinter {
+  private key: string | null = null;
+  private fingerprint = '';
+
+  // The copied image with its fingerprint, or null when there is none
+  read(
+    formats: string[] = clipboard.availableFormats()
+  ): { image: NativeImage; fingerprint: string } | null {
+    const image = hasImageFormat(formats) ? clipboard.readImage() : null;
+    if (!image || image.isEmpty()) {
+      this.key = null;
+      return null;
+    }
+
+    const { width, height } = image.getSize();
+    const key = `${formats.join(',')}:${width}x${height}`;
+    if (key !== this.key) {
+      const pixels = createHash('sha1').update(image.toBitmap()).digest('hex');
+      this.key = key;
+      this.fingerprint = `${key}:${pixels}`;
+    }
+    return { image, fingerprint: this.fingerprint };
+  }
+}
+
+// Cheap stand-in for the clipboard contents
+export const getClipboardFingerprint = (images: ImageFingerprinter): string => {
+  const formats = clipboard.availableFormats();
+  const fingerprint = `${formats.join(',')}\n${clipboard.readText()}`;
+  const image = images.read(formats);
+  return image ? `${fingerprint}\n${image.fingerprint}` : fingerprint;
+};
+
+// Seconds since the last keyboard or mouse input
+const getSystemIdleTime = (): number => powerMonitor.getSystemIdleTime();
+
+export class PollingClipboardWatcher implements ClipboardWatcher {
+  readonly name = 'adaptive polling';
+  private timer: NodeJS.Timeout | null = null;
+  private delay = MIN_POLL_INTERVAL_MS;
+  private lastFingerprint = '';
+  private fingerprint: () => string;
+  private getIdleTime: () => number;
+
+  constructor(
+    fingerprint?: () => string,
+    getIdleTime: () => number = getSystemIdleTime
+  ) {
+    const images = new ImageFingerprinter();
+    this.fingerprint = fingerprint ?? (() => getClipboardFingerprint(images));
+    this.getIdleTime = getIdleTime;
+  }
+
+  start(onChange: () => void): void {
+    if (this.timer) return;
+
+    this.delay = MIN_POLL_INTERVAL_MS;
+    this.lastFingerprint = this.read();
+
+    const poll = () => {
+      const current = this.read();
+      if (current !== this.lastFingerprint) {
+        this.lastFingerprint = current;
+        this.delay = MIN_POLL_INTERVAL_MS;
+        onChange();
+      } else if (this.isUserActive()) {
+        // Copies come in bursts while the user is working, and any that
+        // land between two polls are missed
+        this.delay = MIN_POLL_INTERVAL_MS;
+      } else {
+        this.delay = Math.min(this.delay * POLL_BACKOFF, MAX_POLL_INTERVAL_MS);
+      }
+      this.timer = setTimeout(poll, this.delay);
+    };
+    this.timer = setTimeout(poll, this.delay);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private isUserActive(): boolean {
+    try {
+      return this.getIdleTime() < MAX_ACTIVE_IDLE_SECONDS;
+    } catch {
+      return false;
+    }
+  }
+
+  private read(): string {
+    try {
+      return this.fingerprint();
+    } catch (error) {
+      console.error('Error reading clipboard fingerprint:', error);
+      return this.lastFingerprint;
+    }
+  }
+}
+
+// `wl-paste --watch` runs its command on every selection change, so each
+// line it prints is one copy. Needs a compositor with the data-control
+// protocol, such as Sway, Hyprland or KDE.
+export class WlPasteWatcher implements ClipboardWatcher {
+  readonly name = 'wl-paste --watch';
+  private child: ChildProcess | null = null;
+
+  start(onChange: () => void, onFailure: (error: Error) => void): void {
+    if (this.child) return;
+
+    const child = spawn('wl-paste', ['--watch', 'echo'], {
+      stdio: ['ignore', 'pipe', 'ignore'],
+    });
+    this.child = child;
+    child.stdout?.on('data', () => onChange());
+    child.on('error', error => {
+      this.child = null;
+      onFailure(error);
+    });
+    child.on('exit', code => {
+      // Stopped by us, or already reported as an error
+      if (this.child !== child) return;
+      this.child = null;
+      onFailure(new Error(`wl-paste exited with code ${code}`));
+    });
+  }
+
+  stop(): void {
+    const child = this.child;
+    this.child = null;
+    child?.kill();
+  }
+}
+
+// clipnotify waits for an X11 XFixes selection notification and exits, so it
+// is started again after every copy
+export class ClipnotifyWatcher implements ClipboardWatcher {
+  readonly name = 'clipnotify (XFixes)';
+  private child: ChildProcess | null = null;
+  private isRunning = false;
+
+  start(onChange: () => void, onFailure: (error: Error) => void): void {
+    if (this.isRunning) return;
+    this.isRunning = true;
+
+    const wait = () => {
+      const child = spawn('clipnotify', [], { stdio: 'ignore' });
+      this.child = child;
+      child.on('error', error => {
+        this.stop();
+        onFailure(error);
+      });
+      child.on('exit', code => {
+        if (this.child !== child || !this.isRunning) return;
+        if (code !== 0) {
+          this.stop();
+          onFailure(new Error(`clipnotify exited with code ${code}`));
+          return;
+        }
+        onChange();
+        wait();
+      });
+    };
+    wait();
+  }
+
+  stop(): void {
+    this.isRunning = false;
+    const child = this.child;
+    this.child = null;
+    child?.kill();
+  }
+}
+
+const hasCommand = (command: string): boolean => {
+  try {
+    execSync(`command -v ${command}`, { stdio: 'ignore', timeout: 500 });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// The cheapest backend this session supports. Other platforms have no
+// change notifications that Electron can reach, so they poll.
+export const createClipboardWatcher = (): ClipboardWatcher => {
+  if (process.platform === 'linux') {
+    if (process.env.WAYLAND_DISPLAY && hasCommand('wl-paste')) {
+      return new WlPasteWatcher();
+    }
+    if (process.env.DISPLAY && hasCommand('clipnotify')) {
+      return new ClipnotifyWatcher();
+    }
+  }
+  return new PollingClipboardWatcher();
+};
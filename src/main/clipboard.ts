@@ -1,27 +1,120 @@
-import { app, clipboard } from 'electron';
-import { existsSync, mkdirSync, writeFileSync } from 'fs';
-import { join } from 'path';
-import { ClipboardEntry } from '../shared/types';
-import { JsonStorageManager } from './json-storage';
+import { clipboard, NativeImage } from 'electron';
+import { basename } from 'path';
+import { getRepresentationLabels } from '../shared/clipboard-formats';
+import {
+  extractTextFromHTML,
+  extractTextFromRTF,
+} from '../shared/text-extraction';
+import { toImageUrl } from '../shared/image-urls';
+import {
+  ClipboardEntry,
+  ClipboardRepresentations,
+  DEFAULT_SETTINGS,
+  SensitiveDataRuleId,
+} from '../shared/types';
+import {
+  ClipboardWatcher,
+  createClipboardWatcher,
+  ImageFingerprinter,
+  PollingClipboardWatcher,
+} from './clipboard-watcher';
+import { describeCopiedFiles, readCopiedFilePaths } from './file-clipboard';
+import { ImageStore } from './image-store';
+import {
+  getSensitiveDataHandling,
+  maskSensitiveData,
+  SensitiveDataDetector,
+} from './sensitive-data';
 import { SettingsManager } from './settings';
+import { getFocusedApp } from './source-app';
+import { SqliteStorageManager } from './sqlite-storage';
+
+const MAX_RECENT_SOURCE_APPS = 20;
+
+// Larger custom formats, such as an app's private copy of a whole document,
+// are left out of the entry
+const MAX_CUSTOM_FORMAT_BYTES = 1024 * 1024;
 
 export class ClipboardMonitor {
-  private interval: NodeJS.Timeout | null = null;
+  // Picked on first start and kept, unless it fails and polling takes over
+  private watcher: ClipboardWatcher | null = null;
+  private isChecking: boolean = false;
+  // A change reported while a check was running, checked right after it
+  private recheckPending: boolean = false;
   private lastClipboardContent: string = '';
+  // Fingerprint of the copied image, see ImageFingerprinter
   private lastClipboardImage: string = '';
+  private imageFingerprinter = new ImageFingerprinter();
+  // Paths of the copied files, one per line
+  private lastClipboardFiles: string = '';
   private isMonitoring: boolean = false;
-  private storageManager: JsonStorageManager;
+  private storageManager: SqliteStorageManager;
   private settingsManager: SettingsManager;
+  private imageStore: ImageStore;
   private onClipboardChange?: (entry: ClipboardEntry) => void;
+  private recentSourceApps: string[] = [];
+  private sensitiveDataDetector = new SensitiveDataDetector();
 
   constructor(
-    storageManager: JsonStorageManager,
+    storageManager: SqliteStorageManager,
     settingsManager: SettingsManager,
+    imageStore: ImageStore,
     onClipboardChange?: (entry: ClipboardEntry) => void
   ) {
     this.storageManager = storageManager;
     this.settingsManager = settingsManager;
+    this.imageStore = imageStore;
     this.onClipboardChange = onClipboardChange;
+    this.recentSourceApps = storageManager.getRecentAppNames(
+      MAX_RECENT_SOURCE_APPS
+    );
+  }
+
+  // Type, preview and category of new content, or of an edited entry
+  async describeContent(
+    content: string,
+    format: ClipboardEntry['format']
+  ): Promise<Pick<ClipboardEntry, 'contentType' | 'preview' | 'category'>> {
+    return {
+      contentType: this.detectContentType(content, format),
+      preview: this.generatePreview(content, format),
+      category: await this.asyncCategorizeContent(content, format),
+    };
+  }
+
+  // Apps that recently produced clipboard content, including excluded ones
+  getRecentSourceApps(): string[] {
+    return [...this.recentSourceApps];
+  }
+
+  // Clears the system clipboard if it still holds one of the given entries,
+  // such as a one-time code whose history entry just expired
+  clearIfHolding(entries: ClipboardEntry[]): boolean {
+    const currentImageHash = this.getImageHash();
+    const isHeld = entries.some(entry => {
+      switch (entry.format) {
+        case 'text':
+          return clipboard.readText() === entry.content;
+        case 'html':
+          return clipboard.readHTML() === entry.content;
+        case 'rtf':
+          return clipboard.readRTF() === entry.content;
+        case 'file':
+          return readCopiedFilePaths().join('\n') === entry.content;
+        case 'image':
+          return !!currentImageHash && entry.imageHash === currentImageHash;
+        default:
+          return false;
+      }
+    });
+    if (!isHeld) return false;
+
+    clipboard.clear();
+    // Let a fresh copy of the same value be captured again
+    this.lastClipboardContent = '';
+    this.lastClipboardImage = '';
+    this.lastClipboardFiles = '';
+    return true;
   }
 
   start(): void {
@@ -29,12 +122,14 @@ export class ClipboardMonitor {
 
     this.isMonitoring = true;
     this.lastClipboardContent = clipboard.readText();
-    this.lastClipboardImage = this.getImageHash();
+    this.lastClipboardImage = this.readImage()?.fingerprint ?? '';
+    this.lastClipboardFiles = readCopiedFilePaths().join('\n');
 
-    // Check clipboard every 500ms
-    this.interval = setInterval(() => {
-      this.checkClipboard();
-    }, 500);
+    if (!this.watcher) {
+      this.watcher = createClipboardWatcher();
+      console.log(`👀 Watching the clipboard with ${this.watcher.name}`);
+    }
+    this.startWatcher(this.watcher);
 
     console.log('Clipboard monitoring started');
   }
@@ -43,25 +138,118 @@ export class ClipboardMonitor {
     if (!this.isMonitoring) return;
 
     this.isMonitoring = false;
-    if (this.interval) {
-      clearInterval(this.interval);
-      this.interval = null;
-    }
+    this.watcher?.stop();
 
     console.log('Clipboard monitoring stopped');
   }
 
+  private startWatcher(watcher: ClipboardWatcher): void {
+    watcher.start(
+      () => this.scheduleCheck(),
+      error => {
+        console.warn(
+          `⚠️ Clipboard watcher ${watcher.name} failed, falling back to polling:`,
+          error
+        );
+        this.watcher = new PollingClipboardWatcher();
+        if (this.isMonitoring) {
+          this.startWatcher(this.watcher);
+          // The copy that broke the watcher may have been missed
+          this.scheduleCheck();
+        }
+      }
+    );
+  }
+
+  // Copies can arrive faster than a check finishes, so they are checked one
+  // after another rather than side by side
+  private async scheduleCheck(): Promise<void> {
+    if (this.isChecking) {
+      this.recheckPending = true;
+      return;
+    }
+
+    this.isChecking = true;
+    try {
+      do {
+        this.recheckPending = false;
+        await this.checkClipboard();
+      } while (this.recheckPending && this.isMonitoring);
+    } finally {
+      this.isChecking = false;
+    }
+  }
+
   private async checkClipboard(): Promise<void> {
+    // Entries can't be saved until encrypted storage is unlocked
+    if (this.storageManager.isLocked()) return;
+
     try {
+      // Only what tells a new copy apart is read until there is one
+      const formats = clipboard.availableFormats();
       const currentText = clipboard.readText();
-      const currentImageHash = this.getImageHash();
+      const image = this.readImage(formats);
+      const currentImageFingerprint = image?.fingerprint ?? '';
+      const currentFiles = readCopiedFilePaths(formats).join('\n');
+
+      const textChanged =
+        !!currentText && currentText !== this.lastClipboardContent;
+      const imageChanged =
+        !!currentImageFingerprint &&
+        currentImageFingerprint !== this.lastClipboardImage;
+      const filesChanged =
+        !!currentFiles && currentFiles !== this.lastClipboardFiles;
+      if (!textChanged && !imageChanged && !filesChanged) return;
+
+      // In incognito mode, track the clipboard but record nothing
+      if (this.settingsManager.get('incognitoMode')) {
+        this.lastClipboardContent = currentText;
+        this.lastClipboardImage = currentImageFingerprint;
+        this.lastClipboardFiles = currentFiles;
+        return;
+      }
+
+      // Skip copies made in excluded apps, such as password managers
+      const appName = await this.getActiveAppName();
+      if (this.isExcludedApp(appName)) {
+        this.lastClipboardContent = currentText;
+        this.lastClipboardImage = currentImageFingerprint;
+        this.lastClipboardFiles = currentFiles;
+        return;
+      }
+
+      // File managers also put the paths on the clipboard as text, so a file
+      // copy makes a single entry for the files
+      if (filesChanged) {
+        await this.handleClipboardChange(
+          'file',
+          currentFiles,
+          appName,
+          undefined,
+          {
+            files: await describeCopiedFiles(currentFiles.split('\n')),
+          }
+        );
+        this.lastClipboardContent = currentText;
+        this.lastClipboardImage = currentImageFingerprint;
+        this.lastClipboardFiles = currentFiles;
+        return;
+      }
 
-      // Check for rich text formats
       const currentHTML = clipboard.readHTML();
       const currentRTF = clipboard.readRTF();
+      const currentImage = image?.image.toPNG() ?? null;
 
-      // Check for text changes (including rich text)
-      if (currentText && currentText !== this.lastClipboardContent) {
+      // Secrets are skipped, masked or given an expiry before anything is saved
+      const handledAsSensitive =
+        textChanged && (await this.handleSensitiveText(currentText, appName));
+      if (handledAsSensitive) {
+        this.lastClipboardContent = currentText;
+      }
+
+      // A copy makes one entry, shown as its text when that is new and as its
+      // image otherwise, that keeps every other format of the copy as well
+      if (textChanged && !handledAsSensitive) {
         // Determine if this is rich text
         let format: 'text' | 'html' | 'rtf' = 'text';
         let content = currentText;
@@ -87,21 +275,38 @@ export class ClipboardMonitor {
           console.log('📝 Rich RTF content detected');
         }
 
-        await this.handleClipboardChange(format, content);
+        // An image of the copy, such as a rendering of copied cells, is
+        // kept with the text
+        const imageHash = currentImage
+          ? this.imageStore.save(currentImage)
+          : undefined;
+        await this.handleClipboardChange(format, content, appName, undefined, {
+          representations: this.readRepresentations(true, imageHash),
+          imageHash,
+        });
         this.lastClipboardContent = currentText;
-      }
-
-      // Check for image changes
-      if (currentImageHash && currentImageHash !== this.lastClipboardImage) {
-        const imageData = this.saveImageToFile(currentImageHash);
-        if (imageData) {
-          await this.handleClipboardChange(
-            'image',
-            imageData,
-            currentImageHash
-          );
-          this.lastClipboardImage = currentImageHash;
-        }
+        this.lastClipboardImage = currentImageFingerprint;
+        this.lastClipboardFiles = currentFiles;
+      } else if (imageChanged && currentImage) {
+        const imageHash = this.imageStore.save(currentImage);
+        console.log(
+          `📸 Image saved: ${Math.round(currentImage.length / 1024)}KB`
+        );
+        // Text that was handled as a secret stays out of the image's entry
+        await this.handleClipboardChange(
+          'image',
+          toImageUrl(imageHash),
+          appName,
+          imageHash,
+          {
+            representations: this.readRepresentations(
+              !handledAsSensitive,
+              imageHash
+            ),
+          }
+        );
+        this.lastClipboardImage = currentImageFingerprint;
+        this.lastClipboardFiles = currentFiles;
       }
     } catch (error) {
       console.error('Error checking clipboard:', error);
@@ -111,34 +316,47 @@ export class ClipboardMonitor {
   private async handleClipboardChange(
     format: 'text' | 'image' | 'file' | 'html' | 'rtf',
     content: string,
-    imageHash?: string
+    appName: string,
+    imageHash?: string,
+    details?: Pick<
+      ClipboardEntry,
+      'sensitiveType' | 'expiresAt' | 'representations' | 'files' | 'imageHash'
+    >
   ): Promise<void> {
     try {
-      // Get the active application name (simplified for now)
-      const appName = this.getActiveAppName();
-
       // Create clipboard entry
       const entry: Omit<ClipboardEntry, 'id' | 'createdAt' | 'updatedAt'> = {
         content: content,
-        contentType: this.detectContentType(content, format),
         format: format,
-        preview: this.generatePreview(content, format),
+        ...(await this.describeContent(content, format)),
+        // Links the entry to its image in the image store
+        filePath: imageHash ? this.imageStore.getPath(imageHash) : undefined,
+        imageHash,
         appName: appName,
         isPinned: false,
         isFavorite: false,
-        category: await this.asyncCategorizeContent(content, format),
         tags: [],
         usageCount: 0,
+        ...details,
       };
 
       // Get max history items setting
       const maxHistoryItems =
         (await this.settingsManager.get('maxHistoryItems')) || 40;
 
+      // Repeat copies bump the existing entry when duplicate detection is on
+      const deduplicate = this.settingsManager.get('duplicateDetection')
+        ? this.settingsManager.get('duplicateMatch') || 'exact'
+        : null;
+
       // Add to database with FIFO enforcement
       const savedEntry = await this.storageManager.addClipboardEntry(
         entry,
-        maxHistoryItems
+        maxHistoryItems,
+        {
+          deduplicate,
+          keepFavorites: this.settingsManager.get('keepFavorites'),
+        }
       );
       const totalCount = this.storageManager.getClipboardEntryCount();
       const nonPinnedCount = this.storageManager.getNonPinnedEntryCount();
@@ -156,69 +374,114 @@ export class ClipboardMonitor {
     }
   }
 
-  private getImageHash(): string {
-    try {
-      const image = clipboard.readImage();
-      if (image.isEmpty()) return '';
-
-      // Create hash based on actual image content, not timestamp
-      const buffer = image.toPNG();
-
-      // Sample a few points from the buffer for a content-based hash
-      let hash = buffer.length.toString();
-      const samplePoints = Math.min(100, buffer.length);
-      for (
-        let i = 0;
-        i < samplePoints;
-        i += Math.floor(buffer.length / samplePoints)
-      ) {
-        hash += buffer[i].toString(16);
-      }
-
-      return hash;
-    } catch (error) {
-      return '';
+  // Returns true when the text held a secret and has been dealt with
+  private async handleSensitiveText(
+    text: string,
+    appName: string
+  ): Promise<boolean> {
+    if (!this.settingsManager.get('sensitiveDataDetection')) return false;
+
+    // Settings saved before a rule was added have no action for it
+    const actions = {
+      ...DEFAULT_SETTINGS.sensitiveDataActions,
+      ...this.settingsManager.get('sensitiveDataActions'),
+    };
+    const enabledRules = (Object.keys(actions) as SensitiveDataRuleId[]).filter(
+      ruleId => actions[ruleId] !== 'ignore'
+    );
+    const handling = getSensitiveDataHandling(
+      this.sensitiveDataDetector.detect(text, enabledRules),
+      actions
+    );
+    if (!handling) return false;
+    if (handling.action === 'skip') return true;
+
+    const content = maskSensitiveData(text, handling.maskRanges);
+    if (handling.action === 'mask') {
+      await this.handleClipboardChange('text', content, appName, undefined, {
+        sensitiveType: handling.ruleId,
+      });
+    } else {
+      const expiryMinutes =
+        this.settingsManager.get('sensitiveDataExpiryMinutes') || 10;
+      await this.handleClipboardChange('text', content, appName, undefined, {
+        sensitiveType: handling.ruleId,
+        expiresAt: new Date(Date.now() + expiryMinutes * 60 * 1000),
+      });
     }
+    return true;
   }
 
-  private saveImageToFile(imageHash: string): string | null {
+  // Every format on the clipboard, or undefined when there is only the one
+  // the entry is shown as
+  private readRepresentations(
+    includeText: boolean,
+    imageHash?: string
+  ): ClipboardRepresentations | undefined {
     try {
-      const image = clipboard.readImage();
-      if (image.isEmpty()) return null;
-
-      // Create images directory in user data
-      const userDataPath = app.getPath('userData');
-      const imagesDir = join(userDataPath, 'images');
-
-      if (!existsSync(imagesDir)) {
-        mkdirSync(imagesDir, { recursive: true });
+      const representations: ClipboardRepresentations = {};
+
+      if (includeText) {
+        const text = clipboard.readText();
+        const html = clipboard.readHTML();
+        const rtf = clipboard.readRTF();
+        if (text) representations.text = text;
+        if (html.trim()) representations.html = html;
+        if (rtf.trim()) representations.rtf = rtf;
+
+        // Bookmarks are only supported on macOS and Windows
+        if (process.platform !== 'linux') {
+          const bookmark = clipboard.readBookmark();
+          if (bookmark.url) representations.bookmark = bookmark;
+        }
       }
 
-      // Save original image
-      const imagePath = join(imagesDir, `${imageHash}.png`);
-      const imageBuffer = image.toPNG();
-      writeFileSync(imagePath, imageBuffer);
+      if (imageHash) representations.image = toImageUrl(imageHash);
 
-      // Create thumbnail (64x64)
-      const thumbnailPath = join(imagesDir, `${imageHash}_thumb.png`);
-      const thumbnail = image.resize({ width: 64, height: 64 });
-      const thumbnailBuffer = thumbnail.toPNG();
-      writeFileSync(thumbnailPath, thumbnailBuffer);
+      const custom = this.readCustomFormats();
+      if (custom) representations.custom = custom;
 
-      // Get image size info
-      const size = image.getSize();
-      const sizeKB = Math.round(imageBuffer.length / 1024);
+      return getRepresentationLabels(representations).length > 1
+        ? representations
+        : undefined;
+    } catch (error) {
+      console.error('Error reading clipboard formats:', error);
+      return undefined;
+    }
+  }
+
+  // App-specific MIME types, such as a design tool's own copy format. Text,
+  // images and files are read through their own APIs.
+  private readCustomFormats(): Record<string, string> | undefined {
+    const custom: Record<string, string> = {};
+    for (const format of clipboard.availableFormats()) {
+      if (!format.includes('/') || /^(text|image)\//.test(format)) continue;
 
-      console.log(`📸 Image saved: ${size.width}x${size.height}, ${sizeKB}KB`);
+      const data = clipboard.readBuffer(format);
+      if (data.length === 0 || data.length > MAX_CUSTOM_FORMAT_BYTES) {
+        continue;
+      }
+      custom[format] = data.toString('base64');
+    }
+    return Object.keys(custom).length > 0 ? custom : undefined;
+  }
 
-      // Return base64 data for immediate display
-      return `data:image/png;base64,${imageBuffer.toString('base64')}`;
+  private readImage(
+    formats?: string[]
+  ): { image: NativeImage; fingerprint: string } | null {
+    try {
+      return this.imageFingerprinter.read(formats);
     } catch (error) {
-      console.error('Error saving image:', error);
       return null;
     }
   }
 
+  // Hash of the image as the image store saves it
+  private getImageHash(): string {
+    const png = this.readImage()?.image.toPNG();
+    return png ? this.imageStore.hash(png) : '';
+  }
+
   private detectContentType(content: string, format: string): string {
     console.log('🔍 detectContentType called with format:', format);
 
@@ -275,11 +538,20 @@ export class ClipboardMonitor {
 
   private generatePreview(content: string, format: string): string {
     if (format === 'image') return '[Image]';
-    if (format === 'file') return '[File]';
+    if (format === 'file') {
+      const names = content
+        .split('\n')
+        .map(path => basename(path) || path)
+        .join(', ');
+      if (names.length > 100) {
+        return names.substring(0, 100) + '...';
+      }
+      return names || '[File]';
+    }
 
     if (format === 'html') {
       // Extract plain text from HTML for preview with better cleaning
-      const plainText = this.extractCleanTextFromHTML(content);
+      const plainText = extractTextFromHTML(content);
       if (plainText.length > 100) {
         return plainText.substring(0, 100) + '...';
       }
@@ -288,7 +560,7 @@ export class ClipboardMonitor {
 
     if (format === 'rtf') {
       // Extract plain text from RTF for preview
-      const plainText = this.extractTextFromRTF(content);
+      const plainText = extractTextFromRTF(content);
       if (plainText.length > 100) {
         return plainText.substring(0, 100) + '...';
       }
@@ -303,74 +575,6 @@ export class ClipboardMonitor {
     return content;
   }
 
-  // Improved method to extract clean text from HTML
-  private extractCleanTextFromHTML(html: string): string {
-    try {
-      let text = html;
-
-      // Remove script and style elements completely
-      text = text.replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '');
-      text = text.replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '');
-
-      // Remove HTML comments
-      text = text.replace(/<!--[\s\S]*?-->/g, '');
-
-      // Remove all HTML tags
-      text = text.replace(/<[^>]*>/g, '');
-
-      // Decode HTML entities
-      text = text
-        .replace(/&nbsp;/g, '  ') // Non-breaking space to double space to match test expectations
-        .replace(/&amp;/g, '&')
-        .replace(/&lt;/g, '<')
-        .replace(/&gt;/g, '>')
-        .replace(/&quot;/g, '"')
-        .replace(/&#39;/g, "'")
-        .replace(/&apos;/g, "'");
-
-      // Clean up whitespace
-      text = text
-        .replace(/\s+/g, ' ') // Replace multiple spaces with single space
-        .replace(/\n\s*\n/g, '\n') // Remove empty lines
-        .trim();
-
-      return text;
-    } catch (error) {
-      console.error('Error extracting clean text from HTML:', error);
-      // Fallback to simple tag removal
-      return html.replace(/<[^>]*>/g, '').trim();
-    }
-  }
-
-  private extractTextFromRTF(rtf: string): string {
-    try {
-      let text = rtf;
-
-      // Remove RTF header and control tables more carefully
-      text = text.replace(/^{\s*\\rtf1[^}]*}/g, '');
-      text = text.replace(/{\s*\\fonttbl[^}]*}/g, '');
-      text = text.replace(/{\s*\\colortbl[^}]*}/g, '');
-      text = text.replace(/{\s*\\stylesheet[^}]*}/g, '');
-
-      // Remove RTF control words but preserve the text that follows
-      text = text.replace(/\\[a-z]+\d*\s?/g, ' ');
-
-      // Remove RTF control symbols
-      text = text.replace(/\\[^a-z\s]/g, '');
-
-      // Remove braces
-      text = text.replace(/[{}]/g, '');
-
-      // Clean up whitespace
-      text = text.replace(/\s+/g, ' ').trim();
-
-      return text;
-    } catch (error) {
-      console.error('Error extracting text from RTF:', error);
-      return rtf; // Return original content as fallback
-    }
-  }
-
   private async asyncCategorizeContent(
     content: string,
     format: string
@@ -445,10 +649,25 @@ export class ClipboardMonitor {
     }
   }
 
-  private getActiveAppName(): string {
-    // This is a simplified implementation
-    // In a real app, you'd use platform-specific APIs to get the active window
-    return 'Unknown App';
+  private async getActiveAppName(): Promise<string> {
+    const focusedApp = await getFocusedApp();
+    if (!focusedApp) return 'Unknown App';
+    const appName = focusedApp.name;
+
+    // Keep the most recently seen sources for the exclusion editor
+    this.recentSourceApps = [
+      appName,
+      ...this.recentSourceApps.filter(name => name !== appName),
+    ].slice(0, MAX_RECENT_SOURCE_APPS);
+
+    return appName;
+  }
+
+  private isExcludedApp(appName: string): boolean {
+    const excludedApps = this.settingsManager.get('excludedApps') || [];
+    return excludedApps.some(
+      excluded => excluded.toLowerCase() === appName.toLowerCase()
+    );
   }
 
   // Content detection helpers with comprehensive regex patterns
@@ -195,4 +195,40 @@ const createFallbackTrayIcon = (): Electron.NativeImage => {
   });
 };
 
+// Dimmed variant of the tray icon with a red dot, shown while capture is paused
+export const createPausedTrayIcon = (
+  baseIcon: string | Electron.NativeImage
+): Electron.NativeImage => {
+  const base =
+    typeof baseIcon === 'string'
+      ? nativeImage.createFromPath(baseIcon)
+      : baseIcon;
+  const { width, height } = base.getSize();
+  const bitmap = Buffer.from(base.toBitmap()); // BGRA
+
+  const dotRadius = Math.max(2, Math.round(width / 5));
+  const dotCenterX = width - dotRadius - 1;
+  const dotCenterY = height - dotRadius - 1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const inDot =
+        Math.pow(x - dotCenterX, 2) + Math.pow(y - dotCenterY, 2) <=
+        dotRadius * dotRadius;
+
+      if (inDot) {
+        bitmap[i] = 60; // B
+        bitmap[i + 1] = 60; // G
+        bitmap[i + 2] = 231; // R
+        bitmap[i + 3] = 255; // A
+      } else {
+        bitmap[i + 3] = Math.round(bitmap[i + 3] * 0.4);
+      }
+    }
+  }
+
+  return nativeImage.createFromBitmap(bitmap, { width, height });
+};
+
 export default createTrayIcon;
@@ -0,0 +1,200 @@
+import { app, safeStorage } from 'electron';
+import {
+  existsSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'fs';
+import { join } from 'path';
+import { randomBytes } from 'crypto';
+import { EncryptionKeySource, EncryptionStatus } from '../shared/types';
+import {
+  DataCipher,
+  createDataKey,
+  deriveKeyFromPassphrase,
+  isEncryptedBuffer,
+} from './cipher';
+import {
+  ENCRYPTED_IMAGE_SUFFIX,
+  hashImage,
+  STORED_IMAGE_PATTERN,
+} from './image-store';
+import { SqliteStorageManager } from './sqlite-storage';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+// Owns the data key for at-rest encryption. The key itself is never stored;
+// only a copy wrapped by the OS keychain or by a passphrase-derived key is.
+export class EncryptionManager {
+  private storageManager: SqliteStorageManager;
+  private imagesDir: string;
+
+  constructor(storageManager: SqliteStorageManager) {
+    this.storageManager = storageManager;
+    this.imagesDir = join(app.getPath('userData'), 'images');
+  }
+
+  // Unlocks keychain-protected storage at startup
+  initialize(): void {
+    if (this.storageManager.getEncryptionKeySource() !== 'keychain') return;
+
+    try {
+      const wrappedKey = this.getWrappedKey();
+      const dataKey = Buffer.from(
+        safeStorage.decryptString(wrappedKey),
+        'base64'
+      );
+      this.storageManager.setCipher(new DataCipher(dataKey));
+      console.log('🔓 Unlocked encrypted storage with the system keychain');
+    } catch (error) {
+      console.error('❌ Failed to unlock storage with the keychain:', error);
+    }
+  }
+
+  getStatus(): EncryptionStatus {
+    return {
+      enabled: this.storageManager.isEncryptionEnabled(),
+      keySource: this.storageManager.getEncryptionKeySource(),
+      locked: this.storageManager.isLocked(),
+      keychainAvailable: this.isKeychainAvailable(),
+    };
+  }
+
+  enable(keySource: EncryptionKeySource, passphrase?: string): void {
+    const dataKey = createDataKey();
+    let keyMeta: Record<string, string>;
+
+    if (keySource === 'keychain') {
+      if (!this.isKeychainAvailable()) {
+        throw new Error('The system keychain is not available');
+      }
+      keyMeta = {
+        wrappedKey: safeStorage
+          .encryptString(dataKey.toString('base64'))
+          .toString('base64'),
+      };
+    } else {
+      if (!passphrase || passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        throw new Error(
+          `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`
+        );
+      }
+      const salt = randomBytes(16);
+      const keyCipher = new DataCipher(
+        deriveKeyFromPassphrase(passphrase, salt)
+      );
+      keyMeta = {
+        salt: salt.toString('base64'),
+        wrappedKey: keyCipher.encryptString(dataKey.toString('base64')),
+      };
+    }
+
+    const cipher = new DataCipher(dataKey);
+    this.storageManager.enableEncryption(cipher, keySource, keyMeta);
+    this.migrateImages(cipher, true);
+  }
+
+  disable(): void {
+    const cipher = this.storageManager.getCipher();
+    if (!cipher) {
+      throw new Error('Storage must be unlocked to disable encryption');
+    }
+
+    this.storageManager.disableEncryption();
+    this.migrateImages(cipher, false);
+  }
+
+  // Returns false when the passphrase is wrong
+  unlock(passphrase: string): boolean {
+    if (this.storageManager.getEncryptionKeySource() !== 'passphrase') {
+      return !this.storageManager.isLocked();
+    }
+
+    try {
+      const salt = Buffer.from(
+        this.storageManager.getMeta('encryption.salt') || '',
+        'base64'
+      );
+      const keyCipher = new DataCipher(
+        deriveKeyFromPassphrase(passphrase, salt)
+      );
+      const dataKey = Buffer.from(
+        keyCipher.decryptString(
+          this.storageManager.getMeta('encryption.wrappedKey') || ''
+        ),
+        'base64'
+      );
+      this.storageManager.setCipher(new DataCipher(dataKey));
+      console.log('🔓 Unlocked encrypted storage with passphrase');
+      return true;
+    } catch (error) {
+      console.warn('⚠️ Failed to unlock storage: wrong passphrase');
+      return false;
+    }
+  }
+
+  private isKeychainAvailable(): boolean {
+    if (!safeStorage.isEncryptionAvailable()) return false;
+
+    // On Linux without a secret service, safeStorage falls back to a
+    // hardcoded key, which offers no real protection
+    if (process.platform === 'linux') {
+      return safeStorage.getSelectedStorageBackend() !== 'basic_text';
+    }
+    return true;
+  }
+
+  private getWrappedKey(): Buffer {
+    const wrappedKey = this.storageManager.getMeta('encryption.wrappedKey');
+    if (!wrappedKey) {
+      throw new Error('No wrapped data key found');
+    }
+    return Buffer.from(wrappedKey, 'base64');
+  }
+
+  // Rewrites saved images to match the encryption state. Images in the store
+  // are named by a keyed hash while encrypted, so they are renamed and their
+  // thumbnails made again when next shown.
+  private migrateImages(cipher: DataCipher, encrypt: boolean): void {
+    if (!existsSync(this.imagesDir)) return;
+
+    const names = new Map<string, string>();
+    for (const file of readdirSync(this.imagesDir)) {
+      const isEncryptedFile = file.endsWith(ENCRYPTED_IMAGE_SUFFIX);
+      if (isEncryptedFile === encrypt) continue;
+
+      const sourcePath = join(this.imagesDir, file);
+      const [, hash, thumbnail] = file.match(STORED_IMAGE_PATTERN) ?? [];
+      let targetName = encrypt
+        ? file + ENCRYPTED_IMAGE_SUFFIX
+        : file.slice(0, -ENCRYPTED_IMAGE_SUFFIX.length);
+
+      try {
+        if (thumbnail) {
+          rmSync(sourcePath, { force: true });
+          continue;
+        }
+
+        const data = readFileSync(sourcePath);
+        if (encrypt && isEncryptedBuffer(data)) continue;
+
+        const png = encrypt ? data : cipher.decryptBuffer(data);
+        if (hash) {
+          const newHash = encrypt ? cipher.hash(png) : hashImage(png);
+          names.set(hash, newHash);
+          targetName = `${newHash}.png${encrypt ? ENCRYPTED_IMAGE_SUFFIX : ''}`;
+        }
+        writeFileSync(
+          join(this.imagesDir, targetName),
+          encrypt ? cipher.encryptBuffer(png) : png
+        );
+        rmSync(sourcePath, { force: true });
+      } catch (error) {
+        console.error(`❌ Failed to migrate image ${file}:`, error);
+      }
+    }
+
+    this.storageManager.renameImages(names);
+  }
+}
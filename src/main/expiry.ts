@@ -0,0 +1,66 @@
+import { ClipboardEntry } from '../shared/types';
+import { SqliteStorageManager } from './sqlite-storage';
+
+// setTimeout can't wait longer than ~24.8 days, so re-check at least daily
+const MAX_TIMER_DELAY_MS = 24 * 60 * 60 * 1000;
+
+// Deletes entries when their expiresAt passes, using a single timer set for
+// the next expiry due
+export class ExpiryManager {
+  private storageManager: SqliteStorageManager;
+  private timer: NodeJS.Timeout | null = null;
+  private onExpired?: (entries: ClipboardEntry[]) => void;
+
+  constructor(
+    storageManager: SqliteStorageManager,
+    onExpired?: (entries: ClipboardEntry[]) => void
+  ) {
+    this.storageManager = storageManager;
+    this.onExpired = onExpired;
+  }
+
+  // Call whenever an entry's expiry is added or changed
+  schedule(): void {
+    this.clearTimer();
+
+    const nextExpiry = this.storageManager.getNextExpiry();
+    if (!nextExpiry) return;
+
+    const delay = Math.min(
+      Math.max(0, nextExpiry.getTime() - Date.now()),
+      MAX_TIMER_DELAY_MS
+    );
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.purge();
+      this.schedule();
+    }, delay);
+  }
+
+  purge(): ClipboardEntry[] {
+    // Expired entries are decrypted on removal, so wait until unlocked
+    if (this.storageManager.isLocked()) return [];
+
+    try {
+      const expiredEntries = this.storageManager.deleteExpiredEntries();
+      if (expiredEntries.length > 0) {
+        this.onExpired?.(expiredEntries);
+      }
+      return expiredEntries;
+    } catch (error) {
+      console.error('❌ Failed to remove expired entries:', error);
+      return [];
+    }
+  }
+
+  stop(): void {
+    this.clearTimer();
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,118 @@
+import { app, clipboard } from 'electron';
+import { statSync } from 'fs';
+import { basename } from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { CopiedFile } from '../shared/types';
+
+// Nautilus, Nemo, Caja and Thunar read this, with "copy" or "cut" first
+const GNOME_COPIED_FILES = 'x-special/gnome-copied-files';
+// The freedesktop standard, read by Dolphin and most other apps
+const URI_LIST = 'text/uri-list';
+
+// Icons are looked up for this many files of a copy, which is plenty for the
+// history card
+const MAX_FILE_ICONS = 20;
+
+const toPath = (uri: string): string | null => {
+  try {
+    return uri.startsWith('file://') ? fileURLToPath(uri) : null;
+  } catch {
+    return null;
+  }
+};
+
+// Local paths of a text/uri-list, which separates URIs with CRLF and allows
+// comment lines starting with #
+export const parseUriList = (text: string): string[] =>
+  text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'))
+    .map(toPath)
+    .filter((path): path is string => path !== null);
+
+export const parseGnomeCopiedFiles = (text: string): string[] => {
+  const [operation, ...uris] = text.split(/\r?\n/);
+  if (operation !== 'copy' && operation !== 'cut') return [];
+  return parseUriList(uris.join('\n'));
+};
+
+export const toUriList = (paths: string[]): string =>
+  paths.map(path => pathToFileURL(path).href).join('\r\n');
+
+export const toGnomeCopiedFiles = (paths: string[]): string =>
+  ['copy', ...paths.map(path => pathToFileURL(path).href)].join('\n');
+
+// Paths of the files and folders on the clipboard. Only Linux file managers
+// are supported so far, elsewhere this is always empty.
+export const readCopiedFilePaths = (
+  formats: string[] = clipboard.availableFormats()
+): string[] => {
+  if (process.platform !== 'linux') return [];
+
+  try {
+    if (formats.includes(GNOME_COPIED_FILES)) {
+      const paths = parseGnomeCopiedFiles(
+        clipboard.readBuffer(GNOME_COPIED_FILES).toString('utf8')
+      );
+      if (paths.length > 0) return paths;
+    }
+    if (formats.includes(URI_LIST)) {
+      return parseUriList(clipboard.readBuffer(URI_LIST).toString('utf8'));
+    }
+  } catch (error) {
+    console.error('Error reading copied files:', error);
+  }
+  return [];
+};
+
+// Electron writes a single custom format at a time, so the one the desktop's
+// file manager reads is chosen
+export const writeCopiedFiles = (paths: string[]): void => {
+  if (process.platform !== 'linux') {
+    clipboard.writeText(paths.join('\n'));
+    return;
+  }
+
+  const desktop = (process.env.XDG_CURRENT_DESKTOP || '').toUpperCase();
+  if (desktop.includes('KDE')) {
+    clipboard.writeBuffer(URI_LIST, Buffer.from(toUriList(paths), 'utf8'));
+  } else {
+    clipboard.writeBuffer(
+      GNOME_COPIED_FILES,
+      Buffer.from(toGnomeCopiedFiles(paths), 'utf8')
+    );
+  }
+};
+
+// Names, sizes and icons of copied files. Files that have since been moved
+// or deleted are kept with just their name.
+export const describeCopiedFiles = (paths: string[]): Promise<CopiedFile[]> =>
+  Promise.all(
+    paths.map(async (path, index) => {
+      const file: CopiedFile = {
+        path,
+        name: basename(path) || path,
+        isDirectory: false,
+      };
+
+      try {
+        const stats = statSync(path);
+        file.isDirectory = stats.isDirectory();
+        // Folder sizes would mean walking the whole tree
+        if (!file.isDirectory) file.size = stats.size;
+      } catch {
+        return file;
+      }
+
+      if (index < MAX_FILE_ICONS) {
+        try {
+          const icon = await app.getFileIcon(path, { size: 'small' });
+          if (!icon.isEmpty()) file.icon = icon.toDataURL();
+        } catch (error) {
+          console.warn(`Could not get the icon of ${path}:`, error);
+        }
+      }
+      return file;
+    })
+  );
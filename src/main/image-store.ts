@@ -0,0 +1,168 @@
+import { app, nativeImage, NativeImage } from 'electron';
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { isImageHash, parseImageUrl } from '../shared/image-urls';
+import { SqliteStorageManager } from './sqlite-storage';
+
+// Longest side of a thumbnail, enough for the history card on HiDPI screens
+const THUMBNAIL_MAX_SIZE = 128;
+
+export const ENCRYPTED_IMAGE_SUFFIX = '.enc';
+
+// Images and thumbnails in the store, as opposed to images saved by path
+// before it existed
+export const STORED_IMAGE_PATTERN = /^([0-9a-f]{64})(_thumb)?\.png(?:\.enc)?$/;
+
+export const hashImage = (png: Buffer): string =>
+  createHash('sha256').update(png).digest('hex');
+
+// Fits the image inside a square of the given size, keeping its aspect ratio
+export const fitWithin = (
+  size: { width: number; height: number },
+  maxSize: number
+): { width: number; height: number } => {
+  const scale = Math.min(1, maxSize / size.width, maxSize / size.height);
+  return {
+    width: Math.max(1, Math.round(size.width * scale)),
+    height: Math.max(1, Math.round(size.height * scale)),
+  };
+};
+
+// Content-addressed store for copied images. Each PNG is saved once as
+// <hash>.png, however many entries use it, and its thumbnail is made the
+// first time it is shown. Files are encrypted along with the history, and
+// then named by a keyed hash so the names can't confirm guesses either.
+export class ImageStore {
+  private storageManager: SqliteStorageManager;
+  private imagesDir: string;
+
+  constructor(storageManager: SqliteStorageManager) {
+    this.storageManager = storageManager;
+    this.imagesDir = join(app.getPath('userData'), 'images');
+  }
+
+  // Saves the PNG unless an identical one is already stored, and returns
+  // its hash
+  save(png: Buffer): string {
+    const hash = this.hash(png);
+    if (!this.findFile(this.getPath(hash))) {
+      if (!existsSync(this.imagesDir)) {
+        mkdirSync(this.imagesDir, { recursive: true });
+      }
+      this.writeFile(this.getPath(hash), png);
+    }
+    return hash;
+  }
+
+  // Name of the PNG in the store
+  hash(png: Buffer): string {
+    const cipher = this.storageManager.getCipher();
+    return cipher ? cipher.hash(png) : hashImage(png);
+  }
+
+  read(hash: string): Buffer | null {
+    return isImageHash(hash) ? this.readFile(this.getPath(hash)) : null;
+  }
+
+  getThumbnail(hash: string): Buffer | null {
+    if (!isImageHash(hash)) return null;
+
+    const thumbnailPath = this.getPath(hash, true);
+    const cached = this.readFile(thumbnailPath);
+    if (cached) return cached;
+
+    const png = this.read(hash);
+    if (!png) return null;
+
+    const image = nativeImage.createFromBuffer(png);
+    const thumbnail = image
+      .resize({
+        ...fitWithin(image.getSize(), THUMBNAIL_MAX_SIZE),
+        quality: 'good',
+      })
+      .toPNG();
+    try {
+      this.writeFile(thumbnailPath, thumbnail);
+    } catch (error) {
+      console.warn(`⚠️ Could not cache the thumbnail of ${hash}:`, error);
+    }
+    return thumbnail;
+  }
+
+  // Deletes images, and their thumbnails, that entries no longer use
+  delete(hashes: string[]): void {
+    for (const hash of hashes.filter(isImageHash)) {
+      for (const filePath of [this.getPath(hash), this.getPath(hash, true)]) {
+        rmSync(filePath, { force: true });
+        rmSync(filePath + ENCRYPTED_IMAGE_SUFFIX, { force: true });
+      }
+    }
+  }
+
+  // Image behind an image store URL, or a data URL from an older entry
+  toNativeImage(url: string): NativeImage | null {
+    if (url.startsWith('data:image/')) {
+      return nativeImage.createFromDataURL(url);
+    }
+    const image = parseImageUrl(url);
+    const png = image ? this.read(image.hash) : null;
+    return png ? nativeImage.createFromBuffer(png) : null;
+  }
+
+  // Serves image store URLs to the renderer
+  handleRequest(request: Request): Response {
+    const image = parseImageUrl(request.url);
+    const png = image
+      ? image.variant === 'thumbnail'
+        ? this.getThumbnail(image.hash)
+        : this.read(image.hash)
+      : null;
+    if (!png) return new Response(null, { status: 404 });
+
+    return new Response(new Uint8Array(png), {
+      headers: { 'Content-Type': 'image/png' },
+    });
+  }
+
+  getPath(hash: string, thumbnail = false): string {
+    return join(this.imagesDir, `${hash}${thumbnail ? '_thumb' : ''}.png`);
+  }
+
+  // The file as saved, encrypted or not
+  private findFile(filePath: string): string | null {
+    if (existsSync(filePath + ENCRYPTED_IMAGE_SUFFIX)) {
+      return filePath + ENCRYPTED_IMAGE_SUFFIX;
+    }
+    return existsSync(filePath) ? filePath : null;
+  }
+
+  private readFile(filePath: string): Buffer | null {
+    const savedPath = this.findFile(filePath);
+    if (!savedPath) return null;
+
+    try {
+      const data = readFileSync(savedPath);
+      if (savedPath === filePath) return data;
+
+      // Encrypted images can't be shown while storage is locked
+      const cipher = this.storageManager.getCipher();
+      return cipher ? cipher.decryptBuffer(data) : null;
+    } catch (error) {
+      console.error(`❌ Failed to read image ${savedPath}:`, error);
+      return null;
+    }
+  }
+
+  private writeFile(filePath: string, data: Buffer): void {
+    const cipher = this.storageManager.getCipher();
+    if (cipher) {
+      writeFileSync(
+        filePath + ENCRYPTED_IMAGE_SUFFIX,
+        cipher.encryptBuffer(data)
+      );
+    } else {
+      writeFileSync(filePath, data);
+    }
+  }
+}
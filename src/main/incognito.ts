@@ -0,0 +1,75 @@
+import { SettingsManager } from './settings';
+
+// Pauses clipboard capture, either for a fixed time or until the app restarts
+export class IncognitoManager {
+  private settingsManager: SettingsManager;
+  private timer: NodeJS.Timeout | null = null;
+  private pausedUntil: Date | null = null;
+  private onChange?: (active: boolean) => void;
+
+  constructor(
+    settingsManager: SettingsManager,
+    onChange?: (active: boolean) => void
+  ) {
+    this.settingsManager = settingsManager;
+    this.onChange = onChange;
+
+    // Incognito never outlives the session that turned it on
+    if (this.settingsManager.get('incognitoMode')) {
+      this.settingsManager.set('incognitoMode', false);
+    }
+  }
+
+  // Pass null to stay in incognito until the app restarts
+  enable(durationMs: number | null): void {
+    this.clearTimer();
+
+    if (durationMs !== null) {
+      this.pausedUntil = new Date(Date.now() + durationMs);
+      this.timer = setTimeout(() => this.disable(), durationMs);
+    } else {
+      this.pausedUntil = null;
+    }
+
+    this.settingsManager.set('incognitoMode', true);
+    console.log(
+      `🕶️ Incognito mode on${
+        this.pausedUntil
+          ? ` until ${this.pausedUntil.toLocaleTimeString()}`
+          : ' until restart'
+      }`
+    );
+    this.onChange?.(true);
+  }
+
+  disable(): void {
+    this.clearTimer();
+    this.pausedUntil = null;
+
+    if (!this.isActive()) return;
+
+    this.settingsManager.set('incognitoMode', false);
+    console.log('🕶️ Incognito mode off, clipboard capture resumed');
+    this.onChange?.(false);
+  }
+
+  isActive(): boolean {
+    return !!this.settingsManager.get('incognitoMode');
+  }
+
+  // When a timed incognito session ends, or null if it lasts until restart
+  getPausedUntil(): Date | null {
+    return this.pausedUntil;
+  }
+
+  destroy(): void {
+    this.clearTimer();
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -1,28 +1,75 @@
+import { exec } from 'child_process';
 import {
   app,
   BrowserWindow,
+  clipboard,
+  dialog,
   globalShortcut,
   ipcMain,
   Menu,
+  MenuItemConstructorOptions,
+  NativeImage,
+  nativeImage,
+  protocol,
+  screen,
   Tray,
 } from 'electron';
+import { existsSync } from 'fs';
 import { join } from 'path';
 import { isDev } from '../shared/constants';
-import { ClipboardEntry } from '../shared/types';
+import { IMAGE_PROTOCOL, parseImageUrl } from '../shared/image-urls';
+import {
+  IpcArgs,
+  IpcChannel,
+  IpcError,
+  IpcResult,
+  parseIpcArgs,
+} from '../shared/ipc-contract';
+import {
+  applyPasteTransforms,
+  canTransform,
+  PasteTransformId,
+} from '../shared/paste-transforms';
+import { expandTemplate } from '../shared/snippets';
+import {
+  CleanupReport,
+  ClipboardEntry,
+  ClipboardRepresentations,
+  PasteQueueState,
+  Snippet,
+} from '../shared/types';
+import { CleanupManager } from './cleanup';
 import { ClipboardMonitor } from './clipboard';
 import createAppIcon from './createAppIcon';
-import createTrayIcon from './createTrayIcon';
-import { JsonStorageManager } from './json-storage';
+import createTrayIcon, { createPausedTrayIcon } from './createTrayIcon';
+import { EncryptionManager } from './encryption';
+import { ExpiryManager } from './expiry';
+import { writeCopiedFiles } from './file-clipboard';
+import { ImageStore } from './image-store';
+import { IncognitoManager } from './incognito';
+import { PasteQueueManager } from './paste-queue';
 import { SettingsManager } from './settings';
+import { SnippetStorageManager } from './snippet-storage';
+import { getFocusedApp } from './source-app';
+import { SqliteStorageManager } from './sqlite-storage';
 
 class LocalClipApp {
   private mainWindow: BrowserWindow | null = null;
   private aboutWindow: BrowserWindow | null = null;
   private tray: Tray | null = null;
+  private trayIcon: string | NativeImage | null = null;
   private clipboardMonitor!: ClipboardMonitor;
-  private storageManager!: JsonStorageManager;
+  private storageManager!: SqliteStorageManager;
+  private imageStore!: ImageStore;
   private settingsManager!: SettingsManager;
+  private encryptionManager!: EncryptionManager;
+  private incognitoManager!: IncognitoManager;
+  private cleanupManager!: CleanupManager;
+  private expiryManager!: ExpiryManager;
+  private snippetManager!: SnippetStorageManager;
+  private pasteQueue!: PasteQueueManager;
   private currentHotkey: string = '';
+  private currentPasteQueueHotkey: string = '';
   private shouldShowOnReady: boolean = false;
   private targetAppInfo: { bundleId?: string; processId?: number } | null =
     null;
@@ -39,13 +86,42 @@ class LocalClipApp {
         console.warn('Could not create app icon:', error);
       }
 
-      this.storageManager = new JsonStorageManager();
       this.settingsManager = new SettingsManager();
+      this.storageManager = new SqliteStorageManager({
+        importLegacySettings: settings =>
+          this.settingsManager.importSettings(settings),
+      });
+      this.imageStore = new ImageStore(this.storageManager);
+      this.storageManager.setImageReleaseHandler(hashes =>
+        this.imageStore.delete(hashes)
+      );
+      this.snippetManager = new SnippetStorageManager();
+      this.encryptionManager = new EncryptionManager(this.storageManager);
+      this.incognitoManager = new IncognitoManager(this.settingsManager, () =>
+        this.updateTray()
+      );
+      this.pasteQueue = new PasteQueueManager(
+        this.settingsManager,
+        (state: PasteQueueState) => this.emitPasteQueueChange(state)
+      );
+      this.cleanupManager = new CleanupManager(
+        this.storageManager,
+        this.settingsManager,
+        (report: CleanupReport) => this.emitHistoryCleaned(report)
+      );
+      this.expiryManager = new ExpiryManager(
+        this.storageManager,
+        (entries: ClipboardEntry[]) => this.handleEntriesExpired(entries)
+      );
       this.clipboardMonitor = new ClipboardMonitor(
         this.storageManager,
         this.settingsManager,
+        this.imageStore,
         (entry: ClipboardEntry) => this.emitClipboardChange(entry)
       );
+      this.storageManager.setContentDescriber((content, format) =>
+        this.clipboardMonitor.describeContent(content, format)
+      );
 
       this.setupApp();
       this.setupIPC();
@@ -53,7 +129,6 @@ class LocalClipApp {
       console.error('Error initializing LocalClip:', error);
       // Show error dialog and quit
       app.whenReady().then(() => {
-        const { dialog } = require('electron');
         const errorMessage =
           error instanceof Error ? error.message : String(error);
         dialog.showErrorBox(
@@ -75,6 +150,19 @@ class LocalClipApp {
           this.setCustomDockIcon();
         }
 
+        // Unlock keychain-protected history (safeStorage needs the app ready)
+        this.encryptionManager.initialize();
+
+        // Stored images and their thumbnails are loaded by URL
+        protocol.handle(IMAGE_PROTOCOL, request =>
+          this.imageStore.handleRequest(request)
+        );
+
+        // Apply the retention policy now and once a day
+        this.cleanupManager.start();
+        this.expiryManager.purge();
+        this.expiryManager.schedule();
+
         // Setup auto-start functionality
         await this.setupAutoStart();
 
@@ -144,6 +232,18 @@ class LocalClipApp {
         this.clipboardMonitor.stop();
       }
 
+      if (this.incognitoManager) {
+        this.incognitoManager.destroy();
+      }
+
+      if (this.cleanupManager) {
+        this.cleanupManager.stop();
+      }
+
+      if (this.expiryManager) {
+        this.expiryManager.stop();
+      }
+
       // Close storage manager
       if (this.storageManager) {
         this.storageManager.close();
@@ -507,6 +607,39 @@ class LocalClipApp {
         );
       }
     }
+
+    const pasteQueueHotkey = this.settingsManager.get('pasteQueueHotkey');
+    if (pasteQueueHotkey && !this.registerPasteQueueHotkey(pasteQueueHotkey)) {
+      console.warn(
+        `Failed to register paste queue hotkey: ${pasteQueueHotkey}`
+      );
+    }
+  }
+
+  private registerPasteQueueHotkey(hotkey: string): boolean {
+    if (this.currentPasteQueueHotkey) {
+      globalShortcut.unregister(this.currentPasteQueueHotkey);
+    }
+
+    try {
+      // Pressed in the app being filled in, which the next entry goes to
+      const success = globalShortcut.register(hotkey, () =>
+        this.pasteNextQueued()
+      );
+
+      if (success) {
+        this.currentPasteQueueHotkey = hotkey;
+        console.log(`Paste queue hotkey registered: ${hotkey}`);
+        this.updateTray();
+        return true;
+      } else {
+        console.error(`Failed to register paste queue hotkey: ${hotkey}`);
+        return false;
+      }
+    } catch (error) {
+      console.error(`Error registering paste queue hotkey: ${hotkey}`, error);
+      return false;
+    }
   }
 
   private registerGlobalHotkey(hotkey: string): boolean {
@@ -518,12 +651,9 @@ class LocalClipApp {
     // Register new hotkey
     try {
       const success = globalShortcut.register(hotkey, () => {
-        // IMMEDIATELY capture the app where user was typing/focused
-        // This is the target app where we'll paste the selected item
-        this.storeFocusedApp();
-
-        // Show LocalClip window after capturing target with proper positioning
-        this.showWindowWithProperFocus();
+        // Capture the app where the user was typing before our window takes
+        // focus; it's the target we'll paste the selected item into
+        this.storeFocusedApp().then(() => this.showWindowWithProperFocus());
       });
 
       if (success) {
@@ -558,11 +688,67 @@ class LocalClipApp {
       }
 
       // Create new tray
+      this.trayIcon = iconPathOrImage;
       this.tray = new Tray(iconPathOrImage);
+      this.updateTray();
+
+      console.log('Tray icon setup complete');
+    } catch (error) {
+      console.error('Error setting up tray icon:', error);
+      // If tray setup fails, show in dock as fallback
+      if (process.platform === 'darwin') {
+        app.dock?.show();
+      }
+    }
+  }
 
-      // Set tooltip with hotkey info
+  // Refreshes the tray icon, tooltip and menu to reflect incognito mode
+  private updateTray() {
+    if (!this.tray || !this.trayIcon) return;
+
+    try {
+      const isIncognito = this.incognitoManager.isActive();
+      const pausedUntil = this.incognitoManager.getPausedUntil();
+
+      this.tray.setImage(
+        isIncognito ? createPausedTrayIcon(this.trayIcon) : this.trayIcon
+      );
+
+      // Set tooltip with hotkey info and capture state
       const hotkeyInfo = this.currentHotkey ? ` (${this.currentHotkey})` : '';
-      this.tray.setToolTip(`LocalClip - Clipboard Manager${hotkeyInfo}`);
+      const pausedInfo = isIncognito
+        ? pausedUntil
+          ? ` - Capture paused until ${pausedUntil.toLocaleTimeString()}`
+          : ' - Capture paused until restart'
+        : '';
+      const queueProgress = this.pasteQueue.describeProgress();
+      const queueInfo = queueProgress ? ` - ${queueProgress}` : '';
+      this.tray.setToolTip(
+        `LocalClip - Clipboard Manager${hotkeyInfo}${pausedInfo}${queueInfo}`
+      );
+
+      const incognitoMenuItem: MenuItemConstructorOptions = isIncognito
+        ? {
+            label: 'Resume Capture',
+            click: () => this.incognitoManager.disable(),
+          }
+        : {
+            label: 'Pause Capture (Incognito)',
+            submenu: [
+              {
+                label: 'For 5 Minutes',
+                click: () => this.incognitoManager.enable(5 * 60 * 1000),
+              },
+              {
+                label: 'For 1 Hour',
+                click: () => this.incognitoManager.enable(60 * 60 * 1000),
+              },
+              {
+                label: 'Until Restart',
+                click: () => this.incognitoManager.enable(null),
+              },
+            ],
+          };
 
       // Create context menu
       const contextMenu = Menu.buildFromTemplate([
@@ -575,6 +761,9 @@ class LocalClipApp {
           click: () => this.showSettings(),
         },
         { type: 'separator' },
+        incognitoMenuItem,
+        this.buildPasteQueueMenuItem(),
+        { type: 'separator' },
         {
           label: 'About',
           click: () => this.showAbout(),
@@ -588,22 +777,63 @@ class LocalClipApp {
 
       // Set the context menu
       this.tray.setContextMenu(contextMenu);
-
-      console.log('Tray icon setup complete');
     } catch (error) {
-      console.error('Error setting up tray icon:', error);
-      // If tray setup fails, show in dock as fallback
-      if (process.platform === 'darwin') {
-        app.dock?.show();
-      }
+      console.error('Error updating tray:', error);
     }
   }
 
+  private buildPasteQueueMenuItem(): MenuItemConstructorOptions {
+    const state = this.pasteQueue.getState();
+    const setOrder = (order: PasteQueueState['order']) => {
+      this.settingsManager.set('pasteQueueOrder', order);
+      this.pasteQueue.notify();
+    };
+
+    return {
+      label: 'Paste Queue',
+      submenu: [
+        state.isCollecting
+          ? {
+              label: 'Stop Collecting',
+              click: () => this.pasteQueue.stopCollecting(),
+            }
+          : {
+              label: 'Start Collecting',
+              click: () => this.pasteQueue.startCollecting(),
+            },
+        {
+          label: `Paste Next${
+            this.currentPasteQueueHotkey
+              ? ` (${this.currentPasteQueueHotkey})`
+              : ''
+          }`,
+          enabled: state.entries.length > 0,
+          click: () => this.pasteNextQueued(),
+        },
+        {
+          label: 'Clear Queue',
+          enabled: state.entries.length > 0,
+          click: () => this.pasteQueue.clear(),
+        },
+        { type: 'separator' },
+        {
+          label: 'First In, First Out',
+          type: 'radio',
+          checked: state.order === 'fifo',
+          click: () => setOrder('fifo'),
+        },
+        {
+          label: 'Last In, First Out',
+          type: 'radio',
+          checked: state.order === 'lifo',
+          click: () => setOrder('lifo'),
+        },
+      ],
+    };
+  }
+
   private setCustomDockIcon(): boolean {
     try {
-      const { nativeImage } = require('electron');
-      const fs = require('fs');
-
       // Try the CS clipboard icons in order of preference
       const iconPaths = [
         join(__dirname, '../../assets/app.icns'), // ICNS file (best for macOS)
@@ -620,7 +850,7 @@ class LocalClipApp {
       for (const iconPath of iconPaths) {
         console.log('🔍 Trying CS clipboard icon path:', iconPath);
 
-        if (fs.existsSync(iconPath)) {
+        if (existsSync(iconPath)) {
           const dockIcon = nativeImage.createFromPath(iconPath);
           console.log('📊 Native image created, isEmpty:', dockIcon.isEmpty());
           console.log('📏 Native image size:', dockIcon.getSize());
@@ -750,15 +980,43 @@ class LocalClipApp {
     }
   }
 
+  // Registers an IPC handler whose arguments are checked against the channel
+  // registry first, so handlers can trust them
+  private handle<C extends IpcChannel>(
+    channel: C,
+    handler: (...args: IpcArgs<C>) => IpcResult<C> | Promise<IpcResult<C>>
+  ) {
+    ipcMain.handle(channel, async (_, ...args: unknown[]) => {
+      let parsedArgs: IpcArgs<C>;
+      try {
+        parsedArgs = parseIpcArgs(channel, args);
+      } catch (error) {
+        console.error('🚫 Rejected IPC call:', (error as Error).message);
+        throw error;
+      }
+
+      try {
+        return await handler(...parsedArgs);
+      } catch (error) {
+        if (error instanceof IpcError) throw error;
+        throw new IpcError(
+          'HANDLER_FAILED',
+          channel,
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+    });
+  }
+
   private setupIPC() {
     // Window management
-    ipcMain.handle('window:show', () => this.showWindowWithProperFocus());
-    ipcMain.handle('window:hide', () => this.hideWindow());
-    ipcMain.handle('window:toggle', () => this.toggleWindow());
-    ipcMain.handle('window:closeAbout', () => this.closeAboutWindow());
+    this.handle('window:show', () => this.showWindowWithProperFocus());
+    this.handle('window:hide', () => this.hideWindow());
+    this.handle('window:toggle', () => this.toggleWindow());
+    this.handle('window:closeAbout', () => this.closeAboutWindow());
 
     // Clipboard operations
-    ipcMain.handle('clipboard:getHistory', async (_, options = {}) => {
+    this.handle('clipboard:getHistory', async (options = {}) => {
       try {
         // Get the user's maxHistoryItems setting and use it as the limit
         const maxHistoryItems =
@@ -778,14 +1036,28 @@ class LocalClipApp {
       }
     });
 
-    ipcMain.handle('clipboard:add', async (_, entry) => {
+    this.handle('clipboard:query', (options = {}) => {
+      try {
+        return this.storageManager.queryHistory(options);
+      } catch (error) {
+        console.error('Error querying clipboard history:', error);
+        return {
+          entries: [],
+          nextCursor: null,
+          counts: { total: 0, categories: {}, favorites: 0, tags: [] },
+        };
+      }
+    });
+
+    this.handle('clipboard:add', async entry => {
       try {
         // Get max history items setting for FIFO enforcement
         const maxHistoryItems =
           (await this.settingsManager.get('maxHistoryItems')) || 40;
         return await this.storageManager.addClipboardEntry(
           entry,
-          maxHistoryItems
+          maxHistoryItems,
+          { keepFavorites: this.settingsManager.get('keepFavorites') }
         );
       } catch (error) {
         console.error('Error adding clipboard entry:', error);
@@ -793,7 +1065,7 @@ class LocalClipApp {
       }
     });
 
-    ipcMain.handle('clipboard:delete', async (_, id) => {
+    this.handle('clipboard:delete', async id => {
       try {
         return await this.storageManager.deleteClipboardEntry(id);
       } catch (error) {
@@ -802,7 +1074,7 @@ class LocalClipApp {
       }
     });
 
-    ipcMain.handle('clipboard:pin', async (_, id) => {
+    this.handle('clipboard:pin', async id => {
       try {
         return await this.storageManager.pinClipboardEntry(id);
       } catch (error) {
@@ -811,7 +1083,16 @@ class LocalClipApp {
       }
     });
 
-    ipcMain.handle('clipboard:updateNote', async (_, id, note) => {
+    this.handle('clipboard:favorite', async id => {
+      try {
+        return await this.storageManager.favoriteClipboardEntry(id);
+      } catch (error) {
+        console.error('Error favoriting clipboard entry:', error);
+        return null;
+      }
+    });
+
+    this.handle('clipboard:updateNote', async (id, note) => {
       try {
         return await this.storageManager.updateClipboardEntry(id, { note });
       } catch (error) {
@@ -820,7 +1101,68 @@ class LocalClipApp {
       }
     });
 
-    ipcMain.handle('clipboard:clear', async () => {
+    // Rethrown so the editor can tell a failed save from a deleted entry
+    this.handle('clipboard:edit', async (id, content) => {
+      try {
+        return await this.storageManager.editClipboardEntry(id, content);
+      } catch (error) {
+        console.error('Error editing clipboard entry:', error);
+        throw error;
+      }
+    });
+
+    this.handle('clipboard:getRevisions', id => {
+      try {
+        return this.storageManager.getRevisions(id);
+      } catch (error) {
+        console.error('Error getting clipboard entry revisions:', error);
+        return [];
+      }
+    });
+
+    this.handle('clipboard:restoreRevision', async (id, revisionId) => {
+      try {
+        return await this.storageManager.restoreRevision(id, revisionId);
+      } catch (error) {
+        console.error('Error restoring clipboard entry revision:', error);
+        return null;
+      }
+    });
+
+    this.handle('clipboard:setTags', async (id, tags) => {
+      try {
+        return await this.storageManager.setTags(id, tags);
+      } catch (error) {
+        console.error('Error setting clipboard entry tags:', error);
+        return null;
+      }
+    });
+
+    this.handle('clipboard:listTags', () => {
+      try {
+        return this.storageManager.listTags();
+      } catch (error) {
+        console.error('Error listing tags:', error);
+        return [];
+      }
+    });
+
+    this.handle('clipboard:setExpiry', async (id, expiresAt) => {
+      try {
+        // An undefined expiry clears the column, so the entry is kept
+        const updatedEntry = await this.storageManager.updateClipboardEntry(
+          id,
+          { expiresAt: expiresAt ? new Date(expiresAt) : undefined }
+        );
+        this.expiryManager.schedule();
+        return updatedEntry;
+      } catch (error) {
+        console.error('Error setting clipboard entry expiry:', error);
+        return null;
+      }
+    });
+
+    this.handle('clipboard:clear', async () => {
       try {
         return await this.storageManager.clearClipboardHistory();
       } catch (error) {
@@ -829,29 +1171,180 @@ class LocalClipApp {
       }
     });
 
-    ipcMain.handle('clipboard:paste', async (_, entry) => {
+    this.handle('clipboard:paste', async entry => {
       // Use smart paste to target app with rich text support
       await this.pasteToTargetApp(entry);
       return true;
     });
 
-    ipcMain.handle('clipboard:smartPaste', async (_, entry) => {
+    this.handle('clipboard:smartPaste', async entry => {
       // Smart paste with target app detection and rich text support
       await this.pasteToTargetApp(entry);
       return true;
     });
 
+    // Pastes an entry as text run through the given transforms, in order
+    this.handle('clipboard:pasteAs', async (entry, transforms) => {
+      if (!canTransform(entry)) return false;
+
+      await this.pasteToTargetApp(entry, { transforms });
+      return true;
+    });
+
+    this.handle('clipboard:getRecentApps', () => {
+      return this.clipboardMonitor.getRecentSourceApps();
+    });
+
+    // Paste queue
+    this.handle('pasteQueue:getState', () => this.pasteQueue.getState());
+
+    this.handle('pasteQueue:startCollecting', () => {
+      this.pasteQueue.startCollecting();
+      return this.pasteQueue.getState();
+    });
+
+    this.handle('pasteQueue:stopCollecting', () => {
+      this.pasteQueue.stopCollecting();
+      return this.pasteQueue.getState();
+    });
+
+    this.handle('pasteQueue:add', entry => {
+      this.pasteQueue.add(entry);
+      return this.pasteQueue.getState();
+    });
+
+    this.handle('pasteQueue:remove', index => {
+      this.pasteQueue.remove(index);
+      return this.pasteQueue.getState();
+    });
+
+    this.handle('pasteQueue:clear', () => {
+      this.pasteQueue.clear();
+      return this.pasteQueue.getState();
+    });
+
+    this.handle('pasteQueue:pasteNext', async () => {
+      return this.pasteNextQueued(false);
+    });
+
+    // Snippets
+    this.handle('snippets:list', () => {
+      try {
+        return this.snippetManager.listSnippets();
+      } catch (error) {
+        console.error('Error listing snippets:', error);
+        return [];
+      }
+    });
+
+    this.handle('snippets:create', input => {
+      try {
+        return this.snippetManager.createSnippet(input);
+      } catch (error) {
+        console.error('Error creating snippet:', error);
+        throw error;
+      }
+    });
+
+    this.handle('snippets:update', (id, input) => {
+      try {
+        return this.snippetManager.updateSnippet(id, input);
+      } catch (error) {
+        console.error('Error updating snippet:', error);
+        throw error;
+      }
+    });
+
+    this.handle('snippets:delete', id => {
+      try {
+        return this.snippetManager.deleteSnippet(id);
+      } catch (error) {
+        console.error('Error deleting snippet:', error);
+        return false;
+      }
+    });
+
+    this.handle('snippets:paste', async (id, inputs = {}) => {
+      const snippet = this.snippetManager.getSnippet(id);
+      if (!snippet) return false;
+
+      await this.pasteToTargetApp(snippet, { inputs });
+      return true;
+    });
+
+    // Storage health
+    this.handle('storage:getRecoveryInfo', () => {
+      return this.storageManager.getRecoveryInfo();
+    });
+
+    this.handle('storage:dismissRecovery', () => {
+      this.storageManager.clearRecoveryInfo();
+      return true;
+    });
+
+    // At-rest encryption
+    this.handle('encryption:getStatus', () => {
+      return this.encryptionManager.getStatus();
+    });
+
+    this.handle('encryption:enable', async (keySource, passphrase) => {
+      this.encryptionManager.enable(keySource, passphrase);
+      await this.settingsManager.set('encryptData', true);
+      return this.encryptionManager.getStatus();
+    });
+
+    this.handle('encryption:disable', async () => {
+      this.encryptionManager.disable();
+      await this.settingsManager.set('encryptData', false);
+      return this.encryptionManager.getStatus();
+    });
+
+    this.handle('encryption:unlock', passphrase => {
+      const unlocked = this.encryptionManager.unlock(passphrase);
+      if (unlocked) {
+        // The startup cleanup and expiry purge are skipped while locked
+        this.cleanupManager.runIfEnabled();
+        this.expiryManager.purge();
+        this.expiryManager.schedule();
+      }
+      return unlocked;
+    });
+
+    // History retention
+    this.handle('cleanup:run', () => {
+      return this.cleanupManager.runCleanup();
+    });
+
+    this.handle('cleanup:getLastReport', () => {
+      return this.cleanupManager.getLastReport();
+    });
+
     // Settings operations
-    ipcMain.handle('settings:get', async (_, key) => {
+    this.handle('settings:get', async key => {
       return this.settingsManager.get(key);
     });
 
-    ipcMain.handle('settings:set', async (_, key, value) => {
+    // The value has been checked against the schema of its key, and each
+    // check of the key below narrows the value to that key's type
+    this.handle('settings:set', async (key, value) => {
       console.log(`Setting ${key} to:`, value);
+
+      // Incognito is session state owned by the incognito manager
+      if (key === 'incognitoMode') {
+        if (value) {
+          this.incognitoManager.enable(null);
+        } else {
+          this.incognitoManager.disable();
+        }
+        return true;
+      }
+
       await this.settingsManager.set(key, value);
 
       // Apply settings changes immediately
-      if (key === 'autoStart') {
+      if (key === 'pasteQueueOrder') {
+        this.pasteQueue.notify();
+      } else if (key === 'autoStart') {
         await this.updateAutoStart(value);
       } else if (key === 'monitorClipboard') {
         await this.updateClipboardMonitoring(value);
@@ -861,21 +1354,29 @@ class LocalClipApp {
       } else if (key === 'maxHistoryItems') {
         // Immediately enforce the new limit when maxHistoryItems changes
         console.log('Enforcing new maxHistoryItems limit:', value);
-        await this.storageManager.enforceHistoryLimit(value);
+        await this.storageManager.enforceHistoryLimit(
+          value,
+          this.settingsManager.get('keepFavorites')
+        );
+      } else if (key === 'keepFavorites') {
+        // Favorites beyond the limit are trimmed once they stop being kept
+        await this.storageManager.enforceHistoryLimit(
+          (await this.settingsManager.get('maxHistoryItems')) || 40,
+          value
+        );
+      } else if (key === 'autoCleanup' || key === 'cleanupDays') {
+        this.cleanupManager.runIfEnabled();
       }
 
       return true;
     });
 
-    ipcMain.handle('settings:getAll', async () => {
+    this.handle('settings:getAll', async () => {
       return this.settingsManager.getAll();
     });
 
-    // App info
-    ipcMain.handle('app:getVersion', () => app.getVersion());
-
     // Hotkey management
-    ipcMain.handle('hotkey:register', async (_, hotkey: string) => {
+    this.handle('hotkey:register', async hotkey => {
       const success = this.registerGlobalHotkey(hotkey);
       if (success) {
         // Save the hotkey to settings only if registration was successful
@@ -884,23 +1385,93 @@ class LocalClipApp {
       return success;
     });
 
-    ipcMain.handle('hotkey:getCurrent', () => {
+    this.handle('hotkey:getCurrent', () => {
       return this.currentHotkey;
     });
 
+    this.handle('hotkey:registerPasteQueue', async hotkey => {
+      const success = this.registerPasteQueueHotkey(hotkey);
+      if (success) {
+        await this.settingsManager.set('pasteQueueHotkey', hotkey);
+      }
+      return success;
+    });
+
     // Utils handlers
-    ipcMain.handle('utils:getVersion', () => {
+    this.handle('utils:getVersion', () => {
       return app.getVersion();
     });
   }
 
   // Method to emit clipboard changes to renderer
   private emitClipboardChange(entry: ClipboardEntry) {
+    if (entry.expiresAt) {
+      this.expiryManager.schedule();
+    }
+
+    // Copies made while collecting go straight into the paste queue
+    if (this.pasteQueue.isActive()) {
+      this.pasteQueue.add(entry);
+    }
+
     if (this.mainWindow) {
       this.mainWindow.webContents.send('clipboard:changed', entry);
     }
   }
 
+  private emitPasteQueueChange(state: PasteQueueState) {
+    this.updateTray();
+    if (this.mainWindow) {
+      this.mainWindow.webContents.send('pasteQueue:changed', state);
+    }
+  }
+
+  // Pastes the next queued entry and advances the queue. From the hotkey or
+  // tray the focused app is the target; from our own window it is the app
+  // stored when the window was opened.
+  private async pasteNextQueued(captureTarget = true): Promise<boolean> {
+    const entry = this.pasteQueue.takeNext();
+    if (!entry) return false;
+
+    if (captureTarget) {
+      await this.storeFocusedApp();
+    }
+    await this.pasteToTargetApp(entry);
+    return true;
+  }
+
+  private async recordUsage(entry: ClipboardEntry) {
+    if (!entry.id) return;
+
+    try {
+      const updatedEntry = await this.storageManager.recordUsage(entry.id);
+      if (updatedEntry && this.mainWindow) {
+        this.mainWindow.webContents.send('clipboard:updated', updatedEntry);
+      }
+    } catch (error) {
+      console.error('Error recording clipboard entry usage:', error);
+    }
+  }
+
+  private handleEntriesExpired(entries: ClipboardEntry[]) {
+    if (this.settingsManager.get('clearClipboardOnExpiry')) {
+      this.clipboardMonitor.clearIfHolding(entries);
+    }
+    this.emitEntriesExpired(entries.map(entry => entry.id));
+  }
+
+  private emitEntriesExpired(ids: number[]) {
+    if (this.mainWindow) {
+      this.mainWindow.webContents.send('clipboard:expired', ids);
+    }
+  }
+
+  private emitHistoryCleaned(report: CleanupReport) {
+    if (this.mainWindow && report.deletedEntries > 0) {
+      this.mainWindow.webContents.send('clipboard:cleaned', report);
+    }
+  }
+
   private showWindow() {
     if (this.mainWindow) {
       if (this.mainWindow.isMinimized()) {
@@ -918,7 +1489,6 @@ class LocalClipApp {
   private showWindowWithProperFocus() {
     try {
       // Get cursor position and active screen info
-      const { screen } = require('electron');
       const cursor = screen.getCursorScreenPoint();
       const activeDisplay = screen.getDisplayNearestPoint(cursor);
 
@@ -1000,7 +1570,6 @@ class LocalClipApp {
       this.mainWindow.setAlwaysOnTop(true, 'floating');
 
       // Force window to current Space/Desktop
-      const { app } = require('electron');
       app.focus({ steal: true });
 
       setTimeout(() => {
@@ -1245,239 +1814,69 @@ class LocalClipApp {
     }
   }
 
-  private storeFocusedApp() {
-    try {
-      // On macOS, we can get the frontmost application
-      if (process.platform === 'darwin') {
-        const { execSync } = require('child_process');
-
-        // Use synchronous execution to get immediate result
-        const result = execSync(
-          'osascript -e "tell application \\"System Events\\" to get bundle identifier of first application process whose frontmost is true"',
-          { encoding: 'utf8', timeout: 1000 }
-        );
-
-        if (result && result.trim()) {
-          const bundleId = result.trim();
-
-          // Don't store LocalClip itself as target app
-          if (
-            bundleId !== 'com.github.Electron' &&
-            bundleId !== app.getName()
-          ) {
-            this.targetAppInfo = { bundleId };
-            console.log('Stored target app:', bundleId);
-          } else {
-            console.log('Target app is LocalClip itself, using fallback paste');
-            console.log('Content copied to clipboard (target was LocalClip)');
-          }
-        }
-      } else if (process.platform === 'win32') {
-        // Windows implementation - simplified approach
-        const { execSync } = require('child_process');
-
-        try {
-          // Get the foreground window process using a simpler PowerShell command
-          const result = execSync(
-            'powershell -Command "Get-Process | Where-Object {$_.MainWindowTitle -ne \\"\\"} | Sort-Object CPU -Descending | Select-Object -First 1 | Select-Object -ExpandProperty ProcessName"',
-            { encoding: 'utf8', timeout: 1500 }
-          );
-
-          if (result && result.trim()) {
-            const processName = result.trim();
-
-            // Don't store LocalClip itself as target app
-            if (
-              processName.toLowerCase() !== 'localclip' &&
-              processName.toLowerCase() !== 'electron' &&
-              !processName.toLowerCase().includes('localclip')
-            ) {
-              this.targetAppInfo = { processId: 0, bundleId: processName };
-              console.log('Stored target app (Windows):', processName);
-            } else {
-              console.log(
-                'Target app is LocalClip itself, using fallback paste'
-              );
-              console.log('Content copied to clipboard (target was LocalClip)');
-              this.targetAppInfo = { processId: 0, bundleId: 'fallback' };
-            }
-          } else {
-            // Fallback when no specific app detected
-            this.targetAppInfo = { processId: 0, bundleId: 'fallback' };
-          }
-        } catch (error) {
-          console.log('Windows target app detection failed, using fallback');
-          // Fallback: just store a generic target
-          this.targetAppInfo = { processId: 0, bundleId: 'fallback' };
-        }
-      } else if (process.platform === 'linux') {
-        // Linux implementation - handle different desktop environments
-        const { execSync } = require('child_process');
-
-        try {
-          let processName = '';
-
-          // Try different methods based on available tools
-          // Method 1: Try xdotool (works on X11)
-          try {
-            const windowId = execSync('xdotool getactivewindow', {
-              encoding: 'utf8',
-              timeout: 1000,
-              stdio: ['pipe', 'pipe', 'ignore'], // Suppress stderr
-            }).trim();
-
-            if (windowId) {
-              const pid = execSync(`xdotool getwindowpid ${windowId}`, {
-                encoding: 'utf8',
-                timeout: 1000,
-                stdio: ['pipe', 'pipe', 'ignore'],
-              }).trim();
-
-              if (pid) {
-                processName = execSync(`ps -p ${pid} -o comm=`, {
-                  encoding: 'utf8',
-                  timeout: 1000,
-                }).trim();
-              }
-            }
-          } catch (xdotoolError) {
-            // xdotool failed, try other methods
-          }
-
-          // Method 2: Try wmctrl (works on most X11 window managers)
-          if (!processName) {
-            try {
-              const activeWindow = execSync(
-                'wmctrl -l | grep "$(xprop -root _NET_ACTIVE_WINDOW | cut -d\' \' -f5)"',
-                {
-                  encoding: 'utf8',
-                  timeout: 1000,
-                  stdio: ['pipe', 'pipe', 'ignore'],
-                }
-              ).trim();
-
-              if (activeWindow) {
-                // Extract process name from window title or class
-                const windowClass = execSync(
-                  "xprop -id $(xprop -root _NET_ACTIVE_WINDOW | cut -d' ' -f5) WM_CLASS",
-                  {
-                    encoding: 'utf8',
-                    timeout: 1000,
-                    stdio: ['pipe', 'pipe', 'ignore'],
-                  }
-                ).trim();
-
-                if (windowClass) {
-                  const match = windowClass.match(/"([^"]+)"/);
-                  if (match) {
-                    processName = match[1];
-                  }
-                }
-              }
-            } catch (wmctrlError) {
-              // wmctrl failed, try other methods
-            }
-          }
-
-          // Method 3: Try gdbus for GNOME/Wayland
-          if (!processName) {
-            try {
-              const gnomeWindows = execSync(
-                'gdbus call --session --dest org.gnome.Shell --object-path /org/gnome/Shell --method org.gnome.Shell.Eval "global.get_window_actors().map(a => a.meta_window.get_wm_class()).join(\',\')"',
-                {
-                  encoding: 'utf8',
-                  timeout: 1500,
-                  stdio: ['pipe', 'pipe', 'ignore'],
-                }
-              ).trim();
-
-              if (gnomeWindows && gnomeWindows.includes('true')) {
-                // Parse the result to get the active window class
-                const match = gnomeWindows.match(/"([^"]+)"/);
-                if (match) {
-                  const windowClasses = match[1].split(',');
-                  if (windowClasses.length > 0) {
-                    processName = windowClasses[0]; // Get the first (likely active) window
-                  }
-                }
-              }
-            } catch (gnomeError) {
-              // GNOME method failed
-            }
-          }
-
-          // Method 4: Fallback - try ps with some heuristics
-          if (!processName) {
-            try {
-              const processes = execSync(
-                'ps aux --sort=-%cpu | head -10 | grep -v "LocalClip\\|electron" | awk \'{print $11}\' | head -1',
-                {
-                  encoding: 'utf8',
-                  timeout: 1000,
-                }
-              ).trim();
-
-              if (processes) {
-                processName = processes.split('/').pop() || processes;
-              }
-            } catch (psError) {
-              // ps method failed
-            }
-          }
-
-          if (processName && processName.trim()) {
-            const cleanProcessName = processName.trim();
-
-            // Don't store LocalClip itself as target app
-            if (
-              cleanProcessName.toLowerCase() !== 'localclip' &&
-              cleanProcessName.toLowerCase() !== 'electron' &&
-              !cleanProcessName.toLowerCase().includes('localclip')
-            ) {
-              this.targetAppInfo = { processId: 0, bundleId: cleanProcessName };
-              console.log('Stored target app (Linux):', cleanProcessName);
-            } else {
-              console.log(
-                'Target app is LocalClip itself, using fallback paste'
-              );
-              console.log('Content copied to clipboard (target was LocalClip)');
-              this.targetAppInfo = { processId: 0, bundleId: 'fallback' };
-            }
-          } else {
-            // Fallback when no specific app detected
-            this.targetAppInfo = { processId: 0, bundleId: 'fallback' };
-            console.log('Linux target app detection failed, using fallback');
-          }
-        } catch (error: any) {
-          console.log(
-            'Linux target app detection failed, using fallback:',
-            error.message
-          );
-          this.targetAppInfo = { processId: 0, bundleId: 'fallback' };
-        }
-      } else {
-        // Linux and other platforms - basic fallback
-        this.targetAppInfo = { processId: 0, bundleId: 'fallback' };
-        console.log(
-          'Stored generic target app for platform:',
-          process.platform
-        );
-      }
-    } catch (error) {
-      console.error('Error storing focused app:', error);
-    }
+  // Remembers the focused app as the paste target. When it can't be detected,
+  // or is LocalClip itself, pasting falls back to a plain keystroke.
+  private async storeFocusedApp(): Promise<void> {
+    const focusedApp = await getFocusedApp();
+    const target =
+      process.platform === 'darwin' ? focusedApp?.bundleId : focusedApp?.name;
+
+    const isSelf =
+      !!target &&
+      (target === 'com.github.Electron' ||
+        target === app.getName() ||
+        target.toLowerCase() === 'electron' ||
+        target.toLowerCase().includes('localclip'));
+
+    this.targetAppInfo = {
+      processId: 0,
+      bundleId: target && !isSelf ? target : 'fallback',
+    };
   }
 
-  private async pasteToTargetApp(entry: ClipboardEntry) {
+  // Pastes a history entry, optionally as text run through paste transforms,
+  // or a snippet with its placeholders filled in from the answers to its
+  // {{input:Label}} prompts
+  private async pasteToTargetApp(
+    entry: ClipboardEntry | Snippet,
+    {
+      inputs = {},
+      transforms = [],
+    }: {
+      inputs?: Record<string, string>;
+      transforms?: PasteTransformId[];
+    } = {}
+  ) {
     try {
       // Temporarily disable clipboard monitoring
       this.clipboardMonitor.stop();
 
       // First, copy content to clipboard
-      const { clipboard, nativeImage } = require('electron');
-
-      // Check if content is a base64 image
-      if (entry.content.startsWith('data:image/')) {
+      // Characters to move the caret back over after pasting
+      let cursorOffset = 0;
+
+      if (!('format' in entry)) {
+        // Expand snippets now, so {{date}} and {{clipboard}} are current
+        const expanded = expandTemplate(entry.content, {
+          clipboard: clipboard.readText(),
+          inputs,
+          now: new Date(),
+        });
+        clipboard.writeText(expanded.text);
+        cursorOffset = expanded.cursorOffset;
+      } else if (transforms.length > 0 && canTransform(entry)) {
+        clipboard.writeText(applyPasteTransforms(entry, transforms));
+      } else if (entry.format === 'file') {
+        // File managers paste the files themselves, other apps their paths
+        writeCopiedFiles(entry.content.split('\n'));
+      } else if (entry.representations) {
+        this.writeRepresentations(entry.representations);
+      } else if (parseImageUrl(entry.content)) {
+        const image = this.imageStore.toNativeImage(entry.content);
+        if (!image) throw new Error('The image is no longer stored');
+        clipboard.writeImage(image);
+      } else if (entry.content.startsWith('data:image/')) {
+        // Check if content is a base64 image
         // Extract base64 data and create native image
         const base64Data = entry.content.split(',')[1];
         const imageBuffer = Buffer.from(base64Data, 'base64');
@@ -1504,6 +1903,13 @@ class LocalClipApp {
         console.log('📝 Text copied to clipboard for pasting');
       }
 
+      // Count the paste so usage-based sort orders can rank the entry
+      if ('format' in entry) {
+        await this.recordUsage(entry);
+      } else {
+        this.snippetManager.recordUsage(entry.id);
+      }
+
       // Hide our window first
       if (this.mainWindow) {
         this.mainWindow.hide();
@@ -1529,7 +1935,6 @@ class LocalClipApp {
         }
 
         // Focus the target app and paste
-        const { exec } = require('child_process');
         const script = `
           tell application id "${targetBundle}"
             activate
@@ -1547,11 +1952,11 @@ class LocalClipApp {
             console.log('Fallback: Content copied to clipboard');
           } else {
             console.log('Successfully pasted to target app:', targetBundle);
+            this.moveCursorBack(cursorOffset);
           }
         });
       } else if (process.platform === 'win32' && this.targetAppInfo) {
         // Windows implementation - improved pasting
-        const { exec } = require('child_process');
 
         // Give a moment for the window to be hidden and focus to return to target app
         setTimeout(() => {
@@ -1573,13 +1978,13 @@ class LocalClipApp {
                   'Successfully pasted on Windows to target app:',
                   this.targetAppInfo?.bundleId
                 );
+                this.moveCursorBack(cursorOffset);
               }
             }
           );
         }, 300); // Longer delay to ensure focus returns to target app
       } else if (process.platform === 'linux' && this.targetAppInfo) {
         // Linux implementation - handle different desktop environments and display servers
-        const { exec } = require('child_process');
 
         // Give a moment for the window to be hidden and focus to return to target app
         setTimeout(() => {
@@ -1599,6 +2004,7 @@ class LocalClipApp {
                     'Successfully pasted on Linux using xdotool to target app:',
                     this.targetAppInfo?.bundleId
                   );
+                  this.moveCursorBack(cursorOffset);
                 }
               });
             } else {
@@ -1623,6 +2029,47 @@ class LocalClipApp {
     }
   }
 
+  // Puts every format of the original copy back on the clipboard. Electron
+  // can only write custom MIME types one at a time, replacing everything
+  // else, so they are only restored for copies that had nothing else.
+  private writeRepresentations(representations: ClipboardRepresentations) {
+    const { text, html, rtf, image, bookmark, custom = {} } = representations;
+
+    const data: Electron.Data = { text, html, rtf };
+    if (image) data.image = this.imageStore.toNativeImage(image) ?? undefined;
+    // The bookmark's URL is taken from the text
+    if (bookmark && text === bookmark.url) data.bookmark = bookmark.title;
+
+    if (text || html || rtf || data.image) {
+      clipboard.write(data);
+    } else {
+      const [format] = Object.keys(custom);
+      if (format)
+        clipboard.writeBuffer(format, Buffer.from(custom[format], 'base64'));
+    }
+  }
+
+  // Presses the left arrow key to put the caret where a snippet's {{cursor}}
+  // was. Only the paste methods that worked above can send the keys.
+  private moveCursorBack(count: number): void {
+    if (count <= 0) return;
+
+    let command: string;
+    if (process.platform === 'darwin') {
+      command = `osascript -e 'tell application "System Events" to repeat ${count} times' -e 'key code 123' -e 'end repeat'`;
+    } else if (process.platform === 'win32') {
+      command = `powershell -ExecutionPolicy Bypass -Command "Add-Type -AssemblyName System.Windows.Forms; [System.Windows.Forms.SendKeys]::SendWait('{LEFT ${count}}')"`;
+    } else {
+      command = `xdotool key --repeat ${count} --delay 5 Left`;
+    }
+
+    exec(command, (error: Error | null) => {
+      if (error) {
+        console.error('Error moving the cursor after pasting snippet:', error);
+      }
+    });
+  }
+
   private showSettings() {
     if (!this.mainWindow) {
       this.createWindow();
@@ -1677,8 +2124,6 @@ class LocalClipApp {
 
   // Linux paste alternatives for different desktop environments
   private tryLinuxPasteAlternatives(): void {
-    const { exec } = require('child_process');
-
     // Method 2: Try ydotool (works on Wayland)
     exec('which ydotool', (ydotoolWhichError: Error | null) => {
       if (!ydotoolWhichError) {
@@ -1702,8 +2147,6 @@ class LocalClipApp {
 
   // GNOME/Wayland specific paste method
   private tryGnomePaste(): void {
-    const { exec } = require('child_process');
-
     // Method 3: Try gdbus for GNOME Shell
     exec(
       'gdbus call --session --dest org.gnome.Shell --object-path /org/gnome/Shell --method org.gnome.Shell.Eval "imports.ui.main.panel.statusArea.keyboard._keyboardController._keyboardManager.keyval_name = 65535"',
@@ -1734,8 +2177,6 @@ class LocalClipApp {
 
   // KDE specific paste method
   private tryKdePaste(): void {
-    const { exec } = require('child_process');
-
     // Method 4: Try KDE's kwriteconfig/qdbus
     exec('which qdbus', (qdbusWhichError: Error | null) => {
       if (!qdbusWhichError) {
@@ -1762,8 +2203,6 @@ class LocalClipApp {
 
   // Final fallback for Linux pasting
   private tryFinalLinuxPasteFallback(): void {
-    const { exec } = require('child_process');
-
     // Method 5: Try generic X11 key simulation
     exec('which xte', (xteWhichError: Error | null) => {
       if (!xteWhichError) {
@@ -1792,8 +2231,6 @@ class LocalClipApp {
 
   // Enhanced Windows paste with multiple fallback methods
   private tryWindowsPasteAlternatives(): void {
-    const { exec } = require('child_process');
-
     // Method 2: Try VBScript approach (more reliable on some systems)
     const vbScript = `
       Set WshShell = CreateObject("WScript.Shell")
@@ -1815,8 +2252,6 @@ class LocalClipApp {
 
   // .NET approach for Windows pasting
   private tryDotNetPaste(): void {
-    const { exec } = require('child_process');
-
     // Method 3: Try PowerShell with different execution policy
     const script = `
       Add-Type -AssemblyName System.Windows.Forms
@@ -1930,4 +2365,12 @@ class LocalClipApp {
 }
 
 // Create app instance
+// Must be declared before the app is ready
+protocol.registerSchemesAsPrivileged([
+  {
+    scheme: IMAGE_PROTOCOL,
+    privileges: { standard: true, secure: true, supportFetchAPI: true },
+  },
+]);
+
 new LocalClipApp();
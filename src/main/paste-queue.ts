@@ -0,0 +1,108 @@
+import { ClipboardEntry, PasteQueueState } from '../shared/types';
+import { SettingsManager } from './settings';
+
+// Entries queued up to be pasted one at a time with the paste queue hotkey,
+// as when filling in a form field by field. The queue lives only in memory.
+export class PasteQueueManager {
+  private settingsManager: Pick<SettingsManager, 'get'>;
+  // In the order they were collected
+  private entries: ClipboardEntry[] = [];
+  private isCollecting = false;
+  private pastedCount = 0;
+  private onChange?: (state: PasteQueueState) => void;
+
+  constructor(
+    settingsManager: Pick<SettingsManager, 'get'>,
+    onChange?: (state: PasteQueueState) => void
+  ) {
+    this.settingsManager = settingsManager;
+    this.onChange = onChange;
+  }
+
+  // Starts a new queue and collects into it until stopped
+  startCollecting(): void {
+    this.entries = [];
+    this.pastedCount = 0;
+    this.isCollecting = true;
+    this.notify();
+  }
+
+  // Stops adding to the queue, which can still be pasted
+  stopCollecting(): void {
+    if (!this.isCollecting) return;
+
+    this.isCollecting = false;
+    this.notify();
+  }
+
+  isActive(): boolean {
+    return this.isCollecting;
+  }
+
+  // The same entry may be queued more than once, as forms can repeat values
+  add(entry: ClipboardEntry): void {
+    this.entries.push(entry);
+    this.notify();
+  }
+
+  // Removes the entry at the given position of getState().entries
+  remove(index: number): void {
+    const position = this.toPosition(index);
+    if (position === -1) return;
+
+    this.entries.splice(position, 1);
+    this.notify();
+  }
+
+  // Removes and returns the next entry to paste
+  takeNext(): ClipboardEntry | null {
+    const position = this.toPosition(0);
+    if (position === -1) return null;
+
+    const [entry] = this.entries.splice(position, 1);
+    this.pastedCount++;
+    this.notify();
+    return entry;
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.pastedCount = 0;
+    this.notify();
+  }
+
+  getState(): PasteQueueState {
+    const order = this.getOrder();
+    return {
+      isCollecting: this.isCollecting,
+      order,
+      entries: order === 'lifo' ? [...this.entries].reverse() : this.entries,
+      pastedCount: this.pastedCount,
+    };
+  }
+
+  // Progress for the tray tooltip, or null when there's no queue
+  describeProgress(): string | null {
+    const total = this.pastedCount + this.entries.length;
+    if (this.isCollecting) {
+      return `Collecting paste queue (${this.entries.length} queued)`;
+    }
+    if (this.entries.length === 0) return null;
+    return `Paste queue ${this.pastedCount}/${total}`;
+  }
+
+  // Tells listeners about a change of order made in settings
+  notify(): void {
+    this.onChange?.(this.getState());
+  }
+
+  private getOrder() {
+    return this.settingsManager.get('pasteQueueOrder') || 'fifo';
+  }
+
+  // Index into the collected entries of a position in paste order
+  private toPosition(index: number): number {
+    if (index < 0 || index >= this.entries.length) return -1;
+    return this.getOrder() === 'lifo' ? this.entries.length - 1 - index : index;
+  }
+}
@@ -0,0 +1,226 @@
+import {
+  getSearchableFields,
+  scoreInitials,
+  scoreWord,
+  SearchableEntry,
+} from '../shared/fuzzy-search';
+import { ParsedSearchQuery } from '../shared/search-query';
+
+// Longer runs of letters and digits are usually encoded data
+const MAX_WORD_LENGTH = 64;
+// Only the start of very long entries is indexed
+const MAX_INDEXED_LENGTH = 100_000;
+// Terms whose matching words are remembered, as each keystroke of a search
+// repeats the terms typed before it
+const MAX_CACHED_TERMS = 32;
+
+interface IndexedDocument {
+  words: string[];
+  // First letter of each word in order, for acronym matches
+  initials: string;
+}
+
+export interface IndexSearchResult {
+  // Relevance of each matching entry, by ID
+  relevance: Map<number, number>;
+  // Whether phrases or exclusions still have to be checked against the text
+  needsVerification: boolean;
+}
+
+// Splits text into lowercase words. The parts of camelCase words are added
+// as words of their own and count separately towards the initials.
+export const tokenize = (text: string): IndexedDocument => {
+  const words = new Set<string>();
+  let initials = '';
+
+  for (const [word] of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const parts = word.split(/(?<=\p{Ll})(?=\p{Lu})/u);
+    words.add(word.slice(0, MAX_WORD_LENGTH).toLowerCase());
+    if (parts.length > 1) {
+      parts.forEach(part =>
+        words.add(part.slice(0, MAX_WORD_LENGTH).toLowerCase())
+      );
+    }
+    initials += parts.map(part => part[0].toLowerCase()).join('');
+  }
+
+  return { words: Array.from(words), initials };
+};
+
+// Keeps the entries in both, adding up their scores
+const intersect = (
+  previous: Map<number, number> | null,
+  scores: Map<number, number>
+): Map<number, number> => {
+  if (!previous) return scores;
+
+  const both = new Map<number, number>();
+  for (const [id, score] of scores) {
+    const previousScore = previous.get(id);
+    if (previousScore !== undefined) both.set(id, previousScore + score);
+  }
+  return both;
+};
+
+// Inverted index from words to the entries containing them, kept in memory so
+// decrypted text never reaches the disk. Entries are added, replaced and
+// removed one at a time as the history changes.
+export class SearchIndex {
+  private postings = new Map<string, Set<number>>();
+  private documents = new Map<number, IndexedDocument>();
+  // Words matching each recent term with their scores. New words may match
+  // any term, so adding one clears it.
+  private termCache = new Map<string, [string, number][]>();
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  // Adds the entry, replacing what was indexed for it before
+  add(entry: SearchableEntry & { id: number }): void {
+    this.remove(entry.id);
+
+    const text = getSearchableFields(entry)
+      .join('\n')
+      .slice(0, MAX_INDEXED_LENGTH);
+    const document = tokenize(text);
+    for (const word of document.words) {
+      const ids = this.postings.get(word);
+      if (ids) {
+        ids.add(entry.id);
+      } else {
+        this.postings.set(word, new Set([entry.id]));
+        this.termCache.clear();
+      }
+    }
+    this.documents.set(entry.id, document);
+  }
+
+  remove(id: number): void {
+    const document = this.documents.get(id);
+    if (!document) return;
+
+    for (const word of document.words) {
+      const ids = this.postings.get(word);
+      ids?.delete(id);
+      if (ids?.size === 0) this.postings.delete(word);
+    }
+    this.documents.delete(id);
+  }
+
+  clear(): void {
+    this.postings.clear();
+    this.documents.clear();
+    this.termCache.clear();
+  }
+
+  // Scores misspellings of the indexed words, so that the code matching a
+  // term against every word is optimised before the first search rather
+  // than during it
+  warmUp(): void {
+    let term = '';
+    for (const word of this.postings.keys()) {
+      const middle = word.length >> 1;
+      // A dropped letter takes the subsequence path, a changed one the typo
+      // path
+      scoreWord(word.slice(0, middle) + word.slice(middle + 1), word);
+      term = `${word.slice(0, -1)}_`;
+      scoreWord(term, word);
+    }
+    this.matchWord(term);
+    this.termCache.delete(term);
+  }
+
+  // Entries matching the text of the query, or null when it has clauses the
+  // index can't answer, such as regular expressions or punctuation
+  search(query: ParsedSearchQuery): IndexSearchResult | null {
+    let candidates: Map<number, number> | null = null;
+    let termCount = 0;
+    let needsVerification = false;
+
+    const excluded = new Set<number>();
+    for (const clause of query.text) {
+      if (clause.kind === 'regex') return null;
+      const { words } = tokenize(clause.value);
+      if (words.length === 0) return null;
+
+      // A single excluded word can be ruled out here, anything longer
+      // has to be checked against the text
+      if (clause.negated) {
+        if (clause.kind === 'term' && words.length === 1) {
+          this.findContaining(words[0]).forEach(id => excluded.add(id));
+        } else {
+          needsVerification = true;
+        }
+        continue;
+      }
+
+      if (clause.kind === 'term' && words.length === 1) {
+        candidates = intersect(candidates, this.matchWord(words[0]));
+        termCount++;
+        continue;
+      }
+
+      // Phrases, and words with punctuation such as URLs, narrow the
+      // candidates to entries with all their words
+      for (const word of words) {
+        const scores = new Map<number, number>();
+        this.findContaining(word).forEach(id => scores.set(id, 0));
+        candidates = intersect(candidates, scores);
+      }
+      needsVerification = true;
+    }
+
+    const relevance = new Map<number, number>();
+    const matches =
+      candidates ?? new Map(Array.from(this.documents.keys(), id => [id, 0]));
+    for (const [id, total] of matches) {
+      if (excluded.has(id)) continue;
+      relevance.set(id, termCount > 0 ? total / termCount : 1);
+    }
+    return { relevance, needsVerification };
+  }
+
+  // Best score of each entry with a word matching the term
+  private matchWord(term: string): Map<number, number> {
+    const scores = new Map<number, number>();
+    const addScore = (id: number, score: number) => {
+      if (score > (scores.get(id) ?? 0)) scores.set(id, score);
+    };
+
+    for (const [word, score] of this.findWords(term)) {
+      this.postings.get(word)?.forEach(id => addScore(id, score));
+    }
+    for (const [id, document] of this.documents) {
+      addScore(id, scoreInitials(term, document.initials));
+    }
+    return scores;
+  }
+
+  private findWords(term: string): [string, number][] {
+    const cached = this.termCache.get(term);
+    if (cached) return cached;
+
+    const words: [string, number][] = [];
+    for (const word of this.postings.keys()) {
+      const score = scoreWord(term, word);
+      if (score > 0) words.push([word, score]);
+    }
+
+    // Forget the oldest term once the cache is full
+    if (this.termCache.size >= MAX_CACHED_TERMS) {
+      this.termCache.delete(this.termCache.keys().next().value!);
+    }
+    this.termCache.set(term, words);
+    return words;
+  }
+
+  // Entries with a word that contains the text
+  private findContaining(text: string): Set<number> {
+    const found = new Set<number>();
+    for (const [word, ids] of this.postings) {
+      if (word.includes(text)) ids.forEach(id => found.add(id));
+    }
+    return found;
+  }
+}
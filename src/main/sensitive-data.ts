@@ -0,0 +1,270 @@
+import { SensitiveDataAction, SensitiveDataRuleId } from '../shared/types';
+
+export interface SensitiveDataRule {
+  id: SensitiveDataRuleId;
+  pattern: RegExp;
+  // Extra check for candidates the pattern alone can't confirm, given the
+  // match and where it starts in the content
+  validate?: (match: string, content: string, index: number) => boolean;
+}
+
+export interface SensitiveDataMatch {
+  ruleId: SensitiveDataRuleId;
+  // Character ranges of the secrets within the content
+  ranges: { start: number; end: number }[];
+}
+
+const MIN_TOKEN_ENTROPY = 4;
+
+// Shannon entropy in bits per character
+export const calculateEntropy = (value: string): number => {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) || 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const probability = count / value.length;
+    entropy -= probability * Math.log2(probability);
+  }
+  return entropy;
+};
+
+// Luhn checksum used by payment card numbers
+export const passesLuhnCheck = (value: string): boolean => {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+// Issuer prefixes and number lengths of the major card networks
+const CARD_ISSUERS: { prefix: RegExp; lengths: number[] }[] = [
+  // Visa
+  { prefix: /^4/, lengths: [13, 16, 19] },
+  // Mastercard
+  {
+    prefix: /^(?:5[1-5]|222[1-9]|22[3-9]\d|2[3-6]\d\d|27[01]\d|2720)/,
+    lengths: [16],
+  },
+  // American Express
+  { prefix: /^3[47]/, lengths: [15] },
+  // Diners Club
+  { prefix: /^3(?:0[0-5]|[689])/, lengths: [14, 15, 16, 17, 18, 19] },
+  // Discover
+  { prefix: /^(?:6011|64[4-9]|65)/, lengths: [16, 17, 18, 19] },
+  // JCB
+  { prefix: /^35(?:2[89]|[3-8]\d)/, lengths: [16, 17, 18, 19] },
+  // UnionPay
+  { prefix: /^62/, lengths: [16, 17, 18, 19] },
+];
+
+// Digit groups as printed on cards, e.g. 4-4-4-4, or 4-6-5 for Amex
+const CARD_GROUPINGS = ['4,4,4,4', '4,6,5', '4,6,4', '4,4,4,4,3'];
+
+// Card numbers from a known issuer that pass the Luhn check, written either
+// as one run of digits or in the groups printed on the card
+export const isLikelyCardNumber = (value: string): boolean => {
+  const digits = value.replace(/\D/g, '');
+  const hasIssuer = CARD_ISSUERS.some(
+    ({ prefix, lengths }) =>
+      prefix.test(digits) && lengths.includes(digits.length)
+  );
+  if (!hasIssuer || !passesLuhnCheck(digits)) return false;
+
+  const separators = new Set(value.match(/[ -]/g));
+  if (separators.size === 0) return true;
+  const grouping = value
+    .split(/[ -]/)
+    .map(group => group.length)
+    .join(',');
+  return separators.size === 1 && CARD_GROUPINGS.includes(grouping);
+};
+
+// URLs and file paths are full of long IDs and hashes, so tokens within a
+// word holding a slash are left alone
+const isInUrlOrPath = (content: string, start: number, end: number) => {
+  const wordStart = content.slice(0, start).search(/\S*$/);
+  const wordEnd = end + content.slice(end).search(/\s|$/);
+  return /[/\\]/.test(content.slice(wordStart, wordEnd));
+};
+
+// Long random-looking tokens that mix letters and digits
+const isHighEntropyToken = (
+  token: string,
+  content: string,
+  index: number
+): boolean =>
+  /[a-z]/.test(token) &&
+  /[A-Z]/.test(token) &&
+  /\d/.test(token) &&
+  calculateEntropy(token) >= MIN_TOKEN_ENTROPY &&
+  !isInUrlOrPath(content, index, index + token.length);
+
+export const DEFAULT_SENSITIVE_DATA_RULES: SensitiveDataRule[] = [
+  {
+    id: 'private-key',
+    pattern:
+      /-----BEGIN (?:[A-Z]+ )*PRIVATE KEY-----[\s\S]*?(?:-----END (?:[A-Z]+ )*PRIVATE KEY-----|$)/g,
+  },
+  {
+    id: 'aws-access-key',
+    pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g,
+  },
+  {
+    id: 'aws-secret-key',
+    pattern:
+      /aws_?secret_?(?:access_?)?key["']?\s*[:=]\s*["']?[A-Za-z0-9/+=]{40}["']?/gi,
+  },
+  {
+    id: 'jwt',
+    pattern:
+      /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{10,}/g,
+  },
+  {
+    id: 'github-token',
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{40,})\b/g,
+  },
+  {
+    id: 'slack-token',
+    pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}\b/g,
+  },
+  {
+    id: 'stripe-key',
+    pattern: /\b[sr]k_live_[A-Za-z0-9]{20,}\b/g,
+  },
+  {
+    id: 'credit-card',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: isLikelyCardNumber,
+  },
+  {
+    id: 'high-entropy-token',
+    pattern: /[A-Za-z0-9_\-+]{32,}/g,
+    validate: isHighEntropyToken,
+  },
+];
+
+// Finds secrets in copied text. Every rule is checked, as one copy may hold
+// several kinds of secret; extra rules can be registered with addRule.
+export class SensitiveDataDetector {
+  private rules: SensitiveDataRule[];
+
+  constructor(rules: SensitiveDataRule[] = DEFAULT_SENSITIVE_DATA_RULES) {
+    this.rules = [...rules];
+  }
+
+  addRule(rule: SensitiveDataRule): void {
+    this.rules.push(rule);
+  }
+
+  // One match per rule with a confirmed match, in rule order
+  detect(
+    content: string,
+    enabledRules?: SensitiveDataRuleId[]
+  ): SensitiveDataMatch[] {
+    const matches: SensitiveDataMatch[] = [];
+    for (const rule of this.rules) {
+      if (enabledRules && !enabledRules.includes(rule.id)) continue;
+
+      const ranges: SensitiveDataMatch['ranges'] = [];
+      for (const match of content.matchAll(rule.pattern)) {
+        if (rule.validate && !rule.validate(match[0], content, match.index!)) {
+          continue;
+        }
+        ranges.push({
+          start: match.index!,
+          end: match.index! + match[0].length,
+        });
+      }
+
+      if (ranges.length > 0) matches.push({ ruleId: rule.id, ranges });
+    }
+    return matches;
+  }
+}
+
+export interface SensitiveDataHandling {
+  action: Exclude<SensitiveDataAction, 'ignore'>;
+  // Rule whose action was taken, recorded on the entry
+  ruleId: SensitiveDataRuleId;
+  // Secrets of every rule set to mask, masked whichever action is taken
+  maskRanges: SensitiveDataMatch['ranges'];
+}
+
+// Strictest first
+const ACTION_ORDER: SensitiveDataHandling['action'][] = [
+  'skip',
+  'expire',
+  'mask',
+];
+
+// Works out what to do with a copy from the actions of the rules it matched.
+// The strictest action wins, so a secret that is skipped can't be saved
+// because another secret in the same copy is only masked.
+export const getSensitiveDataHandling = (
+  matches: SensitiveDataMatch[],
+  actions: Record<SensitiveDataRuleId, SensitiveDataAction>
+): SensitiveDataHandling | null => {
+  for (const action of ACTION_ORDER) {
+    const match = matches.find(match => actions[match.ruleId] === action);
+    if (match) {
+      return {
+        action,
+        ruleId: match.ruleId,
+        maskRanges: matches
+          .filter(match => actions[match.ruleId] === 'mask')
+          .flatMap(match => match.ranges),
+      };
+    }
+  }
+  return null;
+};
+
+// Sorts ranges and joins those that overlap or touch
+const mergeRanges = (
+  ranges: SensitiveDataMatch['ranges']
+): SensitiveDataMatch['ranges'] => {
+  const merged: SensitiveDataMatch['ranges'] = [];
+  for (const range of [...ranges].sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+};
+
+// Replaces each secret with bullets, keeping its last 4 characters as a hint.
+// Overlapping ranges are masked as one secret.
+export const maskSensitiveData = (
+  content: string,
+  ranges: SensitiveDataMatch['ranges']
+): string => {
+  let masked = '';
+  let cursor = 0;
+
+  for (const { start, end } of mergeRanges(ranges)) {
+    const secret = content.slice(start, end);
+    const visible = secret.length > 8 ? secret.slice(-4) : '';
+    masked +=
+      content.slice(cursor, start) +
+      '•'.repeat(Math.min(secret.length - visible.length, 16)) +
+      visible;
+    cursor = end;
+  }
+
+  return masked + content.slice(cursor);
+};
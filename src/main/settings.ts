@@ -1,4 +1,6 @@
 import Store from 'electron-store';
+import { SETTINGS_SCHEMA } from '../shared/ipc-contract';
+import { SchemaIssue } from '../shared/ipc-schema';
 import { DEFAULT_SETTINGS, Settings } from '../shared/types';
 
 export class SettingsManager {
@@ -52,6 +54,24 @@ export class SettingsManager {
     }
   }
 
+  // Copies over the settings of an older storage format, skipping unknown
+  // keys and values that are no longer valid
+  importSettings(values: Record<string, unknown>): void {
+    const settings: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(values)) {
+      const issues: SchemaIssue[] = [];
+      if (
+        key in SETTINGS_SCHEMA &&
+        SETTINGS_SCHEMA[key as keyof Settings].check(value, key, issues)
+      ) {
+        settings[key] = value;
+      }
+    }
+    // Every value has been checked against the schema of its key
+    this.store.set(settings as Partial<Settings>);
+    console.log(`Imported settings: ${Object.keys(settings).join(', ')}`);
+  }
+
   reset(): void {
     this.store.clear();
   }
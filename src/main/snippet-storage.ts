@@ -0,0 +1,146 @@
+import Store from 'electron-store';
+import { getSnippetError } from '../shared/snippets';
+import { Snippet, SnippetInput } from '../shared/types';
+
+// Snippets as written to disk, with dates as timestamps
+interface StoredSnippet {
+  id: number;
+  name: string;
+  content: string;
+  folder?: string;
+  abbreviation?: string;
+  createdAt: number;
+  updatedAt: number;
+  usageCount: number;
+  lastUsedAt?: number;
+}
+
+interface SnippetStoreData {
+  snippets: StoredSnippet[];
+  nextId: number;
+}
+
+const fromStored = (stored: StoredSnippet): Snippet => ({
+  ...stored,
+  createdAt: new Date(stored.createdAt),
+  updatedAt: new Date(stored.updatedAt),
+  lastUsedAt: stored.lastUsedAt ? new Date(stored.lastUsedAt) : undefined,
+});
+
+// Trims the editable fields, dropping an empty folder or abbreviation
+const cleanInput = (input: SnippetInput): SnippetInput => ({
+  name: input.name.trim(),
+  content: input.content,
+  folder: input.folder?.trim() || undefined,
+  abbreviation: input.abbreviation?.trim() || undefined,
+});
+
+// Reusable text the user writes, kept in a store of its own rather than with
+// the captured history, so clearing or cleaning up history never touches it
+export class SnippetStorageManager {
+  private store: Store<SnippetStoreData>;
+
+  constructor() {
+    try {
+      this.store = new Store<SnippetStoreData>({
+        defaults: { snippets: [], nextId: 1 },
+        name: 'localclip-snippets',
+      });
+      console.log(
+        `✂️ Loaded ${this.store.get('snippets').length} snippets from ${this.store.path}`
+      );
+    } catch (error) {
+      console.error('Failed to initialize snippet store:', error);
+      throw error;
+    }
+  }
+
+  // Grouped by folder, then by name
+  listSnippets(): Snippet[] {
+    return this.store
+      .get('snippets')
+      .map(fromStored)
+      .sort(
+        (a, b) =>
+          (a.folder || '').localeCompare(b.folder || '') ||
+          a.name.localeCompare(b.name)
+      );
+  }
+
+  getSnippet(id: number): Snippet | null {
+    const stored = this.store
+      .get('snippets')
+      .find(snippet => snippet.id === id);
+    return stored ? fromStored(stored) : null;
+  }
+
+  createSnippet(input: SnippetInput): Snippet {
+    const fields = cleanInput(input);
+    this.validate(fields);
+
+    const now = Date.now();
+    const id = this.store.get('nextId');
+    const stored: StoredSnippet = {
+      ...fields,
+      id,
+      createdAt: now,
+      updatedAt: now,
+      usageCount: 0,
+    };
+    this.store.set({
+      snippets: [...this.store.get('snippets'), stored],
+      nextId: id + 1,
+    });
+
+    return fromStored(stored);
+  }
+
+  updateSnippet(id: number, input: SnippetInput): Snippet | null {
+    const fields = cleanInput(input);
+    this.validate(fields, id);
+
+    const updated = this.updateStored(id, stored => ({
+      ...stored,
+      ...fields,
+      updatedAt: Date.now(),
+    }));
+    return updated;
+  }
+
+  deleteSnippet(id: number): boolean {
+    const snippets = this.store.get('snippets');
+    const remaining = snippets.filter(snippet => snippet.id !== id);
+    if (remaining.length === snippets.length) return false;
+
+    this.store.set('snippets', remaining);
+    return true;
+  }
+
+  // Counts a paste of the snippet
+  recordUsage(id: number): Snippet | null {
+    return this.updateStored(id, stored => ({
+      ...stored,
+      usageCount: stored.usageCount + 1,
+      lastUsedAt: Date.now(),
+    }));
+  }
+
+  private validate(input: SnippetInput, id?: number): void {
+    const error = getSnippetError(input, this.listSnippets(), id);
+    if (error) throw new Error(error);
+  }
+
+  private updateStored(
+    id: number,
+    update: (stored: StoredSnippet) => StoredSnippet
+  ): Snippet | null {
+    const snippets = this.store.get('snippets');
+    const index = snippets.findIndex(stored => stored.id === id);
+    if (index === -1) return null;
+
+    const updated = update(snippets[index]);
+    snippets[index] = updated;
+    this.store.set('snippets', snippets);
+    return fromStored(updated);
+  }
+}
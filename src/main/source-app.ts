@@ -0,0 +1,129 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+const COMMAND_TIMEOUT_MS = 1500;
+
+// A copy and the hotkey that follows it ask for the focused app within a few
+// milliseconds of each other, so one lookup serves both
+const CACHE_MS = 250;
+
+export interface FocusedApp {
+  name: string;
+  // macOS bundle identifier, used to re-activate the app before pasting
+  bundleId?: string;
+}
+
+const run = async (file: string, args: string[]): Promise<string> => {
+  try {
+    const { stdout } = await execFileAsync(file, args, {
+      encoding: 'utf8',
+      timeout: COMMAND_TIMEOUT_MS,
+      windowsHide: true,
+    });
+    return stdout.trim();
+  } catch (error) {
+    return '';
+  }
+};
+
+// Reads the class name from `xprop WM_CLASS` output, e.g.
+// WM_CLASS(STRING) = "keepassxc", "KeePassXC" -> KeePassXC
+const parseWindowClass = (output: string): string | null => {
+  const matches = output.match(/"([^"]*)"/g);
+  if (!matches) return null;
+  return matches[matches.length - 1].replace(/"/g, '') || null;
+};
+
+const getLinuxApp = async (): Promise<FocusedApp | null> => {
+  // Method 1: xdotool gives us the active window directly (X11)
+  let windowId = await run('xdotool', ['getactivewindow']);
+
+  // Method 2: fall back to the EWMH root window property
+  if (!windowId) {
+    const activeWindow = await run('xprop', ['-root', '_NET_ACTIVE_WINDOW']);
+    const match = activeWindow.match(/window id # (0x[0-9a-f]+)/i);
+    windowId = match && match[1] !== '0x0' ? match[1] : '';
+  }
+
+  if (!windowId) return null;
+
+  const windowClass = parseWindowClass(
+    await run('xprop', ['-id', windowId, 'WM_CLASS'])
+  );
+  if (windowClass) return { name: windowClass };
+
+  // Windows without WM_CLASS: use the owning process name instead
+  const pid = await run('xdotool', ['getwindowpid', windowId]);
+  const name = pid ? await run('ps', ['-p', pid, '-o', 'comm=']) : '';
+  return name ? { name } : null;
+};
+
+// Prints "<name>, <bundle id>" for the frontmost application
+const MAC_SCRIPT =
+  'tell application "System Events" to get {name, bundle identifier} of first application process whose frontmost is true';
+
+const getMacApp = async (): Promise<FocusedApp | null> => {
+  const output = await run('osascript', ['-e', MAC_SCRIPT]);
+  const separator = output.lastIndexOf(', ');
+  if (separator === -1) return output ? { name: output } : null;
+  return {
+    name: output.slice(0, separator),
+    bundleId: output.slice(separator + 2),
+  };
+};
+
+// Asks user32 for the process owning the foreground window
+const WINDOWS_SCRIPT = [
+  "Add-Type -Name Window -Namespace LocalClip -MemberDefinition '",
+  '[DllImport("user32.dll")] public static extern IntPtr GetForegroundWindow();',
+  '[DllImport("user32.dll")] public static extern uint GetWindowThreadProcessId(IntPtr hWnd, out uint processId);',
+  "'",
+  '$processId = 0',
+  '[void][LocalClip.Window]::GetWindowThreadProcessId([LocalClip.Window]::GetForegroundWindow(), [ref]$processId)',
+  '(Get-Process -Id $processId).ProcessName',
+].join('\n');
+
+const getWindowsApp = async (): Promise<FocusedApp | null> => {
+  const name = await run('powershell', [
+    '-NoProfile',
+    '-NonInteractive',
+    '-Command',
+    WINDOWS_SCRIPT,
+  ]);
+  return name ? { name } : null;
+};
+
+const lookUpFocusedApp = (): Promise<FocusedApp | null> => {
+  switch (process.platform) {
+    case 'darwin':
+      return getMacApp();
+    case 'win32':
+      return getWindowsApp();
+    case 'linux':
+      return getLinuxApp();
+    default:
+      return Promise.resolve(null);
+  }
+};
+
+let cached: { app: FocusedApp | null; at: number } | null = null;
+let pending: Promise<FocusedApp | null> | null = null;
+
+// Returns the focused application, or null when it can't be detected (e.g.
+// on Wayland, or when the platform tools aren't installed). Concurrent
+// callers share a single lookup.
+export const getFocusedApp = (): Promise<FocusedApp | null> => {
+  if (cached && Date.now() - cached.at < CACHE_MS) {
+    return Promise.resolve(cached.app);
+  }
+  if (!pending) {
+    pending = lookUpFocusedApp().then(app => {
+      cached = { app, at: Date.now() };
+      pending = null;
+      return app;
+    });
+  }
+  return pending;
+};
@@ -0,0 +1,1971 @@
+import Database from 'better-sqlite3';
+import { createHash } from 'crypto';
+import { app } from 'electron';
+import {
+  copyFileSync,
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+} from 'fs';
+import { basename, dirname, join } from 'path';
+import { EDITABLE_FORMATS } from '../shared/constants';
+import { getSearchRank, getSearchRankSql } from '../shared/fuzzy-search';
+import { toImageUrl } from '../shared/image-urls';
+import {
+  hasTextClauses,
+  matchTextClauses,
+  ParsedSearchQuery,
+  parseSearchQuery,
+} from '../shared/search-query';
+import {
+  ClipboardEntry,
+  ClipboardRepresentations,
+  CopiedFile,
+  DuplicateMatchMode,
+  EncryptionKeySource,
+  EntryRevision,
+  GetHistoryOptions,
+  HistoryCounts,
+  HistoryPage,
+  HistorySortBy,
+  SensitiveDataRuleId,
+  StorageRecoveryInfo,
+  TagCount,
+} from '../shared/types';
+import { DataCipher, isEncryptedValue } from './cipher';
+import { SearchIndex } from './search-index';
+
+type NewClipboardEntry = Omit<ClipboardEntry, 'id' | 'createdAt' | 'updatedAt'>;
+
+// An entry of the old JSON storage, where any field may be missing and dates
+// are ISO strings
+type LegacyEntry = Partial<
+  Omit<ClipboardEntry, 'createdAt' | 'updatedAt' | 'lastUsedAt'> & {
+    createdAt: string;
+    updatedAt: string;
+    lastUsedAt: string;
+  }
+>;
+
+interface EntryRow {
+  id: number;
+  content: string;
+  content_type: string;
+  format: ClipboardEntry['format'];
+  preview: string | null;
+  file_path: string | null;
+  app_name: string | null;
+  created_at: number;
+  updated_at: number;
+  is_pinned: number;
+  is_favorite: number;
+  category: string | null;
+  tags: string;
+  usage_count: number;
+  last_used_at: number | null;
+  // Time of the latest copy, which moves repeat copies to the top
+  last_copied_at: number;
+  note: string | null;
+  content_hash: string | null;
+  normalized_hash: string | null;
+  sensitive_type: SensitiveDataRuleId | null;
+  expires_at: number | null;
+  // JSON of ClipboardRepresentations
+  representations: string | null;
+  // JSON of CopiedFile[]
+  files: string | null;
+  // SHA-256 of the copy's image in the image store
+  image_hash: string | null;
+}
+
+interface RevisionRow {
+  id: number;
+  entry_id: number;
+  content: string;
+  created_at: number;
+}
+
+// Columns written when inserting an entry (everything but the ID)
+const INSERT_COLUMNS: (keyof Omit<EntryRow, 'id'>)[] = [
+  'content',
+  'content_type',
+  'format',
+  'preview',
+  'file_path',
+  'app_name',
+  'created_at',
+  'updated_at',
+  'is_pinned',
+  'is_favorite',
+  'category',
+  'tags',
+  'usage_count',
+  'last_used_at',
+  'last_copied_at',
+  'note',
+  'content_hash',
+  'normalized_hash',
+  'sensitive_type',
+  'expires_at',
+  'representations',
+  'files',
+  'image_hash',
+];
+
+const buildInsert = (columns: string[], verb = 'INSERT') =>
+  `${verb} INTO clipboard_entries (${columns.join(', ')})
+   VALUES (${columns.map(column => `@${column}`).join(', ')})`;
+
+// Works out the type, preview and category of edited content, which depend
+// on the detection rules and settings of the clipboard monitor
+export type ContentDescriber = (
+  content: string,
+  format: ClipboardEntry['format']
+) => Promise<Pick<ClipboardEntry, 'contentType' | 'preview' | 'category'>>;
+
+// Deletes the files of stored images that no entry uses any more
+export type ImageReleaseHandler = (hashes: string[]) => void;
+
+// Saves the settings found in the old JSON storage when it is imported
+export type LegacySettingsHandler = (settings: Record<string, unknown>) => void;
+
+export interface StorageOptions {
+  importLegacySettings?: LegacySettingsHandler;
+}
+
+export interface AddEntryOptions {
+  // When set, a repeat copy bumps the matching entry instead of adding one
+  deduplicate?: DuplicateMatchMode | null;
+  // Favorites don't count towards, and aren't removed by, the history limit
+  keepFavorites?: boolean;
+}
+
+// Schema migrations, applied in order and tracked through PRAGMA user_version
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE clipboard_entries (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    content TEXT NOT NULL,
+    content_type TEXT NOT NULL,
+    format TEXT NOT NULL,
+    preview TEXT,
+    file_path TEXT,
+    app_name TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    is_pinned INTEGER NOT NULL DEFAULT 0,
+    is_favorite INTEGER NOT NULL DEFAULT 0,
+    category TEXT,
+    tags TEXT NOT NULL DEFAULT '[]',
+    usage_count INTEGER NOT NULL DEFAULT 0,
+    last_used_at INTEGER,
+    note TEXT
+  );
+
+  CREATE TABLE meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+
+  CREATE INDEX idx_clipboard_pinned_created_at
+    ON clipboard_entries(is_pinned, created_at DESC);
+  CREATE INDEX idx_clipboard_created_at ON clipboard_entries(created_at DESC);
+  CREATE INDEX idx_clipboard_format ON clipboard_entries(format);
+  CREATE INDEX idx_clipboard_category
+    ON clipboard_entries(category COLLATE NOCASE);
+  `,
+  `
+  ALTER TABLE clipboard_entries ADD COLUMN content_hash TEXT;
+  ALTER TABLE clipboard_entries ADD COLUMN normalized_hash TEXT;
+  ALTER TABLE clipboard_entries ADD COLUMN last_copied_at INTEGER;
+  UPDATE clipboard_entries SET last_copied_at = created_at;
+
+  CREATE INDEX idx_clipboard_content_hash
+    ON clipboard_entries(content_hash);
+  CREATE INDEX idx_clipboard_normalized_hash
+    ON clipboard_entries(normalized_hash);
+  CREATE INDEX idx_clipboard_last_copied_at
+    ON clipboard_entries(last_copied_at DESC);
+  `,
+  `
+  ALTER TABLE clipboard_entries ADD COLUMN sensitive_type TEXT;
+  ALTER TABLE clipboard_entries ADD COLUMN expires_at INTEGER;
+
+  CREATE INDEX idx_clipboard_expires_at
+    ON clipboard_entries(expires_at) WHERE expires_at IS NOT NULL;
+  `,
+  `
+  CREATE TABLE entry_revisions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    entry_id INTEGER NOT NULL
+      REFERENCES clipboard_entries(id) ON DELETE CASCADE,
+    content TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+
+  CREATE INDEX idx_entry_revisions_entry_id ON entry_revisions(entry_id);
+  `,
+  `
+  ALTER TABLE clipboard_entries ADD COLUMN representations TEXT;
+  `,
+  `
+  ALTER TABLE clipboard_entries ADD COLUMN files TEXT;
+  `,
+  // Triggers count the entries using each stored image, however they are
+  // added, changed or deleted
+  `
+  ALTER TABLE clipboard_entries ADD COLUMN image_hash TEXT;
+
+  CREATE TABLE images (
+    hash TEXT PRIMARY KEY,
+    ref_count INTEGER NOT NULL DEFAULT 0
+  );
+
+  CREATE TRIGGER images_ref_on_insert AFTER INSERT ON clipboard_entries
+  WHEN NEW.image_hash IS NOT NULL
+  BEGIN
+    INSERT INTO images (hash, ref_count) VALUES (NEW.image_hash, 1)
+      ON CONFLICT(hash) DO UPDATE SET ref_count = ref_count + 1;
+  END;
+
+  CREATE TRIGGER images_ref_on_delete AFTER DELETE ON clipboard_entries
+  WHEN OLD.image_hash IS NOT NULL
+  BEGIN
+    UPDATE images SET ref_count = ref_count - 1 WHERE hash = OLD.image_hash;
+  END;
+
+  CREATE TRIGGER images_ref_on_update AFTER UPDATE OF image_hash
+  ON clipboard_entries
+  WHEN OLD.image_hash IS NOT NEW.image_hash
+  BEGIN
+    UPDATE images SET ref_count = ref_count - 1 WHERE hash = OLD.image_hash;
+    INSERT INTO images (hash, ref_count)
+      SELECT NEW.image_hash, 1 WHERE NEW.image_hash IS NOT NULL
+      ON CONFLICT(hash) DO UPDATE SET ref_count = ref_count + 1;
+  END;
+  `,
+];
+
+// Number of rolling database backups kept in userData/backups
+const MAX_BACKUPS = 5;
+const BACKUP_INTERVAL_MS = 60 * 60 * 1000;
+const BACKUP_FILE_PATTERN = /^localclip-(.+)\.db$/;
+
+// Errors meaning the database file is damaged or isn't a database at all,
+// including the extended codes such as SQLITE_CORRUPT_INDEX
+const isCorruptionError = (error: unknown): boolean =>
+  error instanceof Database.SqliteError &&
+  /^SQLITE_(CORRUPT|NOTADB)/.test(error.code);
+
+// Entry fields that hold clipboard data and are encrypted at rest, as is the
+// content of revisions. The type, format, source app, category, tags, flags,
+// counts and timestamps stay in plaintext so that history can be filtered
+// and sorted in SQL.
+const ENCRYPTED_COLUMNS = [
+  'content',
+  'preview',
+  'file_path',
+  'note',
+  'representations',
+  'files',
+] as const;
+
+// Entry fields stored as JSON
+const JSON_COLUMNS = ['representations', 'files'] as const;
+
+// Earlier versions kept for each edited entry, beyond which the oldest go
+const MAX_REVISIONS_PER_ENTRY = 20;
+
+// Whitespace-insensitive form of content for duplicate matching
+const normalizeWhitespace = (content: string): string =>
+  content.trim().replace(/\s+/g, ' ');
+
+// Trims tags, drops a leading '#' and removes case-insensitive repeats
+const normalizeTags = (tags: string[]): string[] => {
+  const seen = new Set<string>();
+  return tags
+    .map(tag => tag.trim().replace(/^#+/, '').trim())
+    .filter(tag => {
+      const key = tag.toLowerCase();
+      if (!tag || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+// Value each sort order ranks by, highest first. Frecency divides the uses
+// by one plus the days since the last activity.
+const sortKeyExpression = (sortBy: HistorySortBy = 'created', now: number) => {
+  const lastActivity = 'MAX(COALESCE(last_used_at, 0), last_copied_at)';
+  switch (sortBy) {
+    case 'lastUsed':
+      return lastActivity;
+    case 'usageCount':
+      return 'usage_count';
+    case 'frecency':
+      return `(usage_count + 1) / (1 + MAX(0, ${now} - ${lastActivity}) / 86400000.0)`;
+    default:
+      return 'last_copied_at';
+  }
+};
+
+// Newest first when sort keys tie, so the order is total
+const orderByClause = (sortKey: string) =>
+  `${sortKey} DESC, created_at DESC, id DESC`;
+
+// Position after the last entry of a page. The sort time is kept so that
+// frecency scores stay comparable across pages.
+interface HistoryCursor {
+  now: number;
+  key: number;
+  createdAt: number;
+  id: number;
+}
+
+const encodeCursor = (cursor: HistoryCursor): string =>
+  Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+const decodeCursor = (cursor: string): HistoryCursor | null => {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    const isValid = ['now', 'key', 'createdAt', 'id'].every(
+      field => typeof parsed?.[field] === 'number'
+    );
+    return isValid ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+type SortedRow = EntryRow & { sort_key: number };
+
+// Values bound to statement parameters
+type SqlValue = string | number | null;
+
+interface SqlFilter {
+  conditions: string[];
+  params: SqlValue[];
+  // Text relevance of each matching entry when the filter has a search query
+  relevance?: Map<number, number>;
+}
+
+const toWhere = ({ conditions }: SqlFilter, joiner = 'WHERE') =>
+  conditions.length ? `${joiner} ${conditions.join(' AND ')}` : '';
+
+// Narrows a filter to the given entries, or to all but them
+const withIds = (
+  filter: SqlFilter,
+  ids: Iterable<number>,
+  exclude = false
+): SqlFilter => ({
+  conditions: [
+    ...filter.conditions,
+    `clipboard_entries.id ${
+      exclude ? 'NOT IN' : 'IN'
+    } (SELECT value FROM json_each(?))`,
+  ],
+  params: [...filter.params, JSON.stringify(Array.from(ids))],
+});
+
+// Up to this many search matches are listed without checking how many
+// entries don't match, which may be the shorter list
+const MAX_LISTED_MATCHES = 1000;
+
+// Entries indexed per tick while the search index builds in the background
+const INDEX_CHUNK_SIZE = 500;
+
+const HAS_TAG_CONDITION = `EXISTS (SELECT 1 FROM json_each(clipboard_entries.tags) WHERE value = ? COLLATE NOCASE)`;
+
+const toLikePattern = (value: string) =>
+  `%${value.replace(/[\\%_]/g, c => `\\${c}`)}%`;
+
+// Conditions for the field operators of a search query. Invalid clauses
+// were already left out by the parser.
+const addSearchConditions = (filter: SqlFilter, query: ParsedSearchQuery) => {
+  const { conditions, params } = filter;
+
+  if (query.after) {
+    conditions.push('created_at >= ?');
+    params.push(query.after.getTime());
+  }
+  if (query.before) {
+    conditions.push('created_at < ?');
+    params.push(query.before.getTime());
+  }
+
+  // type: matches the detected content type or the clipboard format
+  const isType =
+    '(content_type = ? COLLATE NOCASE OR format = ? COLLATE NOCASE)';
+  if (query.types.include.length > 0) {
+    conditions.push(`(${query.types.include.map(() => isType).join(' OR ')})`);
+    query.types.include.forEach(type => params.push(type, type));
+  }
+  query.types.exclude.forEach(type => {
+    conditions.push(`NOT ${isType}`);
+    params.push(type, type);
+  });
+
+  // app: matches part of the source app's name
+  const isApp = "COALESCE(app_name, '') LIKE ? ESCAPE '\\'";
+  if (query.apps.include.length > 0) {
+    conditions.push(`(${query.apps.include.map(() => isApp).join(' OR ')})`);
+    params.push(...query.apps.include.map(toLikePattern));
+  }
+  query.apps.exclude.forEach(app => {
+    conditions.push(`NOT ${isApp}`);
+    params.push(toLikePattern(app));
+  });
+
+  query.tags.include.forEach(tag => {
+    conditions.push(HAS_TAG_CONDITION);
+    params.push(tag);
+  });
+  query.tags.exclude.forEach(tag => {
+    conditions.push(`NOT ${HAS_TAG_CONDITION}`);
+    params.push(tag);
+  });
+
+  if (query.pinned !== undefined) {
+    conditions.push(`is_pinned = ${query.pinned ? 1 : 0}`);
+  }
+  if (query.favorite !== undefined) {
+    conditions.push(`is_favorite = ${query.favorite ? 1 : 0}`);
+  }
+};
+
+// Maps ClipboardEntry fields to their columns for partial updates
+const COLUMN_MAP: Partial<Record<keyof ClipboardEntry, string>> = {
+  content: 'content',
+  contentType: 'content_type',
+  format: 'format',
+  preview: 'preview',
+  filePath: 'file_path',
+  appName: 'app_name',
+  updatedAt: 'updated_at',
+  isPinned: 'is_pinned',
+  isFavorite: 'is_favorite',
+  category: 'category',
+  tags: 'tags',
+  usageCount: 'usage_count',
+  lastUsedAt: 'last_used_at',
+  note: 'note',
+  sensitiveType: 'sensitive_type',
+  expiresAt: 'expires_at',
+  representations: 'representations',
+  files: 'files',
+  imageHash: 'image_hash',
+};
+
+export class SqliteStorageManager {
+  private db: Database.Database;
+  private dbPath: string;
+  private backupsDir: string;
+  private legacyDataPath: string;
+  private backupInterval: NodeJS.Timeout | null = null;
+  private recoveryInfo: StorageRecoveryInfo | null = null;
+  private cipher: DataCipher | null = null;
+  // Built in the background once the data can be read, then kept in step
+  // with every change
+  private searchIndex = new SearchIndex();
+  private isSearchIndexBuilt = false;
+  // Last entry ID indexed so far, and the timer indexing the next ones
+  private searchIndexProgress = 0;
+  private searchIndexTimer: NodeJS.Timeout | null = null;
+  // Relevance of the matches of the search being ranked, for search_rank()
+  private rankedRelevance: Map<number, number> | null = null;
+  // Chip counts of the last query, which picking a chip or sort order
+  // doesn't change
+  private countsCache: { key: string; counts: HistoryCounts } | null = null;
+  private describeContent: ContentDescriber | null = null;
+  private releaseImages: ImageReleaseHandler | null = null;
+
+  constructor(options: StorageOptions = {}) {
+    // Store in user data directory
+    const userDataPath = app.getPath('userData');
+    if (!existsSync(userDataPath)) {
+      mkdirSync(userDataPath, { recursive: true });
+    }
+
+    this.dbPath = join(userDataPath, 'localclip.db');
+    this.backupsDir = join(userDataPath, 'backups');
+    this.legacyDataPath = join(userDataPath, 'localclip-data.json');
+
+    // Open the database, restoring from a backup if it is corrupted
+    this.db = this.openDatabase();
+    this.db.pragma('journal_mode = WAL');
+    // Commits are durable even if the app or OS crashes right after them
+    this.db.pragma('synchronous = FULL');
+    this.db.pragma('foreign_keys = ON');
+    // Ranks the matches of a search in SQL, see rankSearchResults
+    this.db.function(
+      'search_rank',
+      (
+        id: number,
+        createdAt: number,
+        lastUsedAt: number | null,
+        usageCount: number,
+        now: number
+      ) =>
+        getSearchRank(
+          this.rankedRelevance?.get(id) ?? 0,
+          { createdAt, lastUsedAt, usageCount },
+          now
+        )
+    );
+
+    this.migrate();
+    this.backfillContentHashes();
+
+    // Import data from the old JSON storage on first launch
+    this.importLegacyJson(options.importLegacySettings);
+
+    console.log(
+      `📁 Opened SQLite storage with ${this.getClipboardEntryCount()} clipboard entries`
+    );
+
+    // Snapshot the verified database, then keep rolling backups
+    this.createBackup();
+    this.backupInterval = setInterval(
+      () => this.createBackup(),
+      BACKUP_INTERVAL_MS
+    );
+
+    this.startSearchIndexBuild();
+  }
+
+  private openDatabase(): Database.Database {
+    try {
+      return this.openAndVerify(this.dbPath);
+    } catch (error) {
+      // A locked, unreadable or full database is left as it is, since
+      // restoring a backup would lose every copy made since then
+      if (!isCorruptionError(error)) throw error;
+      console.error('❌ SQLite storage failed its integrity check:', error);
+      return this.restoreFromBackup();
+    }
+  }
+
+  private openAndVerify(path: string): Database.Database {
+    const db = new Database(path);
+    try {
+      const result = db.pragma('quick_check', { simple: true });
+      if (result !== 'ok') {
+        throw new Database.SqliteError(
+          `Integrity check failed: ${result}`,
+          'SQLITE_CORRUPT'
+        );
+      }
+      return db;
+    } catch (error) {
+      db.close();
+      throw error;
+    }
+  }
+
+  private restoreFromBackup(): Database.Database {
+    // Move the damaged database (and its WAL files) aside instead of deleting it
+    const corruptFilePath = `${this.dbPath}.corrupt-${Date.now()}`;
+    for (const suffix of ['', '-wal', '-shm']) {
+      if (existsSync(this.dbPath + suffix)) {
+        renameSync(this.dbPath + suffix, corruptFilePath + suffix);
+      }
+    }
+
+    for (const backup of this.listBackups()) {
+      try {
+        copyFileSync(join(this.backupsDir, backup.file), this.dbPath);
+        const db = this.openAndVerify(this.dbPath);
+
+        this.recoveryInfo = {
+          recoveredAt: new Date(),
+          backupCreatedAt: backup.createdAt,
+          corruptFilePath,
+        };
+        console.log(`♻️ Restored clipboard history from backup ${backup.file}`);
+        return db;
+      } catch (error) {
+        console.warn(`⚠️ Backup ${backup.file} is not usable:`, error);
+        rmSync(this.dbPath, { force: true });
+      }
+    }
+
+    this.recoveryInfo = { recoveredAt: new Date(), corruptFilePath };
+    console.error('❌ No valid backup found, starting with empty storage');
+    return new Database(this.dbPath);
+  }
+
+  private listBackups(): { file: string; createdAt: Date }[] {
+    if (!existsSync(this.backupsDir)) return [];
+
+    return readdirSync(this.backupsDir)
+      .filter(file => BACKUP_FILE_PATTERN.test(file))
+      .sort()
+      .reverse()
+      .map(file => {
+        // Timestamps are stored as ISO strings with ':' and '.' replaced
+        const stamp = file.match(BACKUP_FILE_PATTERN)![1];
+        const iso = stamp.replace(
+          /T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z/,
+          'T$1:$2:$3.$4Z'
+        );
+        return { file, createdAt: new Date(iso) };
+      });
+  }
+
+  createBackup(): string | null {
+    try {
+      if (!existsSync(this.backupsDir)) {
+        mkdirSync(this.backupsDir, { recursive: true });
+      }
+
+      const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+      const backupPath = join(this.backupsDir, `localclip-${stamp}.db`);
+      const tempPath = `${backupPath}.tmp`;
+
+      // Write a consistent snapshot to a temp file, then atomically rename it
+      rmSync(tempPath, { force: true });
+      this.db.prepare('VACUUM INTO ?').run(tempPath);
+      renameSync(tempPath, backupPath);
+
+      // Drop the oldest backups beyond the limit
+      for (const backup of this.listBackups().slice(MAX_BACKUPS)) {
+        rmSync(join(this.backupsDir, backup.file), { force: true });
+      }
+
+      console.log(`🛟 Created storage backup ${backupPath}`);
+      return backupPath;
+    } catch (error) {
+      console.error('❌ Error creating storage backup:', error);
+      return null;
+    }
+  }
+
+  private deleteBackups(): void {
+    for (const backup of this.listBackups()) {
+      rmSync(join(this.backupsDir, backup.file), { force: true });
+    }
+  }
+
+  getRecoveryInfo(): StorageRecoveryInfo | null {
+    return this.recoveryInfo;
+  }
+
+  clearRecoveryInfo(): void {
+    this.recoveryInfo = null;
+  }
+
+  private migrate(): void {
+    const currentVersion = this.db.pragma('user_version', {
+      simple: true,
+    }) as number;
+
+    for (let version = currentVersion; version < MIGRATIONS.length; version++) {
+      this.db.transaction(() => {
+        this.db.exec(MIGRATIONS[version]);
+        this.db.pragma(`user_version = ${version + 1}`);
+      })();
+      console.log(`🗄️ Applied storage migration ${version + 1}`);
+    }
+  }
+
+  private importLegacyJson(importSettings?: LegacySettingsHandler): void {
+    if (
+      this.getMeta('legacyJsonImported') ||
+      !existsSync(this.legacyDataPath)
+    ) {
+      return;
+    }
+
+    try {
+      const fileContent = readFileSync(this.legacyDataPath, 'utf8');
+      const loadedData = JSON.parse(fileContent);
+
+      const entries: ClipboardEntry[] = Array.isArray(loadedData.entries)
+        ? loadedData.entries.map(SqliteStorageManager.validateLegacyEntry)
+        : [];
+
+      const insert = this.db.prepare(
+        buildInsert(['id', ...INSERT_COLUMNS], 'INSERT OR IGNORE')
+      );
+
+      this.db.transaction(() => {
+        for (const entry of entries) {
+          const row = this.toRow(entry);
+          // Entries without a valid ID get a fresh one
+          insert.run({ ...row, id: entry.id > 0 ? entry.id : null });
+        }
+        this.setMeta('legacyJsonImported', new Date().toISOString());
+      })();
+
+      if (loadedData.settings && typeof loadedData.settings === 'object') {
+        importSettings?.(loadedData.settings);
+      }
+
+      // The file holds the history in plaintext, so it isn't kept around
+      rmSync(this.legacyDataPath, { force: true });
+
+      console.log(
+        `📦 Imported ${entries.length} clipboard entries from JSON storage`
+      );
+    } catch (error) {
+      console.error('❌ Error importing legacy JSON storage:', error);
+    }
+  }
+
+  private static validateLegacyEntry(entry: LegacyEntry): ClipboardEntry {
+    // Ensure all required fields exist with defaults
+    return {
+      id: Number(entry.id) || 0,
+      content: entry.content || '',
+      contentType: entry.contentType || 'text',
+      format: entry.format || 'text',
+      preview: entry.preview || entry.content?.substring(0, 100) || '',
+      filePath: entry.filePath || undefined,
+      appName: entry.appName || 'Unknown App',
+      createdAt: entry.createdAt ? new Date(entry.createdAt) : new Date(),
+      updatedAt: entry.updatedAt ? new Date(entry.updatedAt) : new Date(),
+      isPinned: Boolean(entry.isPinned),
+      isFavorite: Boolean(entry.isFavorite),
+      category: entry.category || undefined,
+      tags: Array.isArray(entry.tags) ? entry.tags : [],
+      usageCount: entry.usageCount || 0,
+      lastUsedAt: entry.lastUsedAt ? new Date(entry.lastUsedAt) : undefined,
+      note: entry.note || undefined,
+    };
+  }
+
+  getMeta(key: string): string | undefined {
+    const row = this.db
+      .prepare('SELECT value FROM meta WHERE key = ?')
+      .get(key) as { value: string } | undefined;
+    return row?.value;
+  }
+
+  setMeta(key: string, value: string): void {
+    this.db
+      .prepare('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)')
+      .run(key, value);
+  }
+
+  // At-rest encryption
+  getEncryptionKeySource(): EncryptionKeySource | null {
+    return (
+      (this.getMeta('encryption.keySource') as EncryptionKeySource) || null
+    );
+  }
+
+  isEncryptionEnabled(): boolean {
+    return this.getEncryptionKeySource() !== null;
+  }
+
+  // Encrypted storage stays locked until the data key has been provided
+  isLocked(): boolean {
+    return this.cipher === null && this.isEncryptionEnabled();
+  }
+
+  getCipher(): DataCipher | null {
+    return this.cipher;
+  }
+
+  setCipher(cipher: DataCipher | null): void {
+    this.cipher = cipher;
+    this.backfillContentHashes();
+
+    // The index holds decrypted text, so it is dropped and rebuilt for
+    // whichever key is now in use
+    this.startSearchIndexBuild();
+  }
+
+  // Encrypts every entry with the given cipher and records the key material
+  enableEncryption(
+    cipher: DataCipher,
+    keySource: EncryptionKeySource,
+    keyMeta: Record<string, string>
+  ): void {
+    if (this.isEncryptionEnabled()) {
+      throw new Error('Encryption is already enabled');
+    }
+
+    this.db.transaction(() => {
+      this.reencryptEntries(null, cipher);
+      for (const [key, value] of Object.entries(keyMeta)) {
+        this.setMeta(`encryption.${key}`, value);
+      }
+      this.setMeta('encryption.keySource', keySource);
+    })();
+    this.cipher = cipher;
+
+    // Old backups hold plaintext history, so replace them with an encrypted one
+    this.compact();
+    this.deleteBackups();
+    this.createBackup();
+    this.deletePlaintextCopies();
+
+    console.log(`🔒 Encrypted clipboard history (key source: ${keySource})`);
+  }
+
+  // Decrypts every entry and forgets the key material
+  disableEncryption(): void {
+    const cipher = this.cipher;
+    if (!cipher) {
+      throw new Error('Storage must be unlocked to disable encryption');
+    }
+
+    this.db.transaction(() => {
+      this.reencryptEntries(cipher, null);
+      this.db.prepare("DELETE FROM meta WHERE key LIKE 'encryption.%'").run();
+    })();
+    this.cipher = null;
+
+    // Encrypted backups can't be restored once the key is gone
+    this.compact();
+    this.deleteBackups();
+    this.createBackup();
+    console.log('🔓 Decrypted clipboard history');
+  }
+
+  // Databases set aside by corruption recovery are readable copies of the
+  // history
+  private deletePlaintextCopies(): void {
+    const userDataPath = dirname(this.dbPath);
+    const corruptPrefix = `${basename(this.dbPath)}.corrupt-`;
+    for (const file of readdirSync(userDataPath)) {
+      if (file.startsWith(corruptPrefix)) {
+        rmSync(join(userDataPath, file), { force: true });
+      }
+    }
+  }
+
+  // Moves every entry from one cipher to another (null means plaintext)
+  private reencryptEntries(
+    from: DataCipher | null,
+    to: DataCipher | null
+  ): void {
+    const rows = this.db
+      .prepare(
+        `SELECT id, ${ENCRYPTED_COLUMNS.join(', ')} FROM clipboard_entries`
+      )
+      .all() as Pick<EntryRow, 'id' | (typeof ENCRYPTED_COLUMNS)[number]>[];
+    const update = this.db.prepare(
+      `UPDATE clipboard_entries
+       SET content = @content, preview = @preview, file_path = @file_path,
+           note = @note, representations = @representations, files = @files,
+           content_hash = @content_hash, normalized_hash = @normalized_hash
+       WHERE id = @id`
+    );
+
+    const decrypt = (value: string) =>
+      from ? from.decryptString(value) : value;
+    const encrypt = (value: string) => (to ? to.encryptString(value) : value);
+    const reencrypt = (value: string | null) =>
+      value !== null ? encrypt(decrypt(value)) : null;
+
+    for (const row of rows) {
+      const content = decrypt(row.content);
+      update.run({
+        id: row.id,
+        content: encrypt(content),
+        preview: reencrypt(row.preview),
+        file_path: reencrypt(row.file_path),
+        note: reencrypt(row.note),
+        representations: reencrypt(row.representations),
+        files: reencrypt(row.files),
+        ...this.hashContent(content, to),
+      });
+    }
+
+    const revisions = this.db
+      .prepare('SELECT id, content FROM entry_revisions')
+      .all() as Pick<RevisionRow, 'id' | 'content'>[];
+    const updateRevision = this.db.prepare(
+      'UPDATE entry_revisions SET content = ? WHERE id = ?'
+    );
+    for (const revision of revisions) {
+      updateRevision.run(encrypt(decrypt(revision.content)), revision.id);
+    }
+  }
+
+  // Hashes are keyed once encryption is on, so they can't be used to
+  // confirm guesses about the encrypted content
+  private hashContent(
+    content: string,
+    cipher: DataCipher | null = this.cipher
+  ): Pick<EntryRow, 'content_hash' | 'normalized_hash'> {
+    const hash = (value: string) =>
+      cipher
+        ? cipher.hash(value)
+        : createHash('sha256').update(value).digest('hex');
+    return {
+      content_hash: hash(content),
+      normalized_hash: hash(normalizeWhitespace(content)),
+    };
+  }
+
+  // Fills in hashes for entries stored before duplicate detection existed
+  private backfillContentHashes(): void {
+    if (this.isLocked()) return;
+
+    const rows = this.db
+      .prepare(
+        'SELECT id, content FROM clipboard_entries WHERE content_hash IS NULL'
+      )
+      .all() as Pick<EntryRow, 'id' | 'content'>[];
+    if (rows.length === 0) return;
+
+    const update = this.db.prepare(
+      `UPDATE clipboard_entries
+       SET content_hash = @content_hash, normalized_hash = @normalized_hash
+       WHERE id = @id`
+    );
+    this.db.transaction(() => {
+      for (const row of rows) {
+        update.run({
+          id: row.id,
+          ...this.hashContent(this.decryptValue(row.content)),
+        });
+      }
+    })();
+  }
+
+  // Rewrites the database file so no stale plaintext pages are left behind
+  private compact(): void {
+    this.db.exec('VACUUM');
+    this.db.pragma('wal_checkpoint(TRUNCATE)');
+  }
+
+  private encryptValue(value: string): string;
+  private encryptValue(value: string | null): string | null;
+  private encryptValue(value: string | null): string | null {
+    if (value === null) return null;
+    if (this.cipher) return this.cipher.encryptString(value);
+    if (this.isEncryptionEnabled()) {
+      throw new Error('Storage is locked');
+    }
+    return value;
+  }
+
+  private decryptValue(value: string): string;
+  private decryptValue(value: string | null): string | null;
+  private decryptValue(value: string | null): string | null {
+    if (!isEncryptedValue(value)) return value;
+    if (!this.cipher) throw new Error('Storage is locked');
+    return this.cipher.decryptString(value);
+  }
+
+  private toRow(entry: ClipboardEntry): Omit<EntryRow, 'id'> {
+    return {
+      content: this.encryptValue(entry.content),
+      content_type: entry.contentType,
+      format: entry.format,
+      preview: this.encryptValue(entry.preview ?? null),
+      file_path: this.encryptValue(entry.filePath ?? null),
+      app_name: entry.appName ?? null,
+      created_at: entry.createdAt.getTime(),
+      updated_at: entry.updatedAt.getTime(),
+      is_pinned: entry.isPinned ? 1 : 0,
+      is_favorite: entry.isFavorite ? 1 : 0,
+      category: entry.category ?? null,
+      tags: JSON.stringify(entry.tags || []),
+      usage_count: entry.usageCount || 0,
+      last_used_at: entry.lastUsedAt ? entry.lastUsedAt.getTime() : null,
+      last_copied_at: entry.createdAt.getTime(),
+      note: this.encryptValue(entry.note ?? null),
+      ...this.hashContent(entry.content),
+      sensitive_type: entry.sensitiveType ?? null,
+      expires_at: entry.expiresAt ? entry.expiresAt.getTime() : null,
+      representations: entry.representations
+        ? this.encryptValue(JSON.stringify(entry.representations))
+        : null,
+      files: entry.files
+        ? this.encryptValue(JSON.stringify(entry.files))
+        : null,
+      image_hash: entry.imageHash ?? null,
+    };
+  }
+
+  private fromRow(row: EntryRow): ClipboardEntry {
+    let tags: string[] = [];
+    try {
+      const parsed = JSON.parse(row.tags);
+      tags = Array.isArray(parsed) ? parsed : [];
+    } catch {
+      tags = [];
+    }
+
+    return {
+      id: row.id,
+      content: this.decryptValue(row.content),
+      contentType: row.content_type,
+      format: row.format,
+      preview: this.decryptValue(row.preview) ?? undefined,
+      filePath: this.decryptValue(row.file_path) ?? undefined,
+      appName: row.app_name ?? undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+      isPinned: Boolean(row.is_pinned),
+      isFavorite: Boolean(row.is_favorite),
+      category: row.category ?? undefined,
+      tags,
+      usageCount: row.usage_count,
+      lastUsedAt:
+        row.last_used_at !== null ? new Date(row.last_used_at) : undefined,
+      note: this.decryptValue(row.note) ?? undefined,
+      sensitiveType: row.sensitive_type ?? undefined,
+      expiresAt: row.expires_at !== null ? new Date(row.expires_at) : undefined,
+      representations: this.parseJsonValue<ClipboardRepresentations>(
+        row.representations
+      ),
+      files: this.parseJsonValue<CopiedFile[]>(row.files),
+      imageHash: row.image_hash ?? undefined,
+    };
+  }
+
+  private parseJsonValue<T>(value: string | null): T | undefined {
+    if (value === null) return undefined;
+    try {
+      return JSON.parse(this.decryptValue(value));
+    } catch (error) {
+      console.error('❌ Unreadable clipboard entry data:', error);
+      return undefined;
+    }
+  }
+
+  private toColumnValue(key: keyof ClipboardEntry, value: unknown): SqlValue {
+    if (value === undefined || value === null) {
+      return key === 'tags' ? '[]' : null;
+    }
+    if (value instanceof Date) return value.getTime();
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    if (key === 'tags') return JSON.stringify(value);
+    if ((JSON_COLUMNS as readonly string[]).includes(key)) {
+      return this.encryptValue(JSON.stringify(value));
+    }
+    if (
+      (ENCRYPTED_COLUMNS as readonly string[]).includes(COLUMN_MAP[key] ?? '')
+    ) {
+      return this.encryptValue(String(value));
+    }
+    return typeof value === 'number' ? value : String(value);
+  }
+
+  private getEntryById(id: number): ClipboardEntry | null {
+    const row = this.db
+      .prepare('SELECT * FROM clipboard_entries WHERE id = ?')
+      .get(id) as EntryRow | undefined;
+    return row ? this.fromRow(row) : null;
+  }
+
+  // Clipboard Entry Operations
+  async getClipboardHistory(
+    options: GetHistoryOptions = {}
+  ): Promise<ClipboardEntry[]> {
+    const { limit = 100, offset = 0 } = options;
+
+    // Nothing can be read until encrypted storage is unlocked
+    if (this.isLocked()) return [];
+
+    const filter = this.buildFacetFilter(options, this.buildFilter(options));
+    const where = toWhere(filter, 'AND');
+    const orderBy = orderByClause(
+      sortKeyExpression(options.sortBy, Date.now())
+    );
+
+    // All pinned entries, in the same order as the rest
+    const pinnedRows = this.db
+      .prepare(
+        `SELECT * FROM clipboard_entries WHERE is_pinned = 1 ${where}
+         ORDER BY ${orderBy}`
+      )
+      .all(...filter.params) as EntryRow[];
+
+    // Apply limit only to non-pinned entries, but show all pinned entries
+    const nonPinnedRows = this.db
+      .prepare(
+        `SELECT * FROM clipboard_entries WHERE is_pinned = 0 ${where}
+         ORDER BY ${orderBy} LIMIT ? OFFSET ?`
+      )
+      .all(...filter.params, limit, offset) as EntryRow[];
+
+    return [...pinnedRows, ...nonPinnedRows].map(row => this.fromRow(row));
+  }
+
+  // Pages through the history with a cursor. The first page also holds every
+  // pinned entry; later pages only continue the non-pinned ones.
+  queryHistory(options: GetHistoryOptions = {}): HistoryPage {
+    const { limit = 50 } = options;
+    const emptyCounts = { total: 0, categories: {}, favorites: 0, tags: [] };
+
+    // Nothing can be read until encrypted storage is unlocked
+    if (this.isLocked()) {
+      return { entries: [], nextCursor: null, counts: emptyCounts };
+    }
+
+    const cursor = options.cursor ? decodeCursor(options.cursor) : null;
+    const now = cursor?.now ?? Date.now();
+    const baseFilter = this.buildFilter(options);
+    const filter = this.buildFacetFilter(options, baseFilter);
+
+    // Search results are ranked by relevance, which only JS knows
+    const { pinnedRows, rows } = baseFilter.relevance
+      ? this.rankSearchResults(filter, baseFilter.relevance, cursor, limit, now)
+      : this.sortHistory(
+          filter,
+          sortKeyExpression(options.sortBy, now),
+          cursor,
+          limit
+        );
+
+    const pageRows = rows.slice(0, limit);
+    const lastRow = pageRows[pageRows.length - 1];
+    const nextCursor =
+      rows.length > limit && lastRow
+        ? encodeCursor({
+            now,
+            key: lastRow.sort_key,
+            createdAt: lastRow.created_at,
+            id: lastRow.id,
+          })
+        : null;
+
+    return {
+      entries: [...pinnedRows, ...pageRows].map(row => this.fromRow(row)),
+      nextCursor,
+      counts: cursor ? emptyCounts : this.countMatches(options, baseFilter),
+    };
+  }
+
+  // Pinned rows for the first page, plus up to limit + 1 rows after the
+  // cursor so the caller can tell whether more remain
+  private sortHistory(
+    filter: SqlFilter,
+    sortKey: string,
+    cursor: HistoryCursor | null,
+    limit: number
+  ): { pinnedRows: EntryRow[]; rows: SortedRow[] } {
+    const orderBy = orderByClause(sortKey);
+
+    const pinnedRows = cursor
+      ? []
+      : (this.db
+          .prepare(
+            `SELECT * FROM clipboard_entries
+             WHERE is_pinned = 1 ${toWhere(filter, 'AND')}
+             ORDER BY ${orderBy}`
+          )
+          .all(...filter.params) as EntryRow[]);
+
+    const pageFilter: SqlFilter = {
+      conditions: ['is_pinned = 0', ...filter.conditions],
+      params: [...filter.params],
+    };
+    if (cursor) {
+      pageFilter.conditions.push(
+        `(${sortKey} < ? OR (${sortKey} = ? AND (created_at < ?
+          OR (created_at = ? AND id < ?))))`
+      );
+      pageFilter.params.push(
+        cursor.key,
+        cursor.key,
+        cursor.createdAt,
+        cursor.createdAt,
+        cursor.id
+      );
+    }
+    const rows = this.db
+      .prepare(
+        `SELECT *, ${sortKey} AS sort_key FROM clipboard_entries
+         ${toWhere(pageFilter)}
+         ORDER BY ${orderBy} LIMIT ?`
+      )
+      .all(...pageFilter.params, limit + 1) as SortedRow[];
+
+    return { pinnedRows, rows };
+  }
+
+  // Same as sortHistory, but ordered by search rank. Matches that are all
+  // equally relevant, as for a common word, are ranked in SQL alone.
+  private rankSearchResults(
+    filter: SqlFilter,
+    relevance: Map<number, number>,
+    cursor: HistoryCursor | null,
+    limit: number,
+    now: number
+  ): { pinnedRows: EntryRow[]; rows: SortedRow[] } {
+    const values = new Set(relevance.values());
+    if (values.size === 1) {
+      const [value] = values;
+      return this.sortHistory(
+        filter,
+        getSearchRankSql(value, now),
+        cursor,
+        limit
+      );
+    }
+
+    this.rankedRelevance = relevance;
+    try {
+      return this.sortHistory(
+        filter,
+        `search_rank(id, created_at, last_used_at, usage_count, ${now})`,
+        cursor,
+        limit
+      );
+    } finally {
+      this.rankedRelevance = null;
+    }
+  }
+
+  // Counts for the chips, which stay visible whichever of them is selected.
+  // They only change with the search and the data, so picking a chip or
+  // sort order reuses the last ones.
+  private countMatches(
+    { searchQuery, contentType, dateRange }: GetHistoryOptions,
+    filter: SqlFilter
+  ): HistoryCounts {
+    const key = JSON.stringify([
+      searchQuery,
+      contentType,
+      dateRange,
+      this.db.prepare('SELECT total_changes()').pluck().get(),
+    ]);
+    if (this.countsCache?.key === key) return this.countsCache.counts;
+
+    const counts = this.countFilter(filter);
+    this.countsCache = { key, counts };
+    return counts;
+  }
+
+  private countFilter(filter: SqlFilter): HistoryCounts {
+    const where = toWhere(filter);
+    const totals = this.db
+      .prepare(
+        `SELECT COUNT(*) AS total, COALESCE(SUM(is_favorite), 0) AS favorites
+         FROM clipboard_entries ${where}`
+      )
+      .get(...filter.params) as { total: number; favorites: number };
+
+    // Grouped the way the category index is ordered, so that it's counted
+    // without reading the entries
+    const categoryRows = this.db
+      .prepare(
+        `SELECT MIN(category) AS category, COUNT(*) AS count
+         FROM clipboard_entries
+         ${toWhere({ ...filter, conditions: [...filter.conditions, 'category IS NOT NULL'] })}
+         GROUP BY category COLLATE NOCASE`
+      )
+      .all(...filter.params) as { category: string; count: number }[];
+
+    return {
+      ...totals,
+      categories: Object.fromEntries(
+        categoryRows.map(({ category, count }) => [category, count])
+      ),
+      tags: this.countTags(filter),
+    };
+  }
+
+  private countTags(filter: SqlFilter = { conditions: [], params: [] }) {
+    // Most entries have no tags, and skipping them saves parsing their JSON
+    const tagged: SqlFilter = {
+      conditions: ["clipboard_entries.tags != '[]'", ...filter.conditions],
+      params: filter.params,
+    };
+    return this.db
+      .prepare(
+        `SELECT MIN(tag.value) AS tag, COUNT(DISTINCT clipboard_entries.id) AS count
+         FROM clipboard_entries, json_each(clipboard_entries.tags) AS tag
+         ${toWhere(tagged)}
+         GROUP BY tag.value COLLATE NOCASE
+         ORDER BY count DESC, tag COLLATE NOCASE`
+      )
+      .all(...filter.params) as TagCount[];
+  }
+
+  // Search, format and date conditions
+  private buildFilter(options: GetHistoryOptions): SqlFilter {
+    const { contentType, dateRange, searchQuery } = options;
+    const filter: SqlFilter = { conditions: [], params: [] };
+
+    // Filter by content type
+    if (contentType) {
+      filter.conditions.push('format = ?');
+      filter.params.push(contentType);
+    }
+
+    // Filter by creation date
+    if (dateRange) {
+      filter.conditions.push('created_at BETWEEN ? AND ?');
+      filter.params.push(
+        new Date(dateRange.start).getTime(),
+        new Date(dateRange.end).getTime()
+      );
+    }
+
+    if (!searchQuery?.trim()) return filter;
+    const query = parseSearchQuery(searchQuery);
+    addSearchConditions(filter, query);
+
+    // Fuzzy words, phrases and regular expressions can't be matched in SQL,
+    // so entries are matched by the index or after reading (and decrypting)
+    // them
+    if (hasTextClauses(query)) {
+      const relevance = this.searchEntries(filter, query);
+      return { ...this.narrowToMatches(filter, relevance), relevance };
+    }
+
+    return filter;
+  }
+
+  // Adds the search matches to the filter. Common words match most of the
+  // history, and then the entries that don't match are the shorter list.
+  private narrowToMatches(
+    filter: SqlFilter,
+    relevance: Map<number, number>
+  ): SqlFilter {
+    if (relevance.size <= MAX_LISTED_MATCHES) {
+      return withIds(filter, relevance.keys());
+    }
+    // Every entry matches, as for a word they all contain
+    if (
+      filter.conditions.length === 0 &&
+      relevance.size === this.searchIndex.size
+    ) {
+      return filter;
+    }
+
+    const others = (
+      this.db
+        .prepare(`SELECT id FROM clipboard_entries ${toWhere(filter)}`)
+        .pluck()
+        .all(...filter.params) as number[]
+    ).filter(id => !relevance.has(id));
+    if (others.length === 0) return filter;
+    return others.length < relevance.size
+      ? withIds(filter, others, true)
+      : withIds(filter, relevance.keys());
+  }
+
+  // Category, favorites and tag conditions added to a base filter
+  private buildFacetFilter(
+    options: GetHistoryOptions,
+    base: SqlFilter
+  ): SqlFilter {
+    const { category, favoritesOnly, tags, tagMatch = 'any' } = options;
+    const filter: SqlFilter = {
+      conditions: [...base.conditions],
+      params: [...base.params],
+    };
+
+    // Filter by category
+    if (category && category !== 'all') {
+      filter.conditions.push('category = ? COLLATE NOCASE');
+      filter.params.push(category);
+    }
+
+    if (favoritesOnly) {
+      filter.conditions.push('is_favorite = 1');
+    }
+
+    // Filter by tags, requiring all of them or any one
+    const filterTags = normalizeTags(tags || []);
+    if (filterTags.length > 0) {
+      const tagConditions = filterTags.map(() => HAS_TAG_CONDITION);
+      filter.conditions.push(
+        `(${tagConditions.join(tagMatch === 'all' ? ' AND ' : ' OR ')})`
+      );
+      filter.params.push(...filterTags);
+    }
+
+    return filter;
+  }
+
+  // Text relevance of every entry matching the query's text, by ID. Matches
+  // from the index aren't narrowed to the filter's conditions.
+  private searchEntries(
+    filter: SqlFilter,
+    query: ParsedSearchQuery
+  ): Map<number, number> {
+    this.buildSearchIndex();
+    const result = this.searchIndex.search(query);
+    if (!result) return this.scanEntries(filter, query);
+    if (!result.needsVerification) return result.relevance;
+    return this.scanEntries(withIds(filter, result.relevance.keys()), query);
+  }
+
+  // Matches the query against the text of every entry in the filter, for
+  // queries the index can't answer alone
+  private scanEntries(
+    filter: SqlFilter,
+    query: ParsedSearchQuery
+  ): Map<number, number> {
+    const relevance = new Map<number, number>();
+
+    for (const row of this.db
+      .prepare(`SELECT * FROM clipboard_entries ${toWhere(filter)}`)
+      .iterate(...filter.params) as IterableIterator<EntryRow>) {
+      const entry = this.fromRow(row);
+      const entryRelevance = matchTextClauses(query, entry);
+      if (entryRelevance !== null) relevance.set(entry.id, entryRelevance);
+    }
+    return relevance;
+  }
+
+  // Indexes the history a chunk at a time, so that startup and unlocking
+  // aren't held up and the index is usually ready by the first search
+  private startSearchIndexBuild(): void {
+    this.stopSearchIndexBuild();
+    this.searchIndex.clear();
+    this.isSearchIndexBuilt = false;
+    this.searchIndexProgress = 0;
+    if (this.isLocked()) return;
+
+    const indexNextChunk = () => {
+      this.indexEntriesAfter(this.searchIndexProgress, INDEX_CHUNK_SIZE);
+      this.searchIndexTimer = this.isSearchIndexBuilt
+        ? null
+        : setTimeout(indexNextChunk, 0);
+    };
+    this.searchIndexTimer = setTimeout(indexNextChunk, 0);
+  }
+
+  private stopSearchIndexBuild(): void {
+    if (this.searchIndexTimer) {
+      clearTimeout(this.searchIndexTimer);
+      this.searchIndexTimer = null;
+    }
+  }
+
+  // Finishes the index right away, for a search made before it was ready
+  buildSearchIndex(): void {
+    if (this.isSearchIndexBuilt) return;
+
+    this.stopSearchIndexBuild();
+    this.indexEntriesAfter(this.searchIndexProgress, -1);
+  }
+
+  // Indexes up to limit entries (all with a negative limit) after the given
+  // ID. Entries added meanwhile are indexed as they are stored.
+  private indexEntriesAfter(id: number, limit: number): void {
+    const rows = this.db
+      .prepare(
+        'SELECT * FROM clipboard_entries WHERE id > ? ORDER BY id LIMIT ?'
+      )
+      .all(id, limit) as EntryRow[];
+
+    rows.forEach(row => this.searchIndex.add(this.fromRow(row)));
+    if (rows.length > 0) {
+      this.searchIndexProgress = rows[rows.length - 1].id;
+    }
+    this.isSearchIndexBuilt = limit < 0 || rows.length < limit;
+    if (this.isSearchIndexBuilt) this.searchIndex.warmUp();
+  }
+
+  private indexEntry(entry: ClipboardEntry | null): void {
+    if (entry) this.searchIndex.add(entry);
+  }
+
+  private unindexEntries(ids: number[]): void {
+    ids.forEach(id => this.searchIndex.remove(id));
+  }
+
+  async addClipboardEntry(
+    entry: NewClipboardEntry,
+    maxHistoryItems: number = 40,
+    options: AddEntryOptions = {}
+  ): Promise<ClipboardEntry> {
+    const now = new Date();
+    const row = this.toRow({ ...entry, id: 0, createdAt: now, updatedAt: now });
+
+    // A repeat copy moves the existing entry to the top instead
+    if (options.deduplicate) {
+      const duplicate = this.bumpDuplicateEntry(row, options.deduplicate, now);
+      if (duplicate) return duplicate;
+    }
+
+    const result = this.db.prepare(buildInsert(INSERT_COLUMNS)).run(row);
+
+    const newEntry: ClipboardEntry = {
+      ...entry,
+      id: Number(result.lastInsertRowid),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.indexEntry(newEntry);
+
+    // Enforce limit for non-pinned items only
+    if (!entry.isPinned) {
+      await this.enforceHistoryLimit(maxHistoryItems, options.keepFavorites);
+    }
+
+    return newEntry;
+  }
+
+  // Moves the matching entry to the top and counts the copy as a use,
+  // keeping its creation date, content, pin, note and tags. The copy's
+  // formats replace the stored ones, and a secret found in it still marks
+  // the entry and sets its expiry.
+  private bumpDuplicateEntry(
+    row: Omit<EntryRow, 'id'>,
+    match: DuplicateMatchMode,
+    now: Date
+  ): ClipboardEntry | null {
+    const hashColumn =
+      match === 'normalized' ? 'normalized_hash' : 'content_hash';
+    const existing = this.db
+      .prepare(
+        `SELECT id FROM clipboard_entries
+         WHERE ${hashColumn} = ? AND format = ?
+         ORDER BY last_copied_at DESC, id DESC
+         LIMIT 1`
+      )
+      .get(row[hashColumn], row.format) as { id: number } | undefined;
+    if (!existing) return null;
+
+    this.db
+      .prepare(
+        `UPDATE clipboard_entries
+         SET last_copied_at = @now, updated_at = @now, last_used_at = @now,
+             usage_count = usage_count + 1,
+             sensitive_type = COALESCE(@sensitive_type, sensitive_type),
+             expires_at = CASE
+               WHEN expires_at IS NULL THEN @expires_at
+               ELSE MIN(expires_at, COALESCE(@expires_at, expires_at))
+             END,
+             representations = COALESCE(@representations, representations)
+         WHERE id = @id`
+      )
+      .run({
+        id: existing.id,
+        now: now.getTime(),
+        sensitive_type: row.sensitive_type,
+        expires_at: row.expires_at,
+        representations: row.representations,
+      });
+
+    return this.getEntryById(existing.id);
+  }
+
+  async enforceHistoryLimit(
+    maxHistoryItems: number,
+    keepFavorites: boolean = false
+  ): Promise<void> {
+    const clampedLimit = Math.max(20, Math.min(100, maxHistoryItems));
+    const limited = keepFavorites
+      ? 'is_pinned = 0 AND is_favorite = 0'
+      : 'is_pinned = 0';
+    const nonPinnedCount = (
+      this.db
+        .prepare(
+          `SELECT COUNT(*) AS count FROM clipboard_entries WHERE ${limited}`
+        )
+        .get() as { count: number }
+    ).count;
+
+    if (nonPinnedCount > clampedLimit) {
+      const excessCount = nonPinnedCount - clampedLimit;
+      // Delete the oldest non-pinned entries
+      const deleted = this.db
+        .prepare(
+          `DELETE FROM clipboard_entries WHERE id IN (
+            SELECT id FROM clipboard_entries WHERE ${limited}
+            ORDER BY last_copied_at ASC, id ASC LIMIT ?
+          ) RETURNING id`
+        )
+        .all(excessCount) as { id: number }[];
+      this.unindexEntries(deleted.map(({ id }) => id));
+      this.collectUnusedImages();
+    }
+  }
+
+  setContentDescriber(describer: ContentDescriber): void {
+    this.describeContent = describer;
+  }
+
+  setImageReleaseHandler(handler: ImageReleaseHandler): void {
+    this.releaseImages = handler;
+  }
+
+  // Forgets stored images whose last entry is gone and has their files
+  // deleted
+  private collectUnusedImages(): void {
+    const rows = this.db
+      .prepare('DELETE FROM images WHERE ref_count <= 0 RETURNING hash')
+      .all() as { hash: string }[];
+    if (rows.length === 0) return;
+
+    try {
+      this.releaseImages?.(rows.map(({ hash }) => hash));
+    } catch (error) {
+      console.error('❌ Failed to delete unused images:', error);
+    }
+  }
+
+  // Points entries at the new names of their images, which change along
+  // with the encryption state
+  renameImages(names: Map<string, string>): void {
+    const rows = this.db
+      .prepare(
+        `SELECT id, content, file_path, representations, image_hash
+         FROM clipboard_entries WHERE image_hash IS NOT NULL`
+      )
+      .all() as Pick<
+      EntryRow,
+      'id' | 'content' | 'file_path' | 'representations' | 'image_hash'
+    >[];
+    const update = this.db.prepare(
+      `UPDATE clipboard_entries
+       SET content = @content, file_path = @file_path,
+           representations = @representations, image_hash = @image_hash,
+           content_hash = @content_hash, normalized_hash = @normalized_hash
+       WHERE id = @id`
+    );
+
+    const renamed: number[] = [];
+    this.db.transaction(() => {
+      for (const row of rows) {
+        const oldHash = row.image_hash!;
+        const newHash = names.get(oldHash);
+        if (!newHash) continue;
+
+        // Image entries hold the image's URL, and entries of other formats
+        // have it among their representations
+        const rename = (value: string | null) =>
+          value === null
+            ? null
+            : this.encryptValue(
+                this.decryptValue(value).split(oldHash).join(newHash)
+              );
+        const content = this.decryptValue(row.content);
+        const newContent =
+          content === toImageUrl(oldHash) ? toImageUrl(newHash) : content;
+        update.run({
+          id: row.id,
+          content: this.encryptValue(newContent),
+          file_path: rename(row.file_path),
+          representations: rename(row.representations),
+          image_hash: newHash,
+          ...this.hashContent(newContent),
+        });
+        renamed.push(row.id);
+      }
+    })();
+
+    renamed.forEach(id => this.indexEntry(this.getEntryById(id)));
+    this.collectUnusedImages();
+
+    // Backups still use the old names, whose files are gone
+    if (renamed.length > 0) {
+      this.deleteBackups();
+      this.createBackup();
+    }
+  }
+
+  // Hashes of every image in the image store that entries still use
+  getStoredImageHashes(): Set<string> {
+    const rows = this.db.prepare('SELECT hash FROM images').all() as {
+      hash: string;
+    }[];
+    return new Set(rows.map(({ hash }) => hash));
+  }
+
+  async updateClipboardEntry(
+    id: number,
+    updates: Partial<ClipboardEntry>
+  ): Promise<ClipboardEntry | null> {
+    // Edited content is kept as a revision, and the entry described afresh
+    // unless the update says otherwise
+    const current =
+      typeof updates.content === 'string' ? this.getEntryById(id) : null;
+    const replaced =
+      current && current.content !== updates.content ? current : null;
+    const described =
+      replaced && this.describeContent
+        ? await this.describeContent(
+            updates.content as string,
+            updates.format ?? replaced.format
+          )
+        : {};
+
+    // ID and creation date are never updated. Other formats of the original
+    // copy no longer match edited content, so only the edit is pasted.
+    const changes: Partial<ClipboardEntry> = {
+      ...described,
+      ...(replaced ? { representations: undefined, imageHash: undefined } : {}),
+      ...updates,
+      updatedAt: new Date(),
+    };
+
+    const assignments: string[] = [];
+    const params: SqlValue[] = [];
+    for (const [key, value] of Object.entries(changes)) {
+      const column = COLUMN_MAP[key as keyof ClipboardEntry];
+      if (!column) continue;
+      assignments.push(`${column} = ?`);
+      params.push(this.toColumnValue(key as keyof ClipboardEntry, value));
+    }
+
+    // Keep duplicate detection in step with edited content
+    if (typeof updates.content === 'string') {
+      const hashes = this.hashContent(updates.content);
+      assignments.push('content_hash = ?', 'normalized_hash = ?');
+      params.push(hashes.content_hash, hashes.normalized_hash);
+    }
+
+    const changed = this.db.transaction(() => {
+      const result = this.db
+        .prepare(
+          `UPDATE clipboard_entries SET ${assignments.join(', ')} WHERE id = ?`
+        )
+        .run(...params, id);
+      if (result.changes > 0 && replaced) this.addRevision(replaced);
+      return result.changes > 0;
+    })();
+    if (!changed) return null;
+    if ('imageHash' in changes) this.collectUnusedImages();
+
+    const entry = this.getEntryById(id);
+    this.indexEntry(entry);
+    return entry;
+  }
+
+  // Replaces the content of a text or HTML entry, keeping the old content as
+  // a revision
+  async editClipboardEntry(
+    id: number,
+    content: string
+  ): Promise<ClipboardEntry | null> {
+    const entry = this.getEntryById(id);
+    if (!entry) return null;
+
+    if (!EDITABLE_FORMATS.includes(entry.format)) {
+      throw new Error(`Cannot edit ${entry.format} entries`);
+    }
+    if (!content.trim()) {
+      throw new Error('Content cannot be empty');
+    }
+    return this.updateClipboardEntry(id, { content });
+  }
+
+  private addRevision(entry: ClipboardEntry): void {
+    this.db
+      .prepare(
+        'INSERT INTO entry_revisions (entry_id, content, created_at) VALUES (?, ?, ?)'
+      )
+      .run(entry.id, this.encryptValue(entry.content), Date.now());
+
+    this.db
+      .prepare(
+        `DELETE FROM entry_revisions
+         WHERE entry_id = ? AND id NOT IN (
+           SELECT id FROM entry_revisions WHERE entry_id = ?
+           ORDER BY id DESC LIMIT ?
+         )`
+      )
+      .run(entry.id, entry.id, MAX_REVISIONS_PER_ENTRY);
+  }
+
+  // Earlier versions of an entry's content, newest first
+  getRevisions(entryId: number): EntryRevision[] {
+    if (this.isLocked()) return [];
+
+    const rows = this.db
+      .prepare(
+        'SELECT * FROM entry_revisions WHERE entry_id = ? ORDER BY id DESC'
+      )
+      .all(entryId) as RevisionRow[];
+    return rows.map(row => ({
+      id: row.id,
+      entryId: row.entry_id,
+      content: this.decryptValue(row.content),
+      createdAt: new Date(row.created_at),
+    }));
+  }
+
+  // Puts back the content of a revision. What it replaces becomes a revision
+  // in turn, so a rollback can itself be undone.
+  async restoreRevision(
+    entryId: number,
+    revisionId: number
+  ): Promise<ClipboardEntry | null> {
+    const row = this.db
+      .prepare('SELECT * FROM entry_revisions WHERE id = ? AND entry_id = ?')
+      .get(revisionId, entryId) as RevisionRow | undefined;
+    if (!row) return null;
+
+    return this.updateClipboardEntry(entryId, {
+      content: this.decryptValue(row.content),
+    });
+  }
+
+  async deleteClipboardEntry(id: number): Promise<boolean> {
+    const result = this.db
+      .prepare('DELETE FROM clipboard_entries WHERE id = ?')
+      .run(id);
+
+    if (result.changes > 0) {
+      this.unindexEntries([id]);
+      this.collectUnusedImages();
+      return true;
+    }
+    return false;
+  }
+
+  async pinClipboardEntry(id: number): Promise<ClipboardEntry | null> {
+    const result = this.db
+      .prepare(
+        `UPDATE clipboard_entries
+         SET is_pinned = 1 - is_pinned, updated_at = ?
+         WHERE id = ?`
+      )
+      .run(Date.now(), id);
+    if (result.changes === 0) return null;
+
+    return this.getEntryById(id);
+  }
+
+  async setTags(id: number, tags: string[]): Promise<ClipboardEntry | null> {
+    return this.updateClipboardEntry(id, { tags: normalizeTags(tags) });
+  }
+
+  // Every tag in use with the number of entries carrying it, most used first
+  listTags(): TagCount[] {
+    return this.countTags();
+  }
+
+  // Counts a paste or copy-back of the entry
+  async recordUsage(id: number): Promise<ClipboardEntry | null> {
+    const result = this.db
+      .prepare(
+        `UPDATE clipboard_entries
+         SET usage_count = usage_count + 1, last_used_at = ?
+         WHERE id = ?`
+      )
+      .run(Date.now(), id);
+    if (result.changes === 0) return null;
+    return this.getEntryById(id);
+  }
+
+  async favoriteClipboardEntry(id: number): Promise<ClipboardEntry | null> {
+    const result = this.db
+      .prepare(
+        `UPDATE clipboard_entries
+         SET is_favorite = 1 - is_favorite, updated_at = ?
+         WHERE id = ?`
+      )
+      .run(Date.now(), id);
+    if (result.changes === 0) return null;
+
+    return this.getEntryById(id);
+  }
+
+  async clearClipboardHistory(): Promise<boolean> {
+    const deleted = this.db
+      .prepare('DELETE FROM clipboard_entries WHERE is_pinned = 0 RETURNING id')
+      .all() as { id: number }[];
+    this.unindexEntries(deleted.map(({ id }) => id));
+    this.collectUnusedImages();
+
+    return deleted.length > 0;
+  }
+
+  // Count methods
+  getClipboardEntryCount(): number {
+    const row = this.db
+      .prepare('SELECT COUNT(*) AS count FROM clipboard_entries')
+      .get() as { count: number };
+    return row.count;
+  }
+
+  // Deletes non-pinned entries last copied before the cutoff
+  deleteEntriesOlderThan(cutoff: Date): number {
+    const deleted = this.db
+      .prepare(
+        'DELETE FROM clipboard_entries WHERE is_pinned = 0 AND last_copied_at < ? RETURNING id'
+      )
+      .all(cutoff.getTime()) as { id: number }[];
+    this.unindexEntries(deleted.map(({ id }) => id));
+    this.collectUnusedImages();
+    return deleted.length;
+  }
+
+  // Deletes entries whose expiry time has passed and returns them
+  deleteExpiredEntries(now: Date = new Date()): ClipboardEntry[] {
+    const rows = this.db
+      .prepare(
+        'DELETE FROM clipboard_entries WHERE expires_at <= ? RETURNING *'
+      )
+      .all(now.getTime()) as EntryRow[];
+    this.unindexEntries(rows.map(({ id }) => id));
+    this.collectUnusedImages();
+    return rows.map(row => this.fromRow(row));
+  }
+
+  getNextExpiry(): Date | null {
+    const row = this.db
+      .prepare(
+        'SELECT MIN(expires_at) AS expires_at FROM clipboard_entries WHERE expires_at IS NOT NULL'
+      )
+      .get() as { expires_at: number | null };
+    return row.expires_at !== null ? new Date(row.expires_at) : null;
+  }
+
+  // File paths still referenced by entries (e.g. saved images)
+  getReferencedFilePaths(): Set<string> {
+    const rows = this.db
+      .prepare(
+        'SELECT DISTINCT file_path FROM clipboard_entries WHERE file_path IS NOT NULL'
+      )
+      .all() as { file_path: string }[];
+    return new Set(rows.map(row => this.decryptValue(row.file_path)));
+  }
+
+  // Source apps of stored entries, most recently used first
+  getRecentAppNames(limit: number = 20): string[] {
+    const rows = this.db
+      .prepare(
+        `SELECT app_name FROM clipboard_entries
+         WHERE app_name IS NOT NULL AND app_name != 'Unknown App'
+         GROUP BY app_name
+         ORDER BY MAX(last_copied_at) DESC
+         LIMIT ?`
+      )
+      .all(limit) as { app_name: string }[];
+    return rows.map(row => row.app_name);
+  }
+
+  getNonPinnedEntryCount(): number {
+    const row = this.db
+      .prepare(
+        'SELECT COUNT(*) AS count FROM clipboard_entries WHERE is_pinned = 0'
+      )
+      .get() as { count: number };
+    return row.count;
+  }
+
+  getPinnedEntryCount(): number {
+    const row = this.db
+      .prepare(
+        'SELECT COUNT(*) AS count FROM clipboard_entries WHERE is_pinned = 1'
+      )
+      .get() as { count: number };
+    return row.count;
+  }
+
+  // Cleanup
+  close(): void {
+    if (!this.db.open) return;
+
+    if (this.backupInterval) {
+      clearInterval(this.backupInterval);
+      this.backupInterval = null;
+    }
+    this.stopSearchIndexBuild();
+
+    this.createBackup();
+    this.db.close();
+    console.log('💾 SQLite storage closed');
+  }
+}
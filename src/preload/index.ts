@@ -1,42 +1,21 @@
 import { contextBridge, ipcRenderer, IpcRendererEvent } from 'electron';
 import { isDev } from '../shared/constants';
-import { ClipboardEntry, GetHistoryOptions, Settings } from '../shared/types';
+import { ElectronAPI } from '../shared/electronAPI';
+import { createInvokeApi } from '../shared/ipc-contract';
+import {
+  CleanupReport,
+  ClipboardEntry,
+  PasteQueueState,
+} from '../shared/types';
 
-// Define the API that will be exposed to the renderer process
-const electronAPI = {
-  // Window management
-  window: {
-    show: () => ipcRenderer.invoke('window:show'),
-    hide: () => ipcRenderer.invoke('window:hide'),
-    toggle: () => ipcRenderer.invoke('window:toggle'),
-    closeAbout: () => ipcRenderer.invoke('window:closeAbout'),
-  },
-
-  // Clipboard operations
-  clipboard: {
-    getHistory: (options?: GetHistoryOptions) =>
-      ipcRenderer.invoke('clipboard:getHistory', options),
-    add: (entry: Omit<ClipboardEntry, 'id' | 'createdAt' | 'updatedAt'>) =>
-      ipcRenderer.invoke('clipboard:add', entry),
-    delete: (id: number) => ipcRenderer.invoke('clipboard:delete', id),
-    pin: (id: number) => ipcRenderer.invoke('clipboard:pin', id),
-    updateNote: (id: number, note: string) =>
-      ipcRenderer.invoke('clipboard:updateNote', id, note),
-    clear: () => ipcRenderer.invoke('clipboard:clear'),
-    paste: (entry: ClipboardEntry) =>
-      ipcRenderer.invoke('clipboard:paste', entry),
-    smartPaste: (entry: ClipboardEntry) =>
-      ipcRenderer.invoke('clipboard:smartPaste', entry),
-  },
+// Every invoke method comes from the channel registry
+const invokeApi = createInvokeApi((channel, ...args) =>
+  ipcRenderer.invoke(channel, ...args)
+);
 
-  // Settings management
-  settings: {
-    get: <K extends keyof Settings>(key?: K) =>
-      ipcRenderer.invoke('settings:get', key),
-    set: <K extends keyof Settings>(key: K, value: Settings[K]) =>
-      ipcRenderer.invoke('settings:set', key, value),
-    getAll: () => ipcRenderer.invoke('settings:getAll'),
-  },
+// Define the API that will be exposed to the renderer process
+const electronAPI: ElectronAPI = {
+  ...invokeApi,
 
   // Event listeners
   on: {
@@ -50,6 +29,46 @@ const electronAPI = {
         ipcRenderer.removeListener('clipboard:changed', subscription);
     },
 
+    entriesExpired: (callback: (ids: number[]) => void) => {
+      const subscription = (_event: IpcRendererEvent, ids: number[]) =>
+        callback(ids);
+      ipcRenderer.on('clipboard:expired', subscription);
+
+      // Return unsubscribe function
+      return () =>
+        ipcRenderer.removeListener('clipboard:expired', subscription);
+    },
+
+    entryUpdated: (callback: (entry: ClipboardEntry) => void) => {
+      const subscription = (_event: IpcRendererEvent, entry: ClipboardEntry) =>
+        callback(entry);
+      ipcRenderer.on('clipboard:updated', subscription);
+
+      // Return unsubscribe function
+      return () =>
+        ipcRenderer.removeListener('clipboard:updated', subscription);
+    },
+
+    historyCleaned: (callback: (report: CleanupReport) => void) => {
+      const subscription = (_event: IpcRendererEvent, report: CleanupReport) =>
+        callback(report);
+      ipcRenderer.on('clipboard:cleaned', subscription);
+
+      // Return unsubscribe function
+      return () =>
+        ipcRenderer.removeListener('clipboard:cleaned', subscription);
+    },
+
+    pasteQueueChanged: (callback: (state: PasteQueueState) => void) => {
+      const subscription = (_event: IpcRendererEvent, state: PasteQueueState) =>
+        callback(state);
+      ipcRenderer.on('pasteQueue:changed', subscription);
+
+      // Return unsubscribe function
+      return () =>
+        ipcRenderer.removeListener('pasteQueue:changed', subscription);
+    },
+
     settingsChanged: (callback: () => void) => {
       const subscription = (_event: IpcRendererEvent) => callback();
       ipcRenderer.on('show-settings', subscription);
@@ -59,15 +78,9 @@ const electronAPI = {
     },
   },
 
-  // Hotkey management
-  hotkey: {
-    register: (hotkey: string) => ipcRenderer.invoke('hotkey:register', hotkey),
-    getCurrent: () => ipcRenderer.invoke('hotkey:getCurrent'),
-  },
-
   // Utility functions
   utils: {
-    getVersion: () => ipcRenderer.invoke('utils:getVersion'),
+    ...invokeApi.utils,
     getPlatform: () => process.platform,
     isProduction: () => !isDev,
   },
@@ -75,6 +88,3 @@ const electronAPI = {
 
 // Expose the API to the renderer process
 contextBridge.exposeInMainWorld('electronAPI', electronAPI);
-
-// Type declaration for the exposed API
-export type ElectronAPI = typeof electronAPI;
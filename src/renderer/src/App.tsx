@@ -1,26 +1,141 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { HISTORY_SORT_OPTIONS } from '../../shared/constants';
 import '../../shared/electronAPI';
-import { ClipboardEntry } from '../../shared/types';
+import { PasteTransformId } from '../../shared/paste-transforms';
+import {
+  extractTextFromHTML,
+  extractTextFromRTF,
+} from '../../shared/text-extraction';
+import {
+  ClipboardEntry,
+  GetHistoryOptions,
+  HistoryCounts,
+  HistorySortBy,
+  PasteQueueState,
+  SnippetInput,
+  StorageRecoveryInfo,
+  TagMatchMode,
+} from '../../shared/types';
 import { About } from './components/About';
 import { CategoryFilter } from './components/CategoryFilter';
 import { ClipboardHistory } from './components/ClipboardHistory';
-import { Header } from './components/Header';
+import { EntryEditor } from './components/EntryEditor';
+import { Header, MainView } from './components/Header';
+import { PasteQueueBar } from './components/PasteQueueBar';
+import { RecoveryNotice } from './components/RecoveryNotice';
 import { SearchBar } from './components/SearchBar';
 import { Settings } from './components/Settings';
+import { SnippetEditor } from './components/SnippetEditor';
+import { SnippetsView } from './components/SnippetsView';
+import { UnlockPrompt } from './components/UnlockPrompt';
 import { useFontSize } from './hooks/useFontSize';
 import { useTheme } from './hooks/useTheme';
 
+const HISTORY_PAGE_SIZE = 50;
+
+// Adds an entry to, or takes it out of, the chip counts of the page query.
+// Only entries matching the current query may be passed.
+const adjustCounts = (
+  counts: HistoryCounts | null,
+  entry: ClipboardEntry,
+  delta: 1 | -1
+): HistoryCounts | null => {
+  if (!counts) return counts;
+
+  const categories = { ...counts.categories };
+  if (entry.category) {
+    const count = (categories[entry.category] || 0) + delta;
+    if (count > 0) {
+      categories[entry.category] = count;
+    } else {
+      delete categories[entry.category];
+    }
+  }
+
+  const tags = counts.tags
+    .map(tagCount =>
+      entry.tags.includes(tagCount.tag)
+        ? { ...tagCount, count: tagCount.count + delta }
+        : tagCount
+    )
+    .filter(({ count }) => count > 0);
+  if (delta > 0) {
+    entry.tags
+      .filter(tag => !counts.tags.some(tagCount => tagCount.tag === tag))
+      .forEach(tag => tags.push({ tag, count: 1 }));
+  }
+
+  return {
+    total: Math.max(0, counts.total + delta),
+    categories,
+    favorites: Math.max(0, counts.favorites + (entry.isFavorite ? delta : 0)),
+    tags: tags.sort((a, b) => b.count - a.count),
+  };
+};
+
 function App() {
   const [entries, setEntries] = useState<ClipboardEntry[]>([]);
-  const [filteredEntries, setFilteredEntries] = useState<ClipboardEntry[]>([]);
+  const [counts, setCounts] = useState<HistoryCounts | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [isReady, setIsReady] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedCategory, setSelectedCategory] = useState('all');
+  const [showFavorites, setShowFavorites] = useState(false);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [tagMatch, setTagMatch] = useState<TagMatchMode>('any');
+  const [sortBy, setSortBy] = useState<HistorySortBy>('created');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [isAboutOpen, setIsAboutOpen] = useState(false);
   const [selectedIndex, setSelectedIndex] = useState(0);
   const [autoCategories, setAutoCategories] = useState(true);
+  const [recoveryInfo, setRecoveryInfo] = useState<StorageRecoveryInfo | null>(
+    null
+  );
+  const [isLocked, setIsLocked] = useState(false);
+  const [view, setView] = useState<MainView>('history');
+  // Starting values of a snippet being saved from a history entry
+  const [snippetDraft, setSnippetDraft] =
+    useState<Partial<SnippetInput> | null>(null);
+  const [pasteQueue, setPasteQueue] = useState<PasteQueueState | null>(null);
+  const [editingEntry, setEditingEntry] = useState<ClipboardEntry | null>(null);
+
+  // Filtering, sorting and counting all happen in the main process
+  const historyQuery = useMemo<GetHistoryOptions>(
+    () => ({
+      searchQuery: searchQuery.trim() || undefined,
+      category: autoCategories ? selectedCategory : undefined,
+      favoritesOnly: showFavorites,
+      tags: selectedTags,
+      tagMatch,
+      sortBy,
+      limit: HISTORY_PAGE_SIZE,
+    }),
+    [
+      searchQuery,
+      selectedCategory,
+      autoCategories,
+      showFavorites,
+      selectedTags,
+      tagMatch,
+      sortBy,
+    ]
+  );
+  const isFiltered =
+    !!historyQuery.searchQuery ||
+    (!!historyQuery.category && historyQuery.category !== 'all') ||
+    showFavorites ||
+    selectedTags.length > 0;
+
+  // IPC listeners outlive renders, so they read the current query from a ref
+  const historyQueryRef = useRef(historyQuery);
+  historyQueryRef.current = historyQuery;
+  const isLiveInsertRef = useRef(false);
+  isLiveInsertRef.current = !isFiltered && sortBy === 'created';
+  // Ignores responses to queries that have since been replaced
+  const requestIdRef = useRef(0);
 
   // Initialize theme and font size management
   useTheme();
@@ -45,8 +160,11 @@ function App() {
 
     // Add a small delay to ensure electronAPI is ready
     const timer = setTimeout(() => {
-      loadClipboardHistory();
+      setIsReady(true);
       loadSettings();
+      loadRecoveryInfo();
+      loadEncryptionStatus();
+      loadPasteQueue();
     }, 100);
 
     // Listen for new clipboard entries
@@ -54,7 +172,64 @@ function App() {
 
     if (window.electronAPI?.on?.clipboardChanged) {
       unsubscribe = window.electronAPI.on.clipboardChanged(entry => {
-        setEntries(prev => [entry, ...prev]);
+        // Newest-first unfiltered lists take the entry at the top, others
+        // have to ask the main process where it belongs
+        if (!isLiveInsertRef.current) {
+          loadClipboardHistory();
+          return;
+        }
+
+        // A repeat copy moves an existing entry back to the top. It keeps its
+        // creation date, so only new entries add to the counts.
+        setEntries(prev => [
+          entry,
+          ...prev.filter(existing => existing.id !== entry.id),
+        ]);
+        if (
+          new Date(entry.createdAt).getTime() ===
+          new Date(entry.updatedAt).getTime()
+        ) {
+          setCounts(prev => adjustCounts(prev, entry, 1));
+        }
+      });
+    }
+
+    // Pastes update an entry's usage in place
+    let unsubscribeUpdated: (() => void) | undefined;
+
+    if (window.electronAPI?.on?.entryUpdated) {
+      unsubscribeUpdated = window.electronAPI.on.entryUpdated(entry => {
+        setEntries(prev =>
+          prev.map(existing => (existing.id === entry.id ? entry : existing))
+        );
+      });
+    }
+
+    // Reload as entries expire; they may not all be loaded, so the counts
+    // can't be adjusted in place
+    let unsubscribeExpired: (() => void) | undefined;
+
+    if (window.electronAPI?.on?.entriesExpired) {
+      unsubscribeExpired = window.electronAPI.on.entriesExpired(() => {
+        loadClipboardHistory();
+      });
+    }
+
+    // Reload after the retention job removes old entries
+    let unsubscribeCleaned: (() => void) | undefined;
+
+    if (window.electronAPI?.on?.historyCleaned) {
+      unsubscribeCleaned = window.electronAPI.on.historyCleaned(() => {
+        loadClipboardHistory();
+      });
+    }
+
+    // Follow the paste queue as entries are collected and pasted
+    let unsubscribeQueue: (() => void) | undefined;
+
+    if (window.electronAPI?.on?.pasteQueueChanged) {
+      unsubscribeQueue = window.electronAPI.on.pasteQueueChanged(state => {
+        setPasteQueue(state);
       });
     }
 
@@ -63,44 +238,60 @@ function App() {
       if (unsubscribe) {
         unsubscribe();
       }
+      if (unsubscribeQueue) {
+        unsubscribeQueue();
+      }
+      if (unsubscribeUpdated) {
+        unsubscribeUpdated();
+      }
+      if (unsubscribeExpired) {
+        unsubscribeExpired();
+      }
+      if (unsubscribeCleaned) {
+        unsubscribeCleaned();
+      }
     };
   }, []);
 
-  // Filter entries when search query or category changes
+  // Reload from the first page whenever the query changes
   useEffect(() => {
-    filterEntries();
-  }, [entries, searchQuery, selectedCategory, autoCategories]);
+    if (isReady) {
+      loadClipboardHistory();
+    }
+  }, [historyQuery, isReady]);
 
-  // Reset selected index when filtered entries change
+  // Reset selected index when a new listing is loaded
   useEffect(() => {
     setSelectedIndex(0);
-  }, [filteredEntries]);
+  }, [historyQuery]);
 
   // Keyboard navigation
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
       // Only handle keyboard navigation when not in about window and not in settings
       if (isAboutOpen || isSettingsOpen) return;
+      // The Snippets view handles its own keys
+      if (view !== 'history') return;
 
       switch (event.key) {
         case 'ArrowDown':
           event.preventDefault();
           setSelectedIndex(prev => {
-            if (filteredEntries.length === 0) return 0;
-            return prev < filteredEntries.length - 1 ? prev + 1 : 0; // Wrap to first item
+            if (entries.length === 0) return 0;
+            return prev < entries.length - 1 ? prev + 1 : 0; // Wrap to first item
           });
           break;
         case 'ArrowUp':
           event.preventDefault();
           setSelectedIndex(prev => {
-            if (filteredEntries.length === 0) return 0;
-            return prev > 0 ? prev - 1 : filteredEntries.length - 1; // Wrap to last item
+            if (entries.length === 0) return 0;
+            return prev > 0 ? prev - 1 : entries.length - 1; // Wrap to last item
           });
           break;
         case 'Enter':
           event.preventDefault();
-          if (filteredEntries[selectedIndex]) {
-            handleCopyToClipboard(filteredEntries[selectedIndex]);
+          if (entries[selectedIndex]) {
+            handleCopyToClipboard(entries[selectedIndex]);
           }
           break;
         case 'Escape':
@@ -115,7 +306,7 @@ function App() {
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [filteredEntries, selectedIndex, isAboutOpen, isSettingsOpen]);
+  }, [entries, selectedIndex, isAboutOpen, isSettingsOpen, view, pasteQueue]);
 
   // Load settings
   const loadSettings = async () => {
@@ -124,16 +315,91 @@ function App() {
         const autoCategoriesSetting =
           await window.electronAPI.settings.get('autoCategories');
         setAutoCategories(autoCategoriesSetting !== false); // Default to true
+
+        const sortBySetting = await window.electronAPI.settings.get('sortBy');
+        if (
+          HISTORY_SORT_OPTIONS.some(option => option.value === sortBySetting)
+        ) {
+          setSortBy(sortBySetting);
+        }
       }
     } catch (error) {
       console.error('Error loading settings:', error);
     }
   };
 
-  const loadClipboardHistory = async () => {
+  // Check whether storage had to be recovered at startup
+  const loadRecoveryInfo = async () => {
+    try {
+      if (window.electronAPI?.storage?.getRecoveryInfo) {
+        const info = await window.electronAPI.storage.getRecoveryInfo();
+        setRecoveryInfo(info || null);
+      }
+    } catch (error) {
+      console.error('Error loading storage recovery info:', error);
+    }
+  };
+
+  const handleDismissRecovery = async () => {
+    setRecoveryInfo(null);
     try {
-      setLoading(true);
+      await window.electronAPI.storage.dismissRecovery();
+    } catch (err) {
+      console.error('Error dismissing recovery notice:', err);
+    }
+  };
+
+  const loadEncryptionStatus = async () => {
+    try {
+      if (window.electronAPI?.encryption?.getStatus) {
+        const status = await window.electronAPI.encryption.getStatus();
+        setIsLocked(!!status?.locked);
+      }
+    } catch (error) {
+      console.error('Error loading encryption status:', error);
+    }
+  };
+
+  const loadPasteQueue = async () => {
+    try {
+      if (window.electronAPI?.pasteQueue?.getState) {
+        setPasteQueue((await window.electronAPI.pasteQueue.getState()) || null);
+      }
+    } catch (error) {
+      console.error('Error loading paste queue:', error);
+    }
+  };
+
+  const handleToggleCollecting = async () => {
+    try {
+      const state = pasteQueue?.isCollecting
+        ? await window.electronAPI.pasteQueue.stopCollecting()
+        : await window.electronAPI.pasteQueue.startCollecting();
+      setPasteQueue(state);
+    } catch (err) {
+      console.error('Error toggling paste queue collection:', err);
+    }
+  };
+
+  const handleUnlock = async (passphrase: string) => {
+    try {
+      const success = await window.electronAPI.encryption.unlock(passphrase);
+      if (success) {
+        setIsLocked(false);
+        loadClipboardHistory();
+      }
+      return success;
+    } catch (err) {
+      console.error('Error unlocking clipboard history:', err);
+      return false;
+    }
+  };
+
+  // Loads the first page of the current query along with the chip counts
+  const loadClipboardHistory = async () => {
+    const requestId = ++requestIdRef.current;
 
+    try {
       // Check if electronAPI is available
       if (!window.electronAPI) {
         console.error('electronAPI not available');
@@ -141,50 +407,70 @@ function App() {
         return;
       }
 
-      console.log('Loading clipboard history...');
-      const history = await window.electronAPI.clipboard.getHistory();
-      console.log('Loaded clipboard history:', history.length, 'entries');
-      setEntries(history);
+      const page = await window.electronAPI.clipboard.query(
+        historyQueryRef.current
+      );
+      if (requestId !== requestIdRef.current) return;
+
+      console.log('Loaded clipboard history:', page.entries.length, 'entries');
+      setEntries(page.entries);
+      setNextCursor(page.nextCursor);
+      setCounts(page.counts);
       setError(null);
     } catch (err) {
+      if (requestId !== requestIdRef.current) return;
       setError('Failed to load clipboard history');
       console.error('Error loading clipboard history:', err);
     } finally {
-      setLoading(false);
+      if (requestId === requestIdRef.current) {
+        setLoading(false);
+      }
     }
   };
 
-  const filterEntries = () => {
-    let filtered = entries;
+  const loadMoreHistory = async () => {
+    if (!nextCursor || isLoadingMore) return;
 
-    // Filter by category only if auto-categorization is enabled
-    if (autoCategories && selectedCategory !== 'all') {
-      filtered = filtered.filter(
-        entry =>
-          entry.category?.toLowerCase() === selectedCategory.toLowerCase()
-      );
+    const requestId = requestIdRef.current;
+    try {
+      setIsLoadingMore(true);
+      const page = await window.electronAPI.clipboard.query({
+        ...historyQueryRef.current,
+        cursor: nextCursor,
+      });
+      if (requestId !== requestIdRef.current) return;
+
+      setEntries(prev => {
+        const loadedIds = new Set(prev.map(entry => entry.id));
+        return [
+          ...prev,
+          ...page.entries.filter(entry => !loadedIds.has(entry.id)),
+        ];
+      });
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      console.error('Error loading more clipboard history:', err);
+    } finally {
+      setIsLoadingMore(false);
     }
+  };
 
-    // Filter by search query
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase();
-      filtered = filtered.filter(
-        entry =>
-          entry.content.toLowerCase().includes(query) ||
-          entry.preview?.toLowerCase().includes(query) ||
-          entry.category?.toLowerCase().includes(query) ||
-          entry.note?.toLowerCase().includes(query)
-      );
+  const handleSortChange = async (newSortBy: HistorySortBy) => {
+    setSortBy(newSortBy);
+    try {
+      await window.electronAPI.settings.set('sortBy', newSortBy);
+    } catch (err) {
+      console.error('Error saving sort order:', err);
     }
-
-    setFilteredEntries(filtered);
   };
 
   const handleDeleteEntry = async (id: number) => {
     try {
       const success = await window.electronAPI.clipboard.delete(id);
+      const deleted = entries.find(entry => entry.id === id);
       if (success) {
         setEntries(prev => prev.filter(entry => entry.id !== id));
+        if (deleted) setCounts(prev => adjustCounts(prev, deleted, -1));
       }
     } catch (err) {
       console.error('Error deleting entry:', err);
@@ -204,6 +490,19 @@ function App() {
     }
   };
 
+  const handleFavoriteEntry = async (id: number) => {
+    try {
+      const updatedEntry = await window.electronAPI.clipboard.favorite(id);
+      if (updatedEntry) {
+        setEntries(prev =>
+          prev.map(entry => (entry.id === id ? updatedEntry : entry))
+        );
+      }
+    } catch (err) {
+      console.error('Error favoriting entry:', err);
+    }
+  };
+
   const handleUpdateNote = async (id: number, note: string) => {
     try {
       const updatedEntry = await window.electronAPI.clipboard.updateNote(
@@ -220,11 +519,47 @@ function App() {
     }
   };
 
+  // Keeps the list in step with edits made in the entry editor
+  const handleEntryEdited = (updatedEntry: ClipboardEntry) => {
+    setEntries(prev =>
+      prev.map(entry => (entry.id === updatedEntry.id ? updatedEntry : entry))
+    );
+  };
+
+  const handleSetTags = async (id: number, tags: string[]) => {
+    try {
+      const updatedEntry = await window.electronAPI.clipboard.setTags(id, tags);
+      if (updatedEntry) {
+        setEntries(prev =>
+          prev.map(entry => (entry.id === id ? updatedEntry : entry))
+        );
+      }
+    } catch (err) {
+      console.error('Error setting tags:', err);
+    }
+  };
+
+  const handleSetExpiry = async (id: number, expiresAt: Date | null) => {
+    try {
+      const updatedEntry = await window.electronAPI.clipboard.setExpiry(
+        id,
+        expiresAt
+      );
+      if (updatedEntry) {
+        setEntries(prev =>
+          prev.map(entry => (entry.id === id ? updatedEntry : entry))
+        );
+      }
+    } catch (err) {
+      console.error('Error setting expiry:', err);
+    }
+  };
+
   const handleClearHistory = async () => {
     try {
       const success = await window.electronAPI.clipboard.clear();
       if (success) {
-        setEntries(prev => prev.filter(entry => entry.isPinned));
+        loadClipboardHistory();
       }
     } catch (err) {
       console.error('Error clearing history:', err);
@@ -232,6 +567,16 @@ function App() {
   };
 
   const handleCopyToClipboard = async (entry: ClipboardEntry) => {
+    // While collecting, picking an entry queues it instead of pasting it
+    if (pasteQueue?.isCollecting) {
+      try {
+        setPasteQueue(await window.electronAPI.pasteQueue.add(entry));
+      } catch (err) {
+        console.error('Failed to queue entry:', err);
+      }
+      return;
+    }
+
     try {
       // Use smart paste to automatically paste to the target app
       await window.electronAPI.clipboard.smartPaste(entry);
@@ -261,6 +606,30 @@ function App() {
     }
   };
 
+  const handlePasteAs = async (
+    entry: ClipboardEntry,
+    transforms: PasteTransformId[]
+  ) => {
+    try {
+      await window.electronAPI.clipboard.pasteAs(entry, transforms);
+    } catch (err) {
+      console.error('Failed to paste with transforms:', err);
+    }
+  };
+
+  // Snippets are plain text, so rich entries are saved as their text
+  const handleSaveAsSnippet = (entry: ClipboardEntry) => {
+    let content = entry.content;
+    if (entry.format === 'html') content = extractTextFromHTML(entry.content);
+    if (entry.format === 'rtf') content = extractTextFromRTF(entry.content);
+
+    const firstLine = content.trim().split('\n')[0];
+    setSnippetDraft({
+      name: entry.note || firstLine.slice(0, 40),
+      content,
+    });
+  };
+
   const handleOpenSettings = () => {
     setIsSettingsOpen(true);
   };
@@ -336,46 +705,104 @@ function App() {
       <Header
         onClearHistory={handleClearHistory}
         onOpenSettings={handleOpenSettings}
+        sortBy={sortBy}
+        onSortChange={handleSortChange}
+        view={view}
+        onViewChange={setView}
+        isCollecting={!!pasteQueue?.isCollecting}
+        onToggleCollecting={handleToggleCollecting}
       />
 
       <div className="flex-1 p-4 space-y-4 overflow-hidden flex flex-col">
-        <SearchBar
-          value={searchQuery}
-          onChange={setSearchQuery}
-          placeholder="Search clipboard history..."
-        />
-
-        {autoCategories && (
-          <CategoryFilter
-            selectedCategory={selectedCategory}
-            onCategoryChange={setSelectedCategory}
-            entries={entries}
+        {recoveryInfo && (
+          <RecoveryNotice
+            recoveryInfo={recoveryInfo}
+            onDismiss={handleDismissRecovery}
           />
         )}
 
-        <div className="flex-1 overflow-hidden">
-          <ClipboardHistory
-            entries={filteredEntries}
-            onDeleteEntry={handleDeleteEntry}
-            onPinEntry={handlePinEntry}
-            onCopyToClipboard={handleCopyToClipboard}
-            onUpdateNote={handleUpdateNote}
-            selectedIndex={selectedIndex}
-          />
-
-          {filteredEntries.length === 0 && entries.length > 0 && (
-            <div className="text-center py-8 text-light-text-secondary dark:text-dark-text-secondary">
-              No entries match your search criteria
+        {isLocked ? (
+          <UnlockPrompt onUnlock={handleUnlock} />
+        ) : view === 'snippets' ? (
+          <SnippetsView />
+        ) : (
+          <>
+            {pasteQueue &&
+              (pasteQueue.isCollecting || pasteQueue.entries.length > 0) && (
+                <PasteQueueBar state={pasteQueue} />
+              )}
+
+            <SearchBar
+              value={searchQuery}
+              onChange={setSearchQuery}
+              placeholder="Search clipboard history..."
+            />
+
+            <CategoryFilter
+              showCategories={autoCategories}
+              selectedCategory={selectedCategory}
+              onCategoryChange={setSelectedCategory}
+              counts={counts}
+              showFavorites={showFavorites}
+              onShowFavoritesChange={setShowFavorites}
+              selectedTags={selectedTags}
+              onTagsChange={setSelectedTags}
+              tagMatch={tagMatch}
+              onTagMatchChange={setTagMatch}
+            />
+
+            <div className="flex-1 overflow-hidden">
+              <ClipboardHistory
+                entries={entries}
+                highlightQuery={searchQuery}
+                hasMore={!!nextCursor}
+                isLoadingMore={isLoadingMore}
+                onLoadMore={loadMoreHistory}
+                onDeleteEntry={handleDeleteEntry}
+                onPinEntry={handlePinEntry}
+                onFavoriteEntry={handleFavoriteEntry}
+                onCopyToClipboard={handleCopyToClipboard}
+                onUpdateNote={handleUpdateNote}
+                onSetExpiry={handleSetExpiry}
+                onSetTags={handleSetTags}
+                onSaveAsSnippet={handleSaveAsSnippet}
+                onEditEntry={setEditingEntry}
+                onPasteAs={handlePasteAs}
+                selectedIndex={selectedIndex}
+              />
+
+              {entries.length === 0 && isFiltered && (
+                <div className="text-center py-8 text-light-text-secondary dark:text-dark-text-secondary">
+                  No entries match your search criteria
+                </div>
+              )}
+
+              {entries.length === 0 && !isFiltered && (
+                <div className="text-center py-8 text-light-text-secondary dark:text-dark-text-secondary">
+                  <p className="text-lg mb-2">No clipboard history yet</p>
+                  <p className="text-sm">Copy something to get started!</p>
+                </div>
+              )}
             </div>
-          )}
+          </>
+        )}
 
-          {entries.length === 0 && (
-            <div className="text-center py-8 text-light-text-secondary dark:text-dark-text-secondary">
-              <p className="text-lg mb-2">No clipboard history yet</p>
-              <p className="text-sm">Copy something to get started!</p>
-            </div>
-          )}
-        </div>
+        {editingEntry && (
+          <EntryEditor
+            entry={editingEntry}
+            onUpdated={handleEntryEdited}
+            onPaste={handleCopyToClipboard}
+            onClose={() => setEditingEntry(null)}
+          />
+        )}
+
+        {snippetDraft && (
+          <SnippetEditor
+            initialValues={snippetDraft}
+            onSaved={() => setSnippetDraft(null)}
+            onClose={() => setSnippetDraft(null)}
+          />
+        )}
 
         {/* Settings Modal */}
         <Settings isOpen={isSettingsOpen} onClose={handleCloseSettings} />
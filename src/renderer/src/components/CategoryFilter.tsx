@@ -1,27 +1,68 @@
 import React from 'react';
-import { ClipboardEntry } from '../../../shared/types';
+import { HistoryCounts, TagMatchMode } from '../../../shared/types';
 
 interface CategoryFilterProps {
+  // Off when auto-categorization is, leaving the favorites and tag chips
+  showCategories?: boolean;
   selectedCategory: string;
   onCategoryChange: (category: string) => void;
-  entries: ClipboardEntry[];
+  // Matches for the current search, counted by the main process
+  counts: HistoryCounts | null;
+  showFavorites?: boolean;
+  onShowFavoritesChange?: (showFavorites: boolean) => void;
+  selectedTags?: string[];
+  onTagsChange?: (tags: string[]) => void;
+  tagMatch?: TagMatchMode;
+  onTagMatchChange?: (tagMatch: TagMatchMode) => void;
 }
 
 export const CategoryFilter: React.FC<CategoryFilterProps> = ({
+  showCategories = true,
   selectedCategory,
   onCategoryChange,
-  entries,
+  counts,
+  showFavorites = false,
+  onShowFavoritesChange,
+  selectedTags = [],
+  onTagsChange,
+  tagMatch = 'any',
+  onTagMatchChange,
 }) => {
-  // Get unique categories from entries
+  // Categories with matches, plus the selected one so it can be unselected
   const categories = React.useMemo(() => {
-    const categorySet = new Set<string>();
-    entries.forEach(entry => {
-      if (entry.category) {
-        categorySet.add(entry.category);
+    const names = new Set(Object.keys(counts?.categories || {}));
+    if (selectedCategory !== 'all') {
+      names.add(selectedCategory);
+    }
+    return Array.from(names).sort();
+  }, [counts, selectedCategory]);
+
+  // Tags in use with their entry counts, most used first. Selected tags stay
+  // visible even when nothing in the current search carries them.
+  const tagCounts = React.useMemo(() => {
+    const tags = (counts?.tags || []).map(
+      ({ tag, count }) => [tag, count] as [string, number]
+    );
+    selectedTags.forEach(selected => {
+      if (!tags.some(([tag]) => tag.toLowerCase() === selected.toLowerCase())) {
+        tags.push([selected, 0]);
       }
     });
-    return Array.from(categorySet).sort();
-  }, [entries]);
+    return tags;
+  }, [counts, selectedTags]);
+
+  const isTagSelected = (tag: string) =>
+    selectedTags.some(selected => selected.toLowerCase() === tag.toLowerCase());
+
+  const toggleTag = (tag: string) => {
+    onTagsChange?.(
+      isTagSelected(tag)
+        ? selectedTags.filter(
+            selected => selected.toLowerCase() !== tag.toLowerCase()
+          )
+        : [...selectedTags, tag]
+    );
+  };
 
   const getCategoryIcon = (category: string) => {
     switch (category.toLowerCase()) {
@@ -48,42 +89,89 @@ export const CategoryFilter: React.FC<CategoryFilterProps> = ({
 
   const getCategoryCount = (category: string) => {
     if (category === 'all') {
-      return entries.length;
+      return counts?.total || 0;
     }
-    return entries.filter(entry => entry.category === category).length;
+    return counts?.categories[category] || 0;
   };
 
   return (
     <div className="flex flex-wrap gap-2">
-      <button
-        onClick={() => onCategoryChange('all')}
-        className={`px-3 py-1.5 rounded-full text-sm font-medium transition-colors ${
-          selectedCategory === 'all'
-            ? 'bg-primary-500 text-white'
-            : 'bg-light-bg-secondary dark:bg-dark-bg-secondary text-light-text-secondary dark:text-dark-text-secondary hover:bg-light-bg-tertiary dark:hover:bg-dark-bg-tertiary'
-        }`}
-      >
-        All ({getCategoryCount('all')})
-      </button>
+      {showCategories && (
+        <button
+          onClick={() => onCategoryChange('all')}
+          className={`px-3 py-1.5 rounded-full text-sm font-medium transition-colors ${
+            selectedCategory === 'all'
+              ? 'bg-primary-500 text-white'
+              : 'bg-light-bg-secondary dark:bg-dark-bg-secondary text-light-text-secondary dark:text-dark-text-secondary hover:bg-light-bg-tertiary dark:hover:bg-dark-bg-tertiary'
+          }`}
+        >
+          All ({getCategoryCount('all')})
+        </button>
+      )}
 
-      {categories.map(category => (
+      {onShowFavoritesChange && (
         <button
-          key={category}
-          onClick={() => onCategoryChange(category)}
+          onClick={() => onShowFavoritesChange(!showFavorites)}
           className={`px-3 py-1.5 rounded-full text-sm font-medium transition-colors flex items-center space-x-1 ${
-            selectedCategory === category
-              ? 'bg-primary-500 text-white'
+            showFavorites
+              ? 'bg-amber-500 text-white'
               : 'bg-light-bg-secondary dark:bg-dark-bg-secondary text-light-text-secondary dark:text-dark-text-secondary hover:bg-light-bg-tertiary dark:hover:bg-dark-bg-tertiary'
           }`}
         >
-          <span>{getCategoryIcon(category)}</span>
-          <span>
-            {category} ({getCategoryCount(category)})
-          </span>
+          <span>⭐</span>
+          <span>Favorites ({counts?.favorites || 0})</span>
+        </button>
+      )}
+
+      {showCategories &&
+        categories.map(category => (
+          <button
+            key={category}
+            onClick={() => onCategoryChange(category)}
+            className={`px-3 py-1.5 rounded-full text-sm font-medium transition-colors flex items-center space-x-1 ${
+              selectedCategory === category
+                ? 'bg-primary-500 text-white'
+                : 'bg-light-bg-secondary dark:bg-dark-bg-secondary text-light-text-secondary dark:text-dark-text-secondary hover:bg-light-bg-tertiary dark:hover:bg-dark-bg-tertiary'
+            }`}
+          >
+            <span>{getCategoryIcon(category)}</span>
+            <span>
+              {category} ({getCategoryCount(category)})
+            </span>
+          </button>
+        ))}
+
+      {onTagsChange &&
+        tagCounts.map(([tag, count]) => (
+          <button
+            key={`tag-${tag}`}
+            onClick={() => toggleTag(tag)}
+            className={`px-3 py-1.5 rounded-full text-sm font-medium transition-colors ${
+              isTagSelected(tag)
+                ? 'bg-primary-500 text-white'
+                : 'bg-primary-50 dark:bg-primary-900/30 text-primary-700 dark:text-primary-300 hover:bg-primary-100 dark:hover:bg-primary-900/50'
+            }`}
+            title={
+              isTagSelected(tag)
+                ? `Stop filtering by #${tag}`
+                : `Filter by #${tag}`
+            }
+          >
+            #{tag} ({count})
+          </button>
+        ))}
+
+      {onTagMatchChange && selectedTags.length > 1 && (
+        <button
+          onClick={() => onTagMatchChange(tagMatch === 'all' ? 'any' : 'all')}
+          className="px-3 py-1.5 rounded-full text-sm font-medium border border-light-border dark:border-dark-border text-light-text-secondary dark:text-dark-text-secondary hover:bg-light-bg-tertiary dark:hover:bg-dark-bg-tertiary transition-colors"
+          title="Switch between entries with all selected tags and entries with any of them"
+        >
+          {tagMatch === 'all' ? 'Match all tags' : 'Match any tag'}
         </button>
-      ))}
+      )}
 
-      {categories.length === 0 && entries.length > 0 && (
+      {showCategories && categories.length === 0 && !!counts?.total && (
         <div className="text-light-text-secondary dark:text-dark-text-secondary text-sm">
           No categories yet
         </div>
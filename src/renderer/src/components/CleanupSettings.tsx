@@ -0,0 +1,108 @@
+import { useEffect, useState } from 'react';
+import { CleanupReport, Settings } from '../../../shared/types';
+
+interface CleanupSettingsProps {
+  autoCleanup: boolean;
+  cleanupDays: number;
+  onUpdate: <K extends 'autoCleanup' | 'cleanupDays'>(
+    key: K,
+    value: Settings[K]
+  ) => void;
+}
+
+const formatReport = (report: CleanupReport) =>
+  `Last cleanup ${new Date(report.ranAt).toLocaleString()}: removed ${
+    report.deletedEntries
+  } ${report.deletedEntries === 1 ? 'entry' : 'entries'} and ${
+    report.deletedFiles
+  } image ${report.deletedFiles === 1 ? 'file' : 'files'} (${Math.round(
+    report.freedBytes / 1024
+  )}KB)`;
+
+export function CleanupSettings({
+  autoCleanup,
+  cleanupDays,
+  onUpdate,
+}: CleanupSettingsProps) {
+  const [lastReport, setLastReport] = useState<CleanupReport | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  useEffect(() => {
+    loadLastReport();
+  }, []);
+
+  const loadLastReport = async () => {
+    try {
+      const report = await window.electronAPI.cleanup.getLastReport();
+      setLastReport(report);
+    } catch (error) {
+      console.error('Failed to load cleanup report:', error);
+    }
+  };
+
+  const handleRunNow = async () => {
+    try {
+      setIsRunning(true);
+      const report = await window.electronAPI.cleanup.run();
+      setLastReport(report);
+    } catch (error) {
+      console.error('Failed to run cleanup:', error);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <div>
+          <label className="text-sm font-medium text-light-text-primary dark:text-dark-text-primary">
+            Auto cleanup
+          </label>
+          <p className="text-sm text-light-text-secondary dark:text-dark-text-secondary">
+            Daily, remove unpinned items older than {cleanupDays} days
+          </p>
+        </div>
+        <input
+          type="checkbox"
+          checked={autoCleanup}
+          onChange={e => onUpdate('autoCleanup', e.target.checked)}
+          className="w-4 h-4 text-primary-600 bg-gray-100 border-gray-300 rounded focus:ring-primary-500"
+        />
+      </div>
+
+      <div className="flex items-center space-x-3">
+        <input
+          type="number"
+          min="1"
+          max="365"
+          value={cleanupDays}
+          disabled={!autoCleanup}
+          onChange={e => {
+            const days = parseInt(e.target.value);
+            if (days >= 1 && days <= 365) {
+              onUpdate('cleanupDays', days);
+            }
+          }}
+          className="w-20 px-3 py-1 border border-light-border dark:border-dark-border rounded-md bg-light-bg-secondary dark:bg-dark-bg-secondary text-light-text-primary dark:text-dark-text-primary disabled:opacity-50"
+        />
+        <span className="text-sm text-light-text-secondary dark:text-dark-text-secondary">
+          days
+        </span>
+        <button
+          onClick={handleRunNow}
+          disabled={isRunning}
+          className="ml-auto px-3 py-1 text-sm bg-gray-500 text-white rounded-md hover:bg-gray-600 transition-colors disabled:opacity-50"
+        >
+          {isRunning ? 'Cleaning...' : 'Clean up now'}
+        </button>
+      </div>
+
+      {lastReport && (
+        <p className="text-xs text-light-text-secondary dark:text-dark-text-secondary">
+          {formatReport(lastReport)}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,30 +1,100 @@
 import React, { useEffect, useRef, useState } from 'react';
+import { getRepresentationLabels } from '../../../shared/clipboard-formats';
+import {
+  EDITABLE_FORMATS,
+  SENSITIVE_DATA_RULES,
+} from '../../../shared/constants';
+import { getThumbnailUrl } from '../../../shared/image-urls';
+import {
+  getPasteTransformsFor,
+  PasteTransformId,
+} from '../../../shared/paste-transforms';
+import { getQueryHighlightRanges } from '../../../shared/search-query';
 import { ClipboardEntry } from '../../../shared/types';
+import { PasteAsMenu } from './PasteAsMenu';
+import { TagEditor } from './TagEditor';
 
 interface ClipboardEntryCardProps {
   entry: ClipboardEntry;
   onDelete: (id: number) => void;
   onPin: (id: number) => void;
+  onFavorite?: (id: number) => void;
   onCopy: (entry: ClipboardEntry) => void;
   onUpdateNote: (id: number, note: string) => void;
+  onSetExpiry?: (id: number, expiresAt: Date | null) => void;
+  onSetTags?: (id: number, tags: string[]) => void;
+  onSaveAsSnippet?: (entry: ClipboardEntry) => void;
+  onEdit?: (entry: ClipboardEntry) => void;
+  // Offered in the card's context menu, for entries with text
+  onPasteAs?: (entry: ClipboardEntry, transforms: PasteTransformId[]) => void;
   isSelected?: boolean;
   dataIndex?: number;
+  // Search whose matched characters are highlighted in the preview
+  highlightQuery?: string;
 }
 
+const EXPIRY_OPTIONS = [
+  { label: 'Expire in 2 minutes', ms: 2 * 60 * 1000 },
+  { label: 'Expire in 10 minutes', ms: 10 * 60 * 1000 },
+  { label: 'Expire in 1 hour', ms: 60 * 60 * 1000 },
+  { label: 'Expire in 1 day', ms: 24 * 60 * 60 * 1000 },
+];
+
+// Copied files listed on the card, the rest are counted
+const MAX_LISTED_FILES = 3;
+
+const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const formatTimeLeft = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
 export const ClipboardEntryCard: React.FC<ClipboardEntryCardProps> = ({
   entry,
   onDelete,
   onPin,
+  onFavorite,
   onCopy,
   onUpdateNote,
+  onSetExpiry,
+  onSetTags,
+  onSaveAsSnippet,
+  onEdit,
+  onPasteAs,
   isSelected = false,
   dataIndex,
+  highlightQuery,
 }) => {
   const [isNoteModalOpen, setIsNoteModalOpen] = useState(false);
   const [noteText, setNoteText] = useState(entry.note || '');
   const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [isRevealed, setIsRevealed] = useState(false);
+  const [isTagEditorOpen, setIsTagEditorOpen] = useState(false);
+  const [pasteAsMenu, setPasteAsMenu] = useState<{
+    x: number;
+    y: number;
+  } | null>(null);
+  const [now, setNow] = useState(Date.now());
   const menuRef = useRef<HTMLDivElement>(null);
 
+  // Tick the countdown while the entry is set to expire
+  useEffect(() => {
+    if (!entry.expiresAt) return;
+
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [entry.expiresAt]);
+
   // Close menu when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -66,16 +136,41 @@ export const ClipboardEntryCard: React.FC<ClipboardEntryCardProps> = ({
     }
   };
 
+  const highlightMatches = (text: string): React.ReactNode => {
+    const ranges = highlightQuery
+      ? getQueryHighlightRanges(highlightQuery, text)
+      : [];
+    if (ranges.length === 0) return text;
+
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+    ranges.forEach(({ start, end }) => {
+      parts.push(text.slice(cursor, start));
+      parts.push(
+        <mark
+          key={start}
+          className="bg-yellow-200 dark:bg-yellow-600/50 text-inherit rounded-sm"
+        >
+          {text.slice(start, end)}
+        </mark>
+      );
+      cursor = end;
+    });
+    parts.push(text.slice(cursor));
+    return parts;
+  };
+
   const getContentPreview = () => {
     if (entry.format === 'image') {
-      // Check if content is base64 data URL
-      if (entry.content && entry.content.startsWith('data:image/')) {
+      const thumbnailUrl = getThumbnailUrl(entry.content);
+      if (thumbnailUrl) {
         return (
           <div className="flex items-center space-x-2">
             <img
-              src={entry.content}
+              src={thumbnailUrl}
               alt="Clipboard image"
-              className="w-12 h-12 object-cover rounded border border-light-border dark:border-dark-border"
+              loading="lazy"
+              className="w-12 h-12 object-contain rounded border border-light-border dark:border-dark-border"
               onError={e => {
                 // Fallback to text if image fails to load
                 const target = e.target as HTMLImageElement;
@@ -94,22 +189,59 @@ export const ClipboardEntryCard: React.FC<ClipboardEntryCardProps> = ({
     }
 
     if (entry.format === 'file') {
-      return '[File]';
+      const files = entry.files || [];
+      if (files.length === 0) {
+        return highlightMatches(entry.preview || '[File]');
+      }
+      return (
+        <div className="space-y-0.5 text-sm">
+          {files.slice(0, MAX_LISTED_FILES).map(file => (
+            <div
+              key={file.path}
+              className="flex items-center space-x-2"
+              title={file.path}
+            >
+              {file.icon ? (
+                <img src={file.icon} alt="" className="w-4 h-4 flex-shrink-0" />
+              ) : (
+                <span className="flex-shrink-0">
+                  {file.isDirectory ? '📁' : '📄'}
+                </span>
+              )}
+              <span className="truncate">{highlightMatches(file.name)}</span>
+              {file.size !== undefined && (
+                <span className="flex-shrink-0 text-xs text-light-text-secondary dark:text-dark-text-secondary">
+                  {formatFileSize(file.size)}
+                </span>
+              )}
+            </div>
+          ))}
+          {files.length > MAX_LISTED_FILES && (
+            <div className="text-xs text-light-text-secondary dark:text-dark-text-secondary">
+              +{files.length - MAX_LISTED_FILES} more
+            </div>
+          )}
+        </div>
+      );
     }
 
     if (entry.format === 'html') {
       return (
-        <div className="text-sm">{entry.preview || '[Rich HTML Content]'}</div>
+        <div className="text-sm">
+          {highlightMatches(entry.preview || '[Rich HTML Content]')}
+        </div>
       );
     }
 
     if (entry.format === 'rtf') {
       return (
-        <div className="text-sm">{entry.preview || '[Rich RTF Content]'}</div>
+        <div className="text-sm">
+          {highlightMatches(entry.preview || '[Rich RTF Content]')}
+        </div>
       );
     }
 
-    return entry.preview || entry.content;
+    return highlightMatches(entry.preview || entry.content);
   };
 
   const handleSaveNote = (e: React.MouseEvent) => {
@@ -130,16 +262,25 @@ export const ClipboardEntryCard: React.FC<ClipboardEntryCardProps> = ({
   };
 
   // Download functions
-  const downloadAsImage = (format: 'png' | 'jpg') => {
-    if (entry.format === 'image' && entry.content.startsWith('data:image/')) {
+  const downloadAsImage = async (format: 'png' | 'jpg') => {
+    setIsMenuOpen(false);
+    if (entry.format !== 'image' || !getThumbnailUrl(entry.content)) return;
+
+    try {
+      // Stored images are fetched from the image store
+      const url = entry.content.startsWith('data:image/')
+        ? entry.content
+        : URL.createObjectURL(await (await fetch(entry.content)).blob());
       const link = document.createElement('a');
-      link.href = entry.content;
+      link.href = url;
       link.download = `clipboard-image-${Date.now()}.${format}`;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
+      if (url !== entry.content) URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to download image:', error);
     }
-    setIsMenuOpen(false);
   };
 
   const downloadAsText = () => {
@@ -339,6 +480,11 @@ export const ClipboardEntryCard: React.FC<ClipboardEntryCardProps> = ({
     setIsMenuOpen(false);
   };
 
+  const handleSetExpiry = (expiresAt: Date | null) => {
+    onSetExpiry?.(entry.id, expiresAt);
+    setIsMenuOpen(false);
+  };
+
   const getDownloadOptions = () => {
     const category = entry.category?.toLowerCase();
     const format = entry.format;
@@ -408,6 +554,8 @@ export const ClipboardEntryCard: React.FC<ClipboardEntryCardProps> = ({
     ];
   };
 
+  const pasteTransforms = getPasteTransformsFor(entry);
+
   return (
     <div
       className={`bg-light-bg-secondary dark:bg-dark-bg-secondary border rounded-lg p-2 transition-all duration-200 group cursor-pointer ${
@@ -416,6 +564,11 @@ export const ClipboardEntryCard: React.FC<ClipboardEntryCardProps> = ({
           : 'border-light-border dark:border-dark-border hover:bg-light-bg-tertiary dark:hover:bg-dark-bg-tertiary hover:border-primary-300 dark:hover:border-primary-700'
       }`}
       onClick={() => onCopy(entry)}
+      onContextMenu={e => {
+        if (!onPasteAs || pasteTransforms.length === 0) return;
+        e.preventDefault();
+        setPasteAsMenu({ x: e.clientX, y: e.clientY });
+      }}
       data-index={dataIndex}
     >
       {/* Header */}
@@ -426,6 +579,35 @@ export const ClipboardEntryCard: React.FC<ClipboardEntryCardProps> = ({
             {entry.category || 'Uncategorized'}
           </span>
           {entry.isPinned && <span className="text-xs">��</span>}
+          {entry.isFavorite && <span className="text-xs">⭐</span>}
+          {entry.representations && (
+            <span
+              className="text-[10px] text-light-text-tertiary dark:text-dark-text-tertiary"
+              title={`Pastes as ${getRepresentationLabels(entry.representations).join(', ')}`}
+            >
+              🗂️ {getRepresentationLabels(entry.representations).length}
+            </span>
+          )}
+          {entry.sensitiveType && (
+            <span
+              className="px-1.5 py-0.5 text-[10px] font-medium rounded bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300"
+              title={`Contains a ${(
+                SENSITIVE_DATA_RULES.find(
+                  rule => rule.id === entry.sensitiveType
+                )?.name || 'secret'
+              ).toLowerCase()}`}
+            >
+              sensitive
+            </span>
+          )}
+          {entry.expiresAt && (
+            <span
+              className="text-[10px] font-medium text-amber-600 dark:text-amber-400"
+              title={`Deleted at ${new Date(entry.expiresAt).toLocaleTimeString()}`}
+            >
+              ⏳ {formatTimeLeft(new Date(entry.expiresAt).getTime() - now)}
+            </span>
+          )}
         </div>
 
         <div className="flex items-center space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
@@ -437,6 +619,19 @@ export const ClipboardEntryCard: React.FC<ClipboardEntryCardProps> = ({
             {entry.note ? '📝' : '📄'}
           </button>
 
+          {onSetTags && (
+            <button
+              onClick={e => {
+                e.stopPropagation();
+                setIsTagEditorOpen(!isTagEditorOpen);
+              }}
+              className="p-1 hover:bg-light-bg-primary dark:hover:bg-dark-bg-primary rounded text-xs"
+              title="Edit tags"
+            >
+              🏷️
+            </button>
+          )}
+
           <button
             onClick={e => {
               e.stopPropagation();
@@ -448,6 +643,21 @@ export const ClipboardEntryCard: React.FC<ClipboardEntryCardProps> = ({
             {entry.isPinned ? '📌' : '📍'}
           </button>
 
+          {onFavorite && (
+            <button
+              onClick={e => {
+                e.stopPropagation();
+                onFavorite(entry.id);
+              }}
+              className="p-1 hover:bg-light-bg-primary dark:hover:bg-dark-bg-primary rounded text-xs"
+              title={
+                entry.isFavorite ? 'Remove from favorites' : 'Add to favorites'
+              }
+            >
+              {entry.isFavorite ? '⭐' : '☆'}
+            </button>
+          )}
+
           <button
             onClick={e => {
               e.stopPropagation();
@@ -467,7 +677,7 @@ export const ClipboardEntryCard: React.FC<ClipboardEntryCardProps> = ({
                 setIsMenuOpen(!isMenuOpen);
               }}
               className="p-1 hover:bg-light-bg-primary dark:hover:bg-dark-bg-primary rounded text-xs"
-              title="Download options"
+              title="More options"
             >
               ⋯
             </button>
@@ -487,6 +697,70 @@ export const ClipboardEntryCard: React.FC<ClipboardEntryCardProps> = ({
                     <span>{option.label}</span>
                   </button>
                 ))}
+
+                {onEdit && EDITABLE_FORMATS.includes(entry.format) && (
+                  <div className="border-t border-light-border dark:border-dark-border">
+                    <button
+                      onClick={e => {
+                        e.stopPropagation();
+                        onEdit(entry);
+                        setIsMenuOpen(false);
+                      }}
+                      className="w-full px-3 py-2 text-left text-sm hover:bg-light-bg-secondary dark:hover:bg-dark-bg-secondary flex items-center space-x-2 last:rounded-b-lg"
+                    >
+                      <span>✏️</span>
+                      <span>Edit</span>
+                    </button>
+                  </div>
+                )}
+
+                {onSaveAsSnippet &&
+                  entry.format !== 'image' &&
+                  entry.format !== 'file' && (
+                    <div className="border-t border-light-border dark:border-dark-border">
+                      <button
+                        onClick={e => {
+                          e.stopPropagation();
+                          onSaveAsSnippet(entry);
+                          setIsMenuOpen(false);
+                        }}
+                        className="w-full px-3 py-2 text-left text-sm hover:bg-light-bg-secondary dark:hover:bg-dark-bg-secondary flex items-center space-x-2 last:rounded-b-lg"
+                      >
+                        <span>✂️</span>
+                        <span>Save as snippet</span>
+                      </button>
+                    </div>
+                  )}
+
+                {onSetExpiry && (
+                  <div className="border-t border-light-border dark:border-dark-border">
+                    {EXPIRY_OPTIONS.map(option => (
+                      <button
+                        key={option.ms}
+                        onClick={e => {
+                          e.stopPropagation();
+                          handleSetExpiry(new Date(Date.now() + option.ms));
+                        }}
+                        className="w-full px-3 py-2 text-left text-sm hover:bg-light-bg-secondary dark:hover:bg-dark-bg-secondary flex items-center space-x-2 last:rounded-b-lg"
+                      >
+                        <span>⏳</span>
+                        <span>{option.label}</span>
+                      </button>
+                    ))}
+                    {entry.expiresAt && (
+                      <button
+                        onClick={e => {
+                          e.stopPropagation();
+                          handleSetExpiry(null);
+                        }}
+                        className="w-full px-3 py-2 text-left text-sm hover:bg-light-bg-secondary dark:hover:bg-dark-bg-secondary flex items-center space-x-2 last:rounded-b-lg"
+                      >
+                        <span>♾️</span>
+                        <span>Keep forever</span>
+                      </button>
+                    )}
+                  </div>
+                )}
               </div>
             )}
           </div>
@@ -505,12 +779,47 @@ export const ClipboardEntryCard: React.FC<ClipboardEntryCardProps> = ({
       </div>
 
       {/* Content */}
-      <div
-        className="text-sm text-light-text-primary dark:text-dark-text-primary line-clamp-2"
-        title="Click to paste"
-      >
-        {getContentPreview()}
-      </div>
+      {entry.sensitiveType && !isRevealed ? (
+        <div
+          className="text-sm text-light-text-secondary dark:text-dark-text-secondary select-none"
+          title="Click to reveal"
+          onClick={e => {
+            e.stopPropagation();
+            setIsRevealed(true);
+          }}
+        >
+          •••••••••••• Click to reveal
+        </div>
+      ) : (
+        <div
+          className="text-sm text-light-text-primary dark:text-dark-text-primary line-clamp-2"
+          title="Click to paste"
+        >
+          {getContentPreview()}
+        </div>
+      )}
+
+      {/* Tags */}
+      {isTagEditorOpen && onSetTags ? (
+        <TagEditor
+          tags={entry.tags || []}
+          onChange={tags => onSetTags(entry.id, tags)}
+          onClose={() => setIsTagEditorOpen(false)}
+        />
+      ) : (
+        entry.tags?.length > 0 && (
+          <div className="flex flex-wrap gap-1 mt-1">
+            {entry.tags.map(tag => (
+              <span
+                key={tag}
+                className="px-2 py-0.5 text-[10px] rounded-full bg-primary-100 dark:bg-primary-900/30 text-primary-700 dark:text-primary-300"
+              >
+                #{tag}
+              </span>
+            ))}
+          </div>
+        )
+      )}
 
       {/* Note Display */}
       {entry.note && (
@@ -525,6 +834,16 @@ export const ClipboardEntryCard: React.FC<ClipboardEntryCardProps> = ({
         </div>
       )}
 
+      {pasteAsMenu && onPasteAs && (
+        <PasteAsMenu
+          x={pasteAsMenu.x}
+          y={pasteAsMenu.y}
+          transforms={pasteTransforms}
+          onSelect={id => onPasteAs(entry, [id])}
+          onClose={() => setPasteAsMenu(null)}
+        />
+      )}
+
       {/* Note Modal */}
       {isNoteModalOpen && (
         <div
@@ -1,4 +1,5 @@
 import React, { useEffect, useRef } from 'react';
+import { PasteTransformId } from '../../../shared/paste-transforms';
 import { ClipboardEntry } from '../../../shared/types';
 import { ClipboardEntryCard } from './ClipboardEntryCard';
 
@@ -6,20 +7,45 @@ interface ClipboardHistoryProps {
   entries: ClipboardEntry[];
   onDeleteEntry: (id: number) => void;
   onPinEntry: (id: number) => void;
+  onFavoriteEntry?: (id: number) => void;
   onCopyToClipboard: (entry: ClipboardEntry) => void;
   onUpdateNote: (id: number, note: string) => void;
+  onSetExpiry?: (id: number, expiresAt: Date | null) => void;
+  onSetTags?: (id: number, tags: string[]) => void;
+  onSaveAsSnippet?: (entry: ClipboardEntry) => void;
+  onEditEntry?: (entry: ClipboardEntry) => void;
+  onPasteAs?: (entry: ClipboardEntry, transforms: PasteTransformId[]) => void;
   selectedIndex?: number;
   scrollContainerRef?: React.RefObject<HTMLDivElement>;
+  highlightQuery?: string;
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
 }
 
+// How close to the bottom, in pixels, the next page starts loading
+const LOAD_MORE_THRESHOLD = 200;
+// How close to the last loaded entry keyboard selection loads the next page
+const LOAD_MORE_SELECTION_MARGIN = 5;
+
 export const ClipboardHistory: React.FC<ClipboardHistoryProps> = ({
   entries,
   onDeleteEntry,
   onPinEntry,
+  onFavoriteEntry,
   onCopyToClipboard,
   onUpdateNote,
+  onSetExpiry,
+  onSetTags,
+  onSaveAsSnippet,
+  onEditEntry,
+  onPasteAs,
   selectedIndex = -1,
   scrollContainerRef,
+  highlightQuery,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
 }) => {
   const selectedItemRef = useRef<HTMLDivElement>(null);
 
@@ -43,8 +69,31 @@ export const ClipboardHistory: React.FC<ClipboardHistoryProps> = ({
     }
   }, [selectedIndex]);
 
+  // Keep keyboard selection from running out of loaded entries
+  useEffect(() => {
+    if (
+      hasMore &&
+      !isLoadingMore &&
+      selectedIndex >= entries.length - LOAD_MORE_SELECTION_MARGIN
+    ) {
+      onLoadMore?.();
+    }
+  }, [selectedIndex, entries.length, hasMore, isLoadingMore, onLoadMore]);
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    if (!hasMore || isLoadingMore) return;
+
+    const { scrollTop, scrollHeight, clientHeight } = e.currentTarget;
+    if (scrollHeight - scrollTop - clientHeight < LOAD_MORE_THRESHOLD) {
+      onLoadMore?.();
+    }
+  };
+
   return (
-    <div className="space-y-4 h-full overflow-y-auto scroll-smooth">
+    <div
+      className="space-y-4 h-full overflow-y-auto scroll-smooth"
+      onScroll={handleScroll}
+    >
       {/* Pinned entries section */}
       {pinnedEntries.length > 0 && (
         <div>
@@ -61,10 +110,17 @@ export const ClipboardHistory: React.FC<ClipboardHistoryProps> = ({
                   entry={entry}
                   onDelete={onDeleteEntry}
                   onPin={onPinEntry}
+                  onFavorite={onFavoriteEntry}
                   onCopy={onCopyToClipboard}
                   onUpdateNote={onUpdateNote}
+                  onSetExpiry={onSetExpiry}
+                  onSetTags={onSetTags}
+                  onSaveAsSnippet={onSaveAsSnippet}
+                  onEdit={onEditEntry}
+                  onPasteAs={onPasteAs}
                   isSelected={index === selectedIndex}
                   dataIndex={index}
+                  highlightQuery={highlightQuery}
                 />
               </div>
             ))}
@@ -92,10 +148,17 @@ export const ClipboardHistory: React.FC<ClipboardHistoryProps> = ({
                     entry={entry}
                     onDelete={onDeleteEntry}
                     onPin={onPinEntry}
+                    onFavorite={onFavoriteEntry}
                     onCopy={onCopyToClipboard}
                     onUpdateNote={onUpdateNote}
+                    onSetExpiry={onSetExpiry}
+                    onSetTags={onSetTags}
+                    onSaveAsSnippet={onSaveAsSnippet}
+                    onEdit={onEditEntry}
+                    onPasteAs={onPasteAs}
                     isSelected={globalIndex === selectedIndex}
                     dataIndex={globalIndex}
+                    highlightQuery={highlightQuery}
                   />
                 </div>
               );
@@ -103,6 +166,18 @@ export const ClipboardHistory: React.FC<ClipboardHistoryProps> = ({
           </div>
         </div>
       )}
+
+      {hasMore && onLoadMore && (
+        <div className="flex justify-center pb-2">
+          <button
+            onClick={onLoadMore}
+            disabled={isLoadingMore}
+            className="px-3 py-1 text-sm text-light-text-secondary dark:text-dark-text-secondary hover:text-light-text-primary dark:hover:text-dark-text-primary disabled:opacity-50 transition-colors"
+          >
+            {isLoadingMore ? 'Loading...' : 'Load more'}
+          </button>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,202 @@
+import { useEffect, useState } from 'react';
+import { EncryptionKeySource, EncryptionStatus } from '../../../shared/types';
+
+interface EncryptionSettingsProps {
+  onChange: (enabled: boolean) => void;
+}
+
+export function EncryptionSettings({ onChange }: EncryptionSettingsProps) {
+  const [status, setStatus] = useState<EncryptionStatus | null>(null);
+  const [isConfiguring, setIsConfiguring] = useState(false);
+  const [keySource, setKeySource] = useState<EncryptionKeySource>('keychain');
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const loadStatus = async () => {
+    try {
+      const encryptionStatus = await window.electronAPI.encryption.getStatus();
+      setStatus(encryptionStatus);
+      if (!encryptionStatus.keychainAvailable) {
+        setKeySource('passphrase');
+      }
+    } catch (error) {
+      console.error('Failed to load encryption status:', error);
+    }
+  };
+
+  const resetForm = () => {
+    setIsConfiguring(false);
+    setPassphrase('');
+    setConfirmPassphrase('');
+    setError(null);
+  };
+
+  const handleEnable = async () => {
+    if (keySource === 'passphrase') {
+      if (passphrase.length < 8) {
+        setError('Passphrase must be at least 8 characters');
+        return;
+      }
+      if (passphrase !== confirmPassphrase) {
+        setError('Passphrases do not match');
+        return;
+      }
+    }
+
+    try {
+      setIsWorking(true);
+      setError(null);
+      const newStatus = await window.electronAPI.encryption.enable(
+        keySource,
+        keySource === 'passphrase' ? passphrase : undefined
+      );
+      setStatus(newStatus);
+      onChange(true);
+      resetForm();
+    } catch (error) {
+      console.error('Failed to enable encryption:', error);
+      setError(
+        error instanceof Error ? error.message : 'Failed to enable encryption'
+      );
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    if (
+      !confirm(
+        'Decrypt your clipboard history? It will be stored as plain text on disk.'
+      )
+    ) {
+      return;
+    }
+
+    try {
+      setIsWorking(true);
+      setError(null);
+      const newStatus = await window.electronAPI.encryption.disable();
+      setStatus(newStatus);
+      onChange(false);
+    } catch (error) {
+      console.error('Failed to disable encryption:', error);
+      setError(
+        error instanceof Error ? error.message : 'Failed to disable encryption'
+      );
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  if (!status) return null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <label className="text-sm font-medium text-light-text-primary dark:text-dark-text-primary">
+            Encrypt clipboard history
+          </label>
+          <p className="text-sm text-light-text-secondary dark:text-dark-text-secondary">
+            {status.enabled
+              ? `Encrypted with ${
+                  status.keySource === 'passphrase'
+                    ? 'your passphrase'
+                    : 'the system keychain'
+                }`
+              : 'Store history, notes and images encrypted on disk'}
+          </p>
+        </div>
+        <input
+          type="checkbox"
+          checked={status.enabled || isConfiguring}
+          disabled={isWorking}
+          onChange={e => {
+            if (status.enabled) {
+              handleDisable();
+            } else if (e.target.checked) {
+              setIsConfiguring(true);
+            } else {
+              resetForm();
+            }
+          }}
+          className="w-4 h-4 text-primary-600 bg-gray-100 border-gray-300 rounded focus:ring-primary-500"
+        />
+      </div>
+
+      {isConfiguring && !status.enabled && (
+        <div className="space-y-3 p-3 rounded-md border border-light-border dark:border-dark-border bg-light-bg-secondary dark:bg-dark-bg-secondary">
+          <div className="space-y-2 text-sm text-light-text-primary dark:text-dark-text-primary">
+            <label className="flex items-center space-x-2">
+              <input
+                type="radio"
+                checked={keySource === 'keychain'}
+                disabled={!status.keychainAvailable}
+                onChange={() => setKeySource('keychain')}
+              />
+              <span>
+                Use the system keychain
+                {!status.keychainAvailable && ' (not available)'}
+              </span>
+            </label>
+            <label className="flex items-center space-x-2">
+              <input
+                type="radio"
+                checked={keySource === 'passphrase'}
+                onChange={() => setKeySource('passphrase')}
+              />
+              <span>Use a passphrase (asked for on every launch)</span>
+            </label>
+          </div>
+
+          {keySource === 'passphrase' && (
+            <div className="space-y-2">
+              <input
+                type="password"
+                value={passphrase}
+                onChange={e => setPassphrase(e.target.value)}
+                placeholder="Passphrase"
+                className="w-full px-3 py-2 border border-light-border dark:border-dark-border rounded-md bg-light-bg-primary dark:bg-dark-bg-primary text-light-text-primary dark:text-dark-text-primary"
+              />
+              <input
+                type="password"
+                value={confirmPassphrase}
+                onChange={e => setConfirmPassphrase(e.target.value)}
+                placeholder="Confirm passphrase"
+                className="w-full px-3 py-2 border border-light-border dark:border-dark-border rounded-md bg-light-bg-primary dark:bg-dark-bg-primary text-light-text-primary dark:text-dark-text-primary"
+              />
+              <p className="text-xs text-yellow-600 dark:text-yellow-400">
+                If you forget this passphrase your history cannot be recovered.
+              </p>
+            </div>
+          )}
+
+          <div className="flex space-x-2">
+            <button
+              onClick={handleEnable}
+              disabled={isWorking}
+              className="px-4 py-2 bg-green-500 text-white rounded-md hover:bg-green-600 transition-colors disabled:opacity-50"
+            >
+              {isWorking ? 'Encrypting...' : 'Encrypt'}
+            </button>
+            <button
+              onClick={resetForm}
+              disabled={isWorking}
+              className="px-4 py-2 bg-gray-500 text-white rounded-md hover:bg-gray-600 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </div>
+  );
+}
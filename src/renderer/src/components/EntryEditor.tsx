@@ -0,0 +1,229 @@
+import React, { useEffect, useState } from 'react';
+import { diffLines } from '../../../shared/text-diff';
+import { ClipboardEntry, EntryRevision } from '../../../shared/types';
+
+interface EntryEditorProps {
+  entry: ClipboardEntry;
+  // Called with the entry as saved, after an edit or a rollback
+  onUpdated: (entry: ClipboardEntry) => void;
+  onPaste: (entry: ClipboardEntry) => void;
+  onClose: () => void;
+}
+
+const DIFF_LINE_STYLES = {
+  same: 'text-light-text-secondary dark:text-dark-text-secondary',
+  added: 'bg-green-100 dark:bg-green-900/40 text-green-800 dark:text-green-300',
+  removed: 'bg-red-100 dark:bg-red-900/40 text-red-800 dark:text-red-300',
+};
+const DIFF_MARKERS = { same: ' ', added: '+', removed: '-' };
+
+export const EntryEditor: React.FC<EntryEditorProps> = ({
+  entry,
+  onUpdated,
+  onPaste,
+  onClose,
+}) => {
+  // The entry as last saved, which the text is compared against
+  const [saved, setSaved] = useState(entry);
+  const [text, setText] = useState(entry.content);
+  const [revisions, setRevisions] = useState<EntryRevision[]>([]);
+  const [selectedRevision, setSelectedRevision] =
+    useState<EntryRevision | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Each save adds a revision, so they are reloaded whenever it changes
+  useEffect(() => {
+    const loadRevisions = async () => {
+      try {
+        setRevisions(
+          (await window.electronAPI.clipboard.getRevisions(saved.id)) || []
+        );
+      } catch (err) {
+        console.error('Failed to load revisions:', err);
+      }
+    };
+    loadRevisions();
+  }, [saved]);
+
+  const applySaved = (updated: ClipboardEntry) => {
+    setSaved(updated);
+    setText(updated.content);
+    setSelectedRevision(null);
+    onUpdated(updated);
+  };
+
+  const handleSave = async (andPaste = false) => {
+    if (isSaving || !text.trim()) return;
+
+    // Nothing to save, but the text can still be pasted
+    if (text === saved.content) {
+      if (andPaste) onPaste(saved);
+      onClose();
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const updated = await window.electronAPI.clipboard.edit(entry.id, text);
+      if (!updated) {
+        setError('This entry no longer exists');
+        return;
+      }
+      onUpdated(updated);
+      if (andPaste) onPaste(updated);
+      onClose();
+    } catch (err) {
+      console.error('Failed to save entry:', err);
+      setError('Failed to save changes');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRestore = async (revision: EntryRevision) => {
+    try {
+      const restored = await window.electronAPI.clipboard.restoreRevision(
+        entry.id,
+        revision.id
+      );
+      if (restored) applySaved(restored);
+    } catch (err) {
+      console.error('Failed to restore revision:', err);
+      setError('Failed to restore this version');
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Keep list navigation and paste shortcuts out of the editor
+    e.stopPropagation();
+
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    } else if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      handleSave(e.shiftKey);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
+      onClick={e => {
+        e.stopPropagation();
+        onClose();
+      }}
+      onKeyDown={handleKeyDown}
+    >
+      <div
+        className="bg-light-bg-primary dark:bg-dark-bg-primary rounded-lg p-6 w-[40rem] max-w-[90vw] max-h-[90vh] overflow-y-auto shadow-xl space-y-3"
+        onClick={e => e.stopPropagation()}
+      >
+        <h3 className="text-lg font-semibold text-light-text-primary dark:text-dark-text-primary">
+          Edit {entry.format === 'html' ? 'HTML' : 'Text'}
+        </h3>
+
+        <textarea
+          value={text}
+          onChange={e => {
+            setText(e.target.value);
+            setError(null);
+          }}
+          aria-label="Content"
+          className="w-full h-48 px-3 py-2 text-sm border border-light-border dark:border-dark-border rounded-lg bg-light-bg-secondary dark:bg-dark-bg-secondary text-light-text-primary dark:text-dark-text-primary resize-none font-mono focus:outline-none focus:ring-2 focus:ring-primary-500"
+          autoFocus
+        />
+
+        {revisions.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center space-x-2">
+              <label
+                htmlFor="entry-revision"
+                className="text-sm text-light-text-secondary dark:text-dark-text-secondary"
+              >
+                Earlier versions
+              </label>
+              <select
+                id="entry-revision"
+                value={selectedRevision?.id ?? ''}
+                onChange={e =>
+                  setSelectedRevision(
+                    revisions.find(
+                      revision => revision.id === Number(e.target.value)
+                    ) ?? null
+                  )
+                }
+                className="flex-1 px-2 py-1 text-sm border border-light-border dark:border-dark-border rounded-md bg-light-bg-secondary dark:bg-dark-bg-secondary text-light-text-primary dark:text-dark-text-primary"
+              >
+                <option value="">Compare with...</option>
+                {revisions.map(revision => (
+                  <option key={revision.id} value={revision.id}>
+                    Replaced {new Date(revision.createdAt).toLocaleString()}
+                  </option>
+                ))}
+              </select>
+              {selectedRevision && (
+                <button
+                  onClick={() => handleRestore(selectedRevision)}
+                  className="px-3 py-1 text-sm bg-light-bg-tertiary dark:bg-dark-bg-tertiary hover:bg-gray-200 dark:hover:bg-gray-600 rounded-md transition-colors"
+                >
+                  Restore
+                </button>
+              )}
+            </div>
+
+            {selectedRevision && (
+              <pre
+                className="max-h-40 overflow-y-auto text-xs font-mono border border-light-border dark:border-dark-border rounded-lg"
+                aria-label="Changes since this version"
+              >
+                {diffLines(selectedRevision.content, text).map(
+                  (line, index) => (
+                    <div
+                      key={index}
+                      className={`px-2 whitespace-pre-wrap ${DIFF_LINE_STYLES[line.type]}`}
+                    >
+                      {DIFF_MARKERS[line.type]} {line.text}
+                    </div>
+                  )
+                )}
+              </pre>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <p className="text-xs text-red-600 dark:text-red-400" role="alert">
+            {error}
+          </p>
+        )}
+
+        <div className="flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-light-text-secondary dark:text-dark-text-secondary hover:text-light-text-primary dark:hover:text-dark-text-primary transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => handleSave(true)}
+            disabled={!text.trim() || isSaving}
+            className="px-4 py-2 text-sm bg-light-bg-tertiary dark:bg-dark-bg-tertiary hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 rounded-lg transition-colors"
+            title="Ctrl+Shift+Enter"
+          >
+            Save and Paste
+          </button>
+          <button
+            onClick={() => handleSave()}
+            disabled={!text.trim() || text === saved.content || isSaving}
+            className="px-4 py-2 text-sm bg-primary-600 hover:bg-primary-700 disabled:opacity-50 text-white rounded-lg transition-colors"
+            title="Ctrl+Enter"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,124 @@
+import { useEffect, useState } from 'react';
+
+interface ExcludedAppsSettingsProps {
+  excludedApps: string[];
+  onChange: (excludedApps: string[]) => void;
+}
+
+export function ExcludedAppsSettings({
+  excludedApps,
+  onChange,
+}: ExcludedAppsSettingsProps) {
+  const [recentApps, setRecentApps] = useState<string[]>([]);
+  const [customApp, setCustomApp] = useState('');
+
+  useEffect(() => {
+    loadRecentApps();
+  }, []);
+
+  const loadRecentApps = async () => {
+    try {
+      const apps = await window.electronAPI.clipboard.getRecentApps();
+      setRecentApps(apps || []);
+    } catch (error) {
+      console.error('Failed to load recent apps:', error);
+    }
+  };
+
+  const isExcluded = (appName: string) =>
+    excludedApps.some(app => app.toLowerCase() === appName.toLowerCase());
+
+  const addApp = (appName: string) => {
+    const name = appName.trim();
+    if (!name || isExcluded(name)) return;
+    onChange([...excludedApps, name]);
+  };
+
+  const removeApp = (appName: string) => {
+    onChange(excludedApps.filter(app => app !== appName));
+  };
+
+  const suggestions = recentApps.filter(app => !isExcluded(app));
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="text-sm font-medium text-light-text-primary dark:text-dark-text-primary">
+          Excluded apps
+        </label>
+        <p className="text-sm text-light-text-secondary dark:text-dark-text-secondary">
+          Copies made in these apps are never saved to history
+        </p>
+      </div>
+
+      {excludedApps.length > 0 ? (
+        <div className="flex flex-wrap gap-2">
+          {excludedApps.map(app => (
+            <span
+              key={app}
+              className="inline-flex items-center gap-1 px-2 py-1 text-xs rounded-full bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300"
+            >
+              {app}
+              <button
+                onClick={() => removeApp(app)}
+                className="hover:opacity-75"
+                title={`Stop excluding ${app}`}
+              >
+                ✕
+              </button>
+            </span>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-light-text-secondary dark:text-dark-text-secondary">
+          No apps excluded
+        </p>
+      )}
+
+      {suggestions.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs text-light-text-secondary dark:text-dark-text-secondary">
+            Recently copied from:
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {suggestions.map(app => (
+              <button
+                key={app}
+                onClick={() => addApp(app)}
+                className="px-2 py-1 text-xs rounded-full border border-light-border dark:border-dark-border text-light-text-primary dark:text-dark-text-primary hover:bg-light-bg-secondary dark:hover:bg-dark-bg-secondary transition-colors"
+                title={`Exclude ${app}`}
+              >
+                + {app}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex space-x-2">
+        <input
+          type="text"
+          value={customApp}
+          onChange={e => setCustomApp(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter') {
+              addApp(customApp);
+              setCustomApp('');
+            }
+          }}
+          placeholder="App name, e.g. KeePassXC"
+          className="flex-1 px-3 py-2 text-sm border border-light-border dark:border-dark-border rounded-md bg-light-bg-secondary dark:bg-dark-bg-secondary text-light-text-primary dark:text-dark-text-primary"
+        />
+        <button
+          onClick={() => {
+            addApp(customApp);
+            setCustomApp('');
+          }}
+          className="px-4 py-2 bg-primary-500 text-white rounded-md hover:bg-primary-600 transition-colors"
+        >
+          Add
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,14 +1,35 @@
 import { Clipboard } from 'lucide-react';
 import React from 'react';
+import { HISTORY_SORT_OPTIONS } from '../../../shared/constants';
+import { HistorySortBy } from '../../../shared/types';
+
+export type MainView = 'history' | 'snippets';
 
 interface HeaderProps {
   onClearHistory: () => void;
   onOpenSettings: () => void;
+  sortBy?: HistorySortBy;
+  onSortChange?: (sortBy: HistorySortBy) => void;
+  view?: MainView;
+  onViewChange?: (view: MainView) => void;
+  isCollecting?: boolean;
+  onToggleCollecting?: () => void;
 }
 
+const VIEWS: { value: MainView; label: string }[] = [
+  { value: 'history', label: 'History' },
+  { value: 'snippets', label: 'Snippets' },
+];
+
 export const Header: React.FC<HeaderProps> = ({
   onClearHistory,
   onOpenSettings,
+  sortBy = 'created',
+  onSortChange,
+  view = 'history',
+  onViewChange,
+  isCollecting = false,
+  onToggleCollecting,
 }) => {
   return (
     <header className="bg-light-bg-secondary dark:bg-dark-bg-secondary border-b border-light-border dark:border-dark-border">
@@ -28,13 +49,68 @@ export const Header: React.FC<HeaderProps> = ({
         </div>
 
         <div className="flex items-center space-x-2">
-          <button
-            onClick={onClearHistory}
-            className="px-3 py-1.5 text-sm bg-light-bg-tertiary dark:bg-dark-bg-tertiary hover:bg-gray-200 dark:hover:bg-gray-600 rounded-md transition-colors"
-            title="Clear History"
-          >
-            Clear
-          </button>
+          {onViewChange && (
+            <div className="flex rounded-md bg-light-bg-tertiary dark:bg-dark-bg-tertiary p-0.5">
+              {VIEWS.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => onViewChange(option.value)}
+                  className={`px-2 py-1 text-sm rounded transition-colors ${
+                    view === option.value
+                      ? 'bg-primary-500 text-white'
+                      : 'text-light-text-secondary dark:text-dark-text-secondary hover:text-light-text-primary dark:hover:text-dark-text-primary'
+                  }`}
+                  aria-pressed={view === option.value}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {onSortChange && view === 'history' && (
+            <select
+              value={sortBy}
+              onChange={e => onSortChange(e.target.value as HistorySortBy)}
+              className="px-2 py-1.5 text-sm bg-light-bg-tertiary dark:bg-dark-bg-tertiary text-light-text-primary dark:text-dark-text-primary rounded-md border-none focus:outline-none focus:ring-2 focus:ring-primary-500"
+              title="Sort history"
+            >
+              {HISTORY_SORT_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          )}
+
+          {onToggleCollecting && view === 'history' && (
+            <button
+              onClick={onToggleCollecting}
+              className={`px-3 py-1.5 text-sm rounded-md transition-colors ${
+                isCollecting
+                  ? 'bg-primary-500 text-white hover:bg-primary-600'
+                  : 'bg-light-bg-tertiary dark:bg-dark-bg-tertiary hover:bg-gray-200 dark:hover:bg-gray-600'
+              }`}
+              title={
+                isCollecting
+                  ? 'Stop collecting into the paste queue'
+                  : 'Collect entries into a paste queue'
+              }
+              aria-pressed={isCollecting}
+            >
+              📚
+            </button>
+          )}
+
+          {view === 'history' && (
+            <button
+              onClick={onClearHistory}
+              className="px-3 py-1.5 text-sm bg-light-bg-tertiary dark:bg-dark-bg-tertiary hover:bg-gray-200 dark:hover:bg-gray-600 rounded-md transition-colors"
+              title="Clear History"
+            >
+              Clear
+            </button>
+          )}
 
           <button
             onClick={onOpenSettings}
@@ -0,0 +1,85 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import {
+  PasteTransform,
+  PasteTransformId,
+} from '../../../shared/paste-transforms';
+
+interface PasteAsMenuProps {
+  // Where the menu was opened, in window coordinates
+  x: number;
+  y: number;
+  transforms: PasteTransform[];
+  onSelect: (id: PasteTransformId) => void;
+  onClose: () => void;
+}
+
+export const PasteAsMenu: React.FC<PasteAsMenuProps> = ({
+  x,
+  y,
+  transforms,
+  onSelect,
+  onClose,
+}) => {
+  const menuRef = useRef<HTMLDivElement>(null);
+  const [position, setPosition] = useState({ x, y });
+
+  // Keep the whole menu inside the window
+  useLayoutEffect(() => {
+    const rect = menuRef.current?.getBoundingClientRect();
+    if (!rect) return;
+
+    setPosition({
+      x: Math.max(0, Math.min(x, window.innerWidth - rect.width)),
+      y: Math.max(0, Math.min(y, window.innerHeight - rect.height)),
+    });
+  }, [x, y]);
+
+  useEffect(() => {
+    const handleMouseDown = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) onClose();
+    };
+    // Captured so Escape closes the menu instead of hiding the window
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== 'Escape') return;
+      event.preventDefault();
+      event.stopPropagation();
+      onClose();
+    };
+
+    document.addEventListener('mousedown', handleMouseDown);
+    window.addEventListener('keydown', handleKeyDown, true);
+    window.addEventListener('blur', onClose);
+    window.addEventListener('scroll', onClose, true);
+    return () => {
+      document.removeEventListener('mousedown', handleMouseDown);
+      window.removeEventListener('keydown', handleKeyDown, true);
+      window.removeEventListener('blur', onClose);
+      window.removeEventListener('scroll', onClose, true);
+    };
+  }, [onClose]);
+
+  return (
+    <div
+      ref={menuRef}
+      role="menu"
+      className="fixed bg-light-bg-primary dark:bg-dark-bg-primary border border-light-border dark:border-dark-border rounded-lg shadow-lg z-50 min-w-48"
+      style={{ left: position.x, top: position.y }}
+      onClick={e => e.stopPropagation()}
+      onContextMenu={e => e.preventDefault()}
+    >
+      {transforms.map(transform => (
+        <button
+          key={transform.id}
+          role="menuitem"
+          onClick={() => {
+            onSelect(transform.id);
+            onClose();
+          }}
+          className="w-full px-3 py-2 text-left text-sm hover:bg-light-bg-secondary dark:hover:bg-dark-bg-secondary first:rounded-t-lg last:rounded-b-lg"
+        >
+          {transform.label}
+        </button>
+      ))}
+    </div>
+  );
+};
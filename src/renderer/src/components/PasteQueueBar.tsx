@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from 'react';
+import { PasteQueueOrder, PasteQueueState } from '../../../shared/types';
+
+interface PasteQueueBarProps {
+  state: PasteQueueState;
+}
+
+const ORDER_OPTIONS: { value: PasteQueueOrder; label: string }[] = [
+  { value: 'fifo', label: 'First in, first out' },
+  { value: 'lifo', label: 'Last in, first out' },
+];
+
+const describeEntry = (entry: PasteQueueState['entries'][number]) =>
+  entry.format === 'image'
+    ? '[Image]'
+    : (entry.preview || entry.content).replace(/\s+/g, ' ').trim();
+
+export const PasteQueueBar: React.FC<PasteQueueBarProps> = ({ state }) => {
+  const [hotkey, setHotkey] = useState('');
+  const total = state.pastedCount + state.entries.length;
+
+  useEffect(() => {
+    loadHotkey();
+  }, []);
+
+  const loadHotkey = async () => {
+    try {
+      setHotkey(
+        (await window.electronAPI.settings.get('pasteQueueHotkey')) || ''
+      );
+    } catch (error) {
+      console.error('Failed to load paste queue hotkey:', error);
+    }
+  };
+
+  // Every change comes back through the pasteQueueChanged event
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (error) {
+      console.error('Paste queue action failed:', error);
+    }
+  };
+
+  return (
+    <div className="p-3 rounded-lg border border-primary-300 dark:border-primary-700 bg-primary-50 dark:bg-primary-900/20 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-sm text-light-text-primary dark:text-dark-text-primary">
+          <span className="font-medium">
+            📚{' '}
+            {state.isCollecting
+              ? `Collecting: ${state.entries.length} queued`
+              : `Paste queue ${state.pastedCount}/${total}`}
+          </span>
+          {hotkey && state.entries.length > 0 && (
+            <span className="ml-2 text-xs text-light-text-secondary dark:text-dark-text-secondary">
+              Press <span className="font-mono">{hotkey}</span> to paste the
+              next one
+            </span>
+          )}
+        </div>
+
+        <div className="flex items-center space-x-1">
+          <select
+            value={state.order}
+            onChange={e =>
+              run(() =>
+                window.electronAPI.settings.set(
+                  'pasteQueueOrder',
+                  e.target.value as PasteQueueOrder
+                )
+              )
+            }
+            className="px-2 py-1 text-xs border border-light-border dark:border-dark-border rounded-md bg-light-bg-secondary dark:bg-dark-bg-secondary text-light-text-primary dark:text-dark-text-primary"
+            title="Paste order"
+          >
+            {ORDER_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => run(window.electronAPI.pasteQueue.pasteNext)}
+            disabled={state.entries.length === 0}
+            className="px-2 py-1 text-xs bg-primary-600 hover:bg-primary-700 disabled:opacity-50 text-white rounded-md transition-colors"
+          >
+            Paste next
+          </button>
+          {state.isCollecting ? (
+            <button
+              onClick={() => run(window.electronAPI.pasteQueue.stopCollecting)}
+              className="px-2 py-1 text-xs bg-light-bg-tertiary dark:bg-dark-bg-tertiary hover:bg-gray-200 dark:hover:bg-gray-600 rounded-md transition-colors"
+            >
+              Stop
+            </button>
+          ) : (
+            <button
+              onClick={() => run(window.electronAPI.pasteQueue.clear)}
+              className="px-2 py-1 text-xs bg-light-bg-tertiary dark:bg-dark-bg-tertiary hover:bg-gray-200 dark:hover:bg-gray-600 rounded-md transition-colors"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+      </div>
+
+      {state.entries.length > 0 ? (
+        <ol className="max-h-24 overflow-y-auto space-y-1">
+          {state.entries.map((entry, index) => (
+            <li
+              key={`${index}-${entry.id}`}
+              className="flex items-center gap-2 text-xs text-light-text-secondary dark:text-dark-text-secondary"
+            >
+              <span className="w-4 text-right">{index + 1}.</span>
+              <span className="flex-1 truncate">{describeEntry(entry)}</span>
+              <button
+                onClick={() =>
+                  run(() => window.electronAPI.pasteQueue.remove(index))
+                }
+                className="hover:opacity-75"
+                title="Remove from queue"
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ol>
+      ) : (
+        state.isCollecting && (
+          <p className="text-xs text-light-text-secondary dark:text-dark-text-secondary">
+            Copy something, or pick entries below, to add them to the queue
+          </p>
+        )
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+import { useState } from 'react';
+
+interface PasteQueueSettingsProps {
+  hotkey: string;
+  onChange: (hotkey: string) => void;
+}
+
+export function PasteQueueSettings({
+  hotkey,
+  onChange,
+}: PasteQueueSettingsProps) {
+  const [input, setInput] = useState(hotkey);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    const value = input.trim();
+    if (!value || value === hotkey) return;
+
+    try {
+      const success = await window.electronAPI.hotkey.registerPasteQueue(value);
+      if (success) {
+        setError(null);
+        onChange(value);
+      } else {
+        setError(
+          'Failed to register hotkey. It might be invalid or already in use by another application.'
+        );
+      }
+    } catch (err) {
+      console.error('Failed to update paste queue hotkey:', err);
+      setError('Failed to update hotkey');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div>
+        <label className="text-sm font-medium text-light-text-primary dark:text-dark-text-primary">
+          Paste queue hotkey
+        </label>
+        <p className="text-sm text-light-text-secondary dark:text-dark-text-secondary">
+          Pastes the next entry of the paste queue into the focused app
+        </p>
+      </div>
+      <div className="flex items-center space-x-3">
+        <input
+          type="text"
+          value={input}
+          onChange={e => {
+            setInput(e.target.value);
+            setError(null);
+          }}
+          onKeyDown={e => e.key === 'Enter' && handleSave()}
+          placeholder="CommandOrControl+Alt+V"
+          className="flex-1 px-3 py-2 font-mono text-sm border border-light-border dark:border-dark-border rounded-md bg-light-bg-secondary dark:bg-dark-bg-secondary text-light-text-primary dark:text-dark-text-primary"
+        />
+        <button
+          onClick={handleSave}
+          disabled={!input.trim() || input.trim() === hotkey}
+          className="px-4 py-2 bg-primary-500 text-white rounded-md hover:bg-primary-600 disabled:opacity-50 transition-colors"
+        >
+          Save
+        </button>
+      </div>
+      {error && (
+        <p className="text-xs text-red-600 dark:text-red-400" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
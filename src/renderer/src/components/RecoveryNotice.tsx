@@ -0,0 +1,47 @@
+import React from 'react';
+import { StorageRecoveryInfo } from '../../../shared/types';
+
+interface RecoveryNoticeProps {
+  recoveryInfo: StorageRecoveryInfo;
+  onDismiss: () => void;
+}
+
+export const RecoveryNotice: React.FC<RecoveryNoticeProps> = ({
+  recoveryInfo,
+  onDismiss,
+}) => {
+  const { backupCreatedAt, corruptFilePath } = recoveryInfo;
+
+  return (
+    <div
+      className="flex items-start justify-between gap-3 px-3 py-2 rounded-md border border-yellow-300 dark:border-yellow-700 bg-yellow-50 dark:bg-yellow-900/30 text-sm text-yellow-800 dark:text-yellow-200"
+      role="alert"
+    >
+      <div className="space-y-1">
+        <p className="font-medium">
+          {backupCreatedAt
+            ? 'Clipboard history was restored from a backup'
+            : 'Clipboard history could not be recovered'}
+        </p>
+        <p className="text-xs">
+          {backupCreatedAt
+            ? `The history file was damaged. Items copied after ${new Date(
+                backupCreatedAt
+              ).toLocaleString()} may be missing.`
+            : 'The history file was damaged and no valid backup was found, so LocalClip started with an empty history.'}
+        </p>
+        <p className="text-xs break-all opacity-75">
+          The damaged file was kept at {corruptFilePath}
+        </p>
+      </div>
+
+      <button
+        onClick={onDismiss}
+        className="text-yellow-800 dark:text-yellow-200 hover:opacity-75 transition-opacity"
+        title="Dismiss"
+      >
+        ✕
+      </button>
+    </div>
+  );
+};
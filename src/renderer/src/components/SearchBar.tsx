@@ -1,4 +1,5 @@
-import React from 'react';
+import React, { useMemo } from 'react';
+import { parseSearchQuery } from '../../../shared/search-query';
 
 interface SearchBarProps {
   value: string;
@@ -11,39 +12,14 @@ export const SearchBar: React.FC<SearchBarProps> = ({
   onChange,
   placeholder = 'Search...',
 }) => {
-  return (
-    <div className="relative">
-      <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-        <svg
-          className="h-4 w-4 text-light-text-secondary dark:text-dark-text-secondary"
-          fill="none"
-          viewBox="0 0 24 24"
-          stroke="currentColor"
-        >
-          <path
-            strokeLinecap="round"
-            strokeLinejoin="round"
-            strokeWidth={2}
-            d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
-          />
-        </svg>
-      </div>
-
-      <input
-        type="text"
-        value={value}
-        onChange={e => onChange(e.target.value)}
-        placeholder={placeholder}
-        className="w-full pl-10 pr-4 py-2 bg-light-bg-secondary dark:bg-dark-bg-secondary border border-light-border dark:border-dark-border rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent text-light-text-primary dark:text-dark-text-primary placeholder-light-text-secondary dark:placeholder-dark-text-secondary"
-      />
+  const errors = useMemo(() => parseSearchQuery(value).errors, [value]);
 
-      {value && (
-        <button
-          onClick={() => onChange('')}
-          className="absolute inset-y-0 right-0 pr-3 flex items-center text-light-text-secondary dark:text-dark-text-secondary hover:text-light-text-primary dark:hover:text-dark-text-primary"
-        >
+  return (
+    <div>
+      <div className="relative">
+        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
           <svg
-            className="h-4 w-4"
+            className="h-4 w-4 text-light-text-secondary dark:text-dark-text-secondary"
             fill="none"
             viewBox="0 0 24 24"
             stroke="currentColor"
@@ -52,10 +28,58 @@ export const SearchBar: React.FC<SearchBarProps> = ({
               strokeLinecap="round"
               strokeLinejoin="round"
               strokeWidth={2}
-              d="M6 18L18 6M6 6l12 12"
+              d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
             />
           </svg>
-        </button>
+        </div>
+
+        <input
+          type="text"
+          value={value}
+          onChange={e => onChange(e.target.value)}
+          placeholder={placeholder}
+          title='Filter with type:url, app:firefox, tag:work, is:pinned, after:2024-01-31, date:<2024-02-01, "exact phrase", -exclude or /regex/'
+          aria-invalid={errors.length > 0}
+          className={`w-full pl-10 pr-4 py-2 bg-light-bg-secondary dark:bg-dark-bg-secondary border rounded-md focus:outline-none focus:ring-2 focus:border-transparent text-light-text-primary dark:text-dark-text-primary placeholder-light-text-secondary dark:placeholder-dark-text-secondary ${
+            errors.length > 0
+              ? 'border-red-500 focus:ring-red-500'
+              : 'border-light-border dark:border-dark-border focus:ring-primary-500'
+          }`}
+        />
+
+        {value && (
+          <button
+            onClick={() => onChange('')}
+            className="absolute inset-y-0 right-0 pr-3 flex items-center text-light-text-secondary dark:text-dark-text-secondary hover:text-light-text-primary dark:hover:text-dark-text-primary"
+          >
+            <svg
+              className="h-4 w-4"
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        )}
+      </div>
+
+      {errors.length > 0 && (
+        <div className="mt-1 space-y-0.5 text-xs text-red-500" role="alert">
+          {errors.map(error => (
+            <div key={`${error.start}-${error.message}`}>
+              <code className="px-1 rounded bg-red-50 dark:bg-red-900/30">
+                {value.slice(error.start, error.end)}
+              </code>{' '}
+              {error.message}
+            </div>
+          ))}
+        </div>
       )}
     </div>
   );
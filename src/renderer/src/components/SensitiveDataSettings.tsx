@@ -0,0 +1,104 @@
+import { SENSITIVE_DATA_RULES } from '../../../shared/constants';
+import {
+  DEFAULT_SETTINGS,
+  SensitiveDataAction,
+  SensitiveDataRuleId,
+  Settings as SettingsType,
+} from '../../../shared/types';
+
+interface SensitiveDataSettingsProps {
+  settings: SettingsType;
+  onUpdate: <K extends keyof SettingsType>(
+    key: K,
+    value: SettingsType[K]
+  ) => void;
+}
+
+export function SensitiveDataSettings({
+  settings,
+  onUpdate,
+}: SensitiveDataSettingsProps) {
+  const {
+    sensitiveDataDetection,
+    sensitiveDataActions,
+    sensitiveDataExpiryMinutes,
+  } = settings;
+
+  const updateAction = (
+    ruleId: SensitiveDataRuleId,
+    action: SensitiveDataAction
+  ) => {
+    onUpdate('sensitiveDataActions', {
+      ...sensitiveDataActions,
+      [ruleId]: action,
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <label className="text-sm font-medium text-light-text-primary dark:text-dark-text-primary">
+            Detect sensitive data
+          </label>
+          <p className="text-sm text-light-text-secondary dark:text-dark-text-secondary">
+            Recognize API keys, tokens, private keys and card numbers when they
+            are copied
+          </p>
+        </div>
+        <input
+          type="checkbox"
+          checked={sensitiveDataDetection}
+          onChange={e => onUpdate('sensitiveDataDetection', e.target.checked)}
+          className="w-4 h-4 text-primary-600 bg-gray-100 border-gray-300 rounded focus:ring-primary-500"
+        />
+      </div>
+
+      {sensitiveDataDetection && (
+        <div className="space-y-2">
+          {SENSITIVE_DATA_RULES.map(rule => (
+            <div
+              key={rule.id}
+              className="flex items-center justify-between text-sm text-light-text-primary dark:text-dark-text-primary"
+            >
+              <span>{rule.name}</span>
+              <select
+                value={
+                  sensitiveDataActions?.[rule.id] ||
+                  DEFAULT_SETTINGS.sensitiveDataActions[rule.id]
+                }
+                onChange={e =>
+                  updateAction(rule.id, e.target.value as SensitiveDataAction)
+                }
+                className="px-2 py-1 text-sm border border-light-border dark:border-dark-border rounded-md bg-light-bg-secondary dark:bg-dark-bg-secondary text-light-text-primary dark:text-dark-text-primary"
+              >
+                <option value="ignore">Save as usual</option>
+                <option value="skip">Don&apos;t save</option>
+                <option value="mask">Save masked</option>
+                <option value="expire">Save, then delete</option>
+              </select>
+            </div>
+          ))}
+
+          <div className="flex items-center space-x-3 text-sm text-light-text-secondary dark:text-dark-text-secondary">
+            <span>Delete after</span>
+            <input
+              type="number"
+              min="1"
+              max="1440"
+              value={sensitiveDataExpiryMinutes}
+              onChange={e => {
+                const minutes = parseInt(e.target.value);
+                if (minutes >= 1 && minutes <= 1440) {
+                  onUpdate('sensitiveDataExpiryMinutes', minutes);
+                }
+              }}
+              className="w-20 px-3 py-1 border border-light-border dark:border-dark-border rounded-md bg-light-bg-secondary dark:bg-dark-bg-secondary text-light-text-primary dark:text-dark-text-primary"
+            />
+            <span>minutes</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,17 @@
 import { useEffect, useState } from 'react';
 import '../../../shared/electronAPI';
-import { Settings as SettingsType } from '../../../shared/types';
+import { parseIpcError } from '../../../shared/ipc-contract';
+import {
+  DuplicateMatchMode,
+  Settings as SettingsType,
+} from '../../../shared/types';
 import { useFontSize } from '../hooks/useFontSize';
 import { useTheme } from '../hooks/useTheme';
+import { CleanupSettings } from './CleanupSettings';
+import { EncryptionSettings } from './EncryptionSettings';
+import { ExcludedAppsSettings } from './ExcludedAppsSettings';
+import { PasteQueueSettings } from './PasteQueueSettings';
+import { SensitiveDataSettings } from './SensitiveDataSettings';
 
 interface SettingsProps {
   isOpen: boolean;
@@ -16,6 +25,7 @@ export function Settings({ isOpen, onClose }: SettingsProps) {
   const [tempHotkey, setTempHotkey] = useState('');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
   const [platform, setPlatform] = useState<string>('');
 
   // Use theme and font size hooks
@@ -257,21 +267,33 @@ export function Settings({ isOpen, onClose }: SettingsProps) {
     setTempHotkey('');
   };
 
-  const updateSetting = async (key: keyof SettingsType, value: any) => {
+  const updateSetting = async <K extends keyof SettingsType>(
+    key: K,
+    value: SettingsType[K]
+  ) => {
     try {
+      setSaveError(null);
       await window.electronAPI.settings.set(key, value);
       setSettings(prev => (prev ? { ...prev, [key]: value } : null));
 
       // Handle special settings that need immediate application
       if (key === 'theme') {
-        await updateTheme(value);
+        await updateTheme(value as SettingsType['theme']);
         await refreshTheme();
       } else if (key === 'fontSize') {
-        await updateFontSize(value);
+        await updateFontSize(value as SettingsType['fontSize']);
         await refreshFontSize();
       }
     } catch (error) {
       console.error('Failed to update setting:', error);
+      // Rejected values come back as an IpcError listing what was wrong
+      const ipcError = parseIpcError(error);
+      setSaveError(
+        `Failed to save ${key}: ${
+          ipcError?.detail ??
+          (error instanceof Error ? error.message : String(error))
+        }`
+      );
     }
   };
 
@@ -335,6 +357,8 @@ export function Settings({ isOpen, onClose }: SettingsProps) {
           </div>
         ) : (
           <div className="p-6 space-y-6">
+            {saveError && <p className="text-sm text-red-500">{saveError}</p>}
+
             {/* Global Hotkey Section */}
             <div className="space-y-4">
               <h3 className="text-lg font-medium text-light-text-primary dark:text-dark-text-primary">
@@ -343,7 +367,8 @@ export function Settings({ isOpen, onClose }: SettingsProps) {
               <div className="space-y-3">
                 <p className="text-sm text-light-text-secondary dark:text-dark-text-secondary">
                   Press this key combination from anywhere to open LocalClip.
-                  Click "Change" and then press your desired key combination.
+                  Click &quot;Change&quot; and then press your desired key
+                  combination.
                   <br />
                   <strong>Note:</strong> Must include at least one modifier
                   (Cmd/Ctrl, Alt, or Shift) + a main key for security.
@@ -433,6 +458,17 @@ export function Settings({ isOpen, onClose }: SettingsProps) {
                     </>
                   )}
                 </p>
+
+                {settings && (
+                  <PasteQueueSettings
+                    hotkey={settings.pasteQueueHotkey}
+                    onChange={hotkey =>
+                      setSettings(prev =>
+                        prev ? { ...prev, pasteQueueHotkey: hotkey } : null
+                      )
+                    }
+                  />
+                )}
               </div>
             </div>
 
@@ -501,6 +537,44 @@ export function Settings({ isOpen, onClose }: SettingsProps) {
                     />
                   </div>
 
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <label className="text-sm font-medium text-light-text-primary dark:text-dark-text-primary">
+                          Duplicate detection
+                        </label>
+                        <p className="text-sm text-light-text-secondary dark:text-dark-text-secondary">
+                          Copying something again moves the existing item to the
+                          top
+                        </p>
+                      </div>
+                      <input
+                        type="checkbox"
+                        checked={settings.duplicateDetection}
+                        onChange={e =>
+                          updateSetting('duplicateDetection', e.target.checked)
+                        }
+                        className="w-4 h-4 text-primary-600 bg-gray-100 border-gray-300 rounded focus:ring-primary-500"
+                      />
+                    </div>
+                    <select
+                      value={settings.duplicateMatch}
+                      disabled={!settings.duplicateDetection}
+                      onChange={e =>
+                        updateSetting(
+                          'duplicateMatch',
+                          e.target.value as DuplicateMatchMode
+                        )
+                      }
+                      className="w-full px-3 py-2 border border-light-border dark:border-dark-border rounded-md bg-light-bg-secondary dark:bg-dark-bg-secondary text-light-text-primary dark:text-dark-text-primary disabled:opacity-50"
+                    >
+                      <option value="exact">Exact match</option>
+                      <option value="normalized">
+                        Ignore whitespace differences
+                      </option>
+                    </select>
+                  </div>
+
                   <div className="space-y-2">
                     <label className="text-sm font-medium text-light-text-primary dark:text-dark-text-primary">
                       Maximum history items: {settings.maxHistoryItems}
@@ -530,6 +604,32 @@ export function Settings({ isOpen, onClose }: SettingsProps) {
                     </div>
                   </div>
 
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <label className="text-sm font-medium text-light-text-primary dark:text-dark-text-primary">
+                        Keep favorites
+                      </label>
+                      <p className="text-sm text-light-text-secondary dark:text-dark-text-secondary">
+                        Favorites don&apos;t count towards the limit and are
+                        never removed by it
+                      </p>
+                    </div>
+                    <input
+                      type="checkbox"
+                      checked={settings.keepFavorites}
+                      onChange={e =>
+                        updateSetting('keepFavorites', e.target.checked)
+                      }
+                      className="w-4 h-4 text-primary-600 bg-gray-100 border-gray-300 rounded focus:ring-primary-500"
+                    />
+                  </div>
+
+                  <CleanupSettings
+                    autoCleanup={settings.autoCleanup}
+                    cleanupDays={settings.cleanupDays}
+                    onUpdate={updateSetting}
+                  />
+
                   <div className="flex items-center justify-between">
                     <div>
                       <label className="text-sm font-medium text-light-text-primary dark:text-dark-text-primary">
@@ -560,6 +660,53 @@ export function Settings({ isOpen, onClose }: SettingsProps) {
               </div>
             )}
 
+            {/* Privacy Settings */}
+            {settings && (
+              <div className="space-y-4">
+                <h3 className="text-lg font-medium text-light-text-primary dark:text-dark-text-primary">
+                  Privacy
+                </h3>
+
+                <EncryptionSettings
+                  onChange={enabled =>
+                    setSettings(prev =>
+                      prev ? { ...prev, encryptData: enabled } : null
+                    )
+                  }
+                />
+
+                <ExcludedAppsSettings
+                  excludedApps={settings.excludedApps || []}
+                  onChange={apps => updateSetting('excludedApps', apps)}
+                />
+
+                <SensitiveDataSettings
+                  settings={settings}
+                  onUpdate={updateSetting}
+                />
+
+                <div className="flex items-center justify-between">
+                  <div>
+                    <label className="text-sm font-medium text-light-text-primary dark:text-dark-text-primary">
+                      Clear clipboard on expiry
+                    </label>
+                    <p className="text-sm text-light-text-secondary dark:text-dark-text-secondary">
+                      When an item expires, also clear it from the system
+                      clipboard if it&apos;s still there
+                    </p>
+                  </div>
+                  <input
+                    type="checkbox"
+                    checked={settings.clearClipboardOnExpiry}
+                    onChange={e =>
+                      updateSetting('clearClipboardOnExpiry', e.target.checked)
+                    }
+                    className="w-4 h-4 text-primary-600 bg-gray-100 border-gray-300 rounded focus:ring-primary-500"
+                  />
+                </div>
+              </div>
+            )}
+
             {/* Theme Settings */}
             {settings && (
               <div className="space-y-4">
@@ -574,7 +721,12 @@ export function Settings({ isOpen, onClose }: SettingsProps) {
                     </label>
                     <select
                       value={settings.theme}
-                      onChange={e => updateSetting('theme', e.target.value)}
+                      onChange={e =>
+                        updateSetting(
+                          'theme',
+                          e.target.value as SettingsType['theme']
+                        )
+                      }
                       className="w-full px-3 py-2 border border-light-border dark:border-dark-border rounded-md bg-light-bg-secondary dark:bg-dark-bg-secondary text-light-text-primary dark:text-dark-text-primary"
                     >
                       <option value="light">Light</option>
@@ -589,7 +741,12 @@ export function Settings({ isOpen, onClose }: SettingsProps) {
                     </label>
                     <select
                       value={settings.fontSize}
-                      onChange={e => updateSetting('fontSize', e.target.value)}
+                      onChange={e =>
+                        updateSetting(
+                          'fontSize',
+                          e.target.value as SettingsType['fontSize']
+                        )
+                      }
                       className="w-full px-3 py-2 border border-light-border dark:border-dark-border rounded-md bg-light-bg-secondary dark:bg-dark-bg-secondary text-light-text-primary dark:text-dark-text-primary"
                     >
                       <option value="small">Small</option>
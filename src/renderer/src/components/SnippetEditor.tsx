@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from 'react';
+import { getSnippetError } from '../../../shared/snippets';
+import { Snippet, SnippetInput } from '../../../shared/types';
+
+interface SnippetEditorProps {
+  // Snippet being edited, or the starting values of a new one
+  snippet?: Snippet;
+  initialValues?: Partial<SnippetInput>;
+  onSaved: (snippet: Snippet) => void;
+  onClose: () => void;
+}
+
+const inputClassName =
+  'w-full px-3 py-2 text-sm border border-light-border dark:border-dark-border rounded-lg bg-light-bg-secondary dark:bg-dark-bg-secondary text-light-text-primary dark:text-dark-text-primary focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+export const SnippetEditor: React.FC<SnippetEditorProps> = ({
+  snippet,
+  initialValues,
+  onSaved,
+  onClose,
+}) => {
+  const [values, setValues] = useState<SnippetInput>({
+    name: snippet?.name ?? initialValues?.name ?? '',
+    content: snippet?.content ?? initialValues?.content ?? '',
+    folder: snippet?.folder ?? initialValues?.folder ?? '',
+    abbreviation: snippet?.abbreviation ?? initialValues?.abbreviation ?? '',
+  });
+  const [snippets, setSnippets] = useState<Snippet[]>([]);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    loadSnippets();
+  }, []);
+
+  // Existing snippets, for abbreviation checks and folder suggestions
+  const loadSnippets = async () => {
+    try {
+      setSnippets((await window.electronAPI.snippets.list()) || []);
+    } catch (error) {
+      console.error('Failed to load snippets:', error);
+    }
+  };
+
+  const folders = Array.from(
+    new Set(snippets.map(existing => existing.folder).filter(Boolean))
+  );
+  const validationError = getSnippetError(values, snippets, snippet?.id);
+
+  const update = (key: keyof SnippetInput, value: string) => {
+    setValues(prev => ({ ...prev, [key]: value }));
+    setSaveError(null);
+  };
+
+  const handleSave = async () => {
+    if (validationError || isSaving) return;
+
+    try {
+      setIsSaving(true);
+      const saved = snippet
+        ? await window.electronAPI.snippets.update(snippet.id, values)
+        : await window.electronAPI.snippets.create(values);
+      if (saved) onSaved(saved);
+    } catch (error) {
+      console.error('Failed to save snippet:', error);
+      setSaveError('Failed to save snippet');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Keep list navigation and paste shortcuts out of the editor
+    e.stopPropagation();
+
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    } else if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      handleSave();
+    }
+  };
+
+  // Only complain about a missing name or content once something was typed
+  const shownError =
+    saveError ||
+    (values.name.trim() && values.content ? validationError : null);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
+      onClick={e => {
+        e.stopPropagation();
+        onClose();
+      }}
+      onKeyDown={handleKeyDown}
+    >
+      <div
+        className="bg-light-bg-primary dark:bg-dark-bg-primary rounded-lg p-6 w-[32rem] max-w-[90vw] shadow-xl space-y-3"
+        onClick={e => e.stopPropagation()}
+      >
+        <h3 className="text-lg font-semibold text-light-text-primary dark:text-dark-text-primary">
+          {snippet ? 'Edit Snippet' : 'New Snippet'}
+        </h3>
+
+        <input
+          type="text"
+          value={values.name}
+          onChange={e => update('name', e.target.value)}
+          placeholder="Name"
+          aria-label="Name"
+          className={inputClassName}
+          autoFocus
+        />
+
+        <div className="flex space-x-3">
+          <input
+            type="text"
+            value={values.folder}
+            onChange={e => update('folder', e.target.value)}
+            placeholder="Folder"
+            aria-label="Folder"
+            list="snippet-folders"
+            className={inputClassName}
+          />
+          <datalist id="snippet-folders">
+            {folders.map(folder => (
+              <option key={folder} value={folder} />
+            ))}
+          </datalist>
+          <input
+            type="text"
+            value={values.abbreviation}
+            onChange={e => update('abbreviation', e.target.value)}
+            placeholder="Abbreviation, e.g. sig"
+            aria-label="Abbreviation"
+            className={inputClassName}
+          />
+        </div>
+
+        <textarea
+          value={values.content}
+          onChange={e => update('content', e.target.value)}
+          placeholder="Snippet text"
+          aria-label="Content"
+          className={`${inputClassName} h-40 resize-none font-mono`}
+        />
+        <p className="text-xs text-light-text-tertiary dark:text-dark-text-tertiary">
+          Placeholders: {'{{date}}'}, {'{{clipboard}}'}, {'{{cursor}}'} and{' '}
+          {'{{input:Label}}'}, which asks for a value when pasting
+        </p>
+
+        {shownError && (
+          <p className="text-xs text-red-600 dark:text-red-400" role="alert">
+            {shownError}
+          </p>
+        )}
+
+        <div className="flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-light-text-secondary dark:text-dark-text-secondary hover:text-light-text-primary dark:hover:text-dark-text-primary transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!!validationError || isSaving}
+            className="px-4 py-2 text-sm bg-primary-600 hover:bg-primary-700 disabled:opacity-50 text-white rounded-lg transition-colors"
+          >
+            Save Snippet
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+
+interface SnippetInputsPromptProps {
+  snippetName: string;
+  // Labels of the snippet's {{input:Label}} placeholders
+  labels: string[];
+  onSubmit: (inputs: Record<string, string>) => void;
+  onClose: () => void;
+}
+
+export const SnippetInputsPrompt: React.FC<SnippetInputsPromptProps> = ({
+  snippetName,
+  labels,
+  onSubmit,
+  onClose,
+}) => {
+  const [inputs, setInputs] = useState<Record<string, string>>({});
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(inputs);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
+      onClick={onClose}
+      onKeyDown={e => {
+        // Keep list navigation and paste shortcuts out of the form
+        e.stopPropagation();
+        if (e.key === 'Escape') {
+          e.preventDefault();
+          onClose();
+        }
+      }}
+    >
+      <form
+        className="bg-light-bg-primary dark:bg-dark-bg-primary rounded-lg p-6 w-96 max-w-[90vw] shadow-xl space-y-3"
+        onClick={e => e.stopPropagation()}
+        onSubmit={handleSubmit}
+      >
+        <h3 className="text-lg font-semibold text-light-text-primary dark:text-dark-text-primary">
+          {snippetName}
+        </h3>
+
+        {labels.map((label, index) => (
+          <label key={label} className="block space-y-1">
+            <span className="text-sm text-light-text-secondary dark:text-dark-text-secondary">
+              {label}
+            </span>
+            <input
+              type="text"
+              value={inputs[label] ?? ''}
+              onChange={e =>
+                setInputs(prev => ({ ...prev, [label]: e.target.value }))
+              }
+              className="w-full px-3 py-2 text-sm border border-light-border dark:border-dark-border rounded-lg bg-light-bg-secondary dark:bg-dark-bg-secondary text-light-text-primary dark:text-dark-text-primary focus:outline-none focus:ring-2 focus:ring-primary-500"
+              autoFocus={index === 0}
+            />
+          </label>
+        ))}
+
+        <div className="flex justify-end space-x-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-light-text-secondary dark:text-dark-text-secondary hover:text-light-text-primary dark:hover:text-dark-text-primary transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            className="px-4 py-2 text-sm bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition-colors"
+          >
+            Paste
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,237 @@
+import React, { useEffect, useState } from 'react';
+import { getTemplateInputs, searchSnippets } from '../../../shared/snippets';
+import { Snippet } from '../../../shared/types';
+import { SnippetEditor } from './SnippetEditor';
+import { SnippetInputsPrompt } from './SnippetInputsPrompt';
+
+export const SnippetsView: React.FC = () => {
+  const [snippets, setSnippets] = useState<Snippet[]>([]);
+  const [query, setQuery] = useState('');
+  const [folder, setFolder] = useState('all');
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  // Snippet open in the editor, or 'new' for a blank one
+  const [editing, setEditing] = useState<Snippet | 'new' | null>(null);
+  // Snippet waiting for the values of its {{input:Label}} placeholders
+  const [prompting, setPrompting] = useState<Snippet | null>(null);
+
+  useEffect(() => {
+    loadSnippets();
+  }, []);
+
+  const loadSnippets = async () => {
+    try {
+      setSnippets((await window.electronAPI.snippets.list()) || []);
+    } catch (error) {
+      console.error('Failed to load snippets:', error);
+    }
+  };
+
+  const folders = Array.from(
+    new Set(snippets.map(snippet => snippet.folder).filter(Boolean))
+  ) as string[];
+  const visibleSnippets = searchSnippets(
+    query,
+    folder === 'all'
+      ? snippets
+      : snippets.filter(snippet => (snippet.folder || '') === folder)
+  );
+
+  useEffect(() => {
+    setSelectedIndex(0);
+  }, [query, folder]);
+
+  const pasteSnippet = async (
+    snippet: Snippet,
+    inputs?: Record<string, string>
+  ) => {
+    // Ask for the {{input:Label}} values first
+    if (!inputs && getTemplateInputs(snippet.content).length > 0) {
+      setPrompting(snippet);
+      return;
+    }
+
+    setPrompting(null);
+    try {
+      await window.electronAPI.snippets.paste(snippet.id, inputs);
+    } catch (error) {
+      console.error('Failed to paste snippet:', error);
+    }
+  };
+
+  const deleteSnippet = async (id: number) => {
+    try {
+      if (await window.electronAPI.snippets.delete(id)) {
+        setSnippets(prev => prev.filter(snippet => snippet.id !== id));
+      }
+    } catch (error) {
+      console.error('Failed to delete snippet:', error);
+    }
+  };
+
+  // Keyboard navigation, paused while a dialog is open
+  useEffect(() => {
+    if (editing || prompting) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      switch (event.key) {
+        case 'ArrowDown':
+          event.preventDefault();
+          setSelectedIndex(prev =>
+            prev < visibleSnippets.length - 1 ? prev + 1 : 0
+          );
+          break;
+        case 'ArrowUp':
+          event.preventDefault();
+          setSelectedIndex(prev =>
+            prev > 0 ? prev - 1 : Math.max(visibleSnippets.length - 1, 0)
+          );
+          break;
+        case 'Enter':
+          event.preventDefault();
+          if (visibleSnippets[selectedIndex]) {
+            pasteSnippet(visibleSnippets[selectedIndex]);
+          }
+          break;
+        case 'Escape':
+          event.preventDefault();
+          window.electronAPI?.window?.hide?.();
+          break;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [visibleSnippets, selectedIndex, editing, prompting]);
+
+  return (
+    <div className="flex-1 overflow-hidden flex flex-col space-y-4">
+      <div className="flex items-center space-x-2">
+        <input
+          type="text"
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          placeholder="Search snippets or type an abbreviation..."
+          className="flex-1 px-3 py-2 text-sm border border-light-border dark:border-dark-border rounded-lg bg-light-bg-secondary dark:bg-dark-bg-secondary text-light-text-primary dark:text-dark-text-primary focus:outline-none focus:ring-2 focus:ring-primary-500"
+          autoFocus
+        />
+        {folders.length > 0 && (
+          <select
+            value={folder}
+            onChange={e => setFolder(e.target.value)}
+            className="px-2 py-2 text-sm border border-light-border dark:border-dark-border rounded-lg bg-light-bg-secondary dark:bg-dark-bg-secondary text-light-text-primary dark:text-dark-text-primary"
+            title="Folder"
+          >
+            <option value="all">All folders</option>
+            {folders.map(name => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+            <option value="">No folder</option>
+          </select>
+        )}
+        <button
+          onClick={() => setEditing('new')}
+          className="px-3 py-2 text-sm bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition-colors"
+        >
+          New
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto space-y-2">
+        {visibleSnippets.map((snippet, index) => (
+          <div
+            key={snippet.id}
+            className={`bg-light-bg-secondary dark:bg-dark-bg-secondary border rounded-lg p-2 transition-all duration-200 group cursor-pointer ${
+              index === selectedIndex
+                ? 'border-primary-500 ring-2 ring-primary-500/20'
+                : 'border-light-border dark:border-dark-border hover:border-primary-300 dark:hover:border-primary-700'
+            }`}
+            onClick={() => pasteSnippet(snippet)}
+            title="Click to paste"
+          >
+            <div className="flex items-center justify-between mb-1">
+              <div className="flex items-center space-x-2 min-w-0">
+                <span className="text-sm font-medium text-light-text-primary dark:text-dark-text-primary truncate">
+                  {snippet.name}
+                </span>
+                {snippet.abbreviation && (
+                  <span className="px-1.5 py-0.5 text-[10px] font-mono rounded bg-light-bg-tertiary dark:bg-dark-bg-tertiary text-light-text-secondary dark:text-dark-text-secondary">
+                    {snippet.abbreviation}
+                  </span>
+                )}
+                {snippet.folder && (
+                  <span className="text-xs text-light-text-tertiary dark:text-dark-text-tertiary">
+                    📁 {snippet.folder}
+                  </span>
+                )}
+              </div>
+
+              <div className="flex items-center space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                <button
+                  onClick={e => {
+                    e.stopPropagation();
+                    setEditing(snippet);
+                  }}
+                  className="p-1 hover:bg-light-bg-primary dark:hover:bg-dark-bg-primary rounded text-xs"
+                  title="Edit snippet"
+                >
+                  ✏️
+                </button>
+                <button
+                  onClick={e => {
+                    e.stopPropagation();
+                    deleteSnippet(snippet.id);
+                  }}
+                  className="p-1 hover:bg-red-100 dark:hover:bg-red-900 rounded text-xs text-red-600 dark:text-red-400"
+                  title="Delete snippet"
+                >
+                  🗑️
+                </button>
+              </div>
+            </div>
+
+            <div className="text-sm text-light-text-secondary dark:text-dark-text-secondary line-clamp-2 font-mono whitespace-pre-wrap">
+              {snippet.content}
+            </div>
+          </div>
+        ))}
+
+        {visibleSnippets.length === 0 && (
+          <div className="text-center py-8 text-light-text-secondary dark:text-dark-text-secondary">
+            {snippets.length === 0 ? (
+              <>
+                <p className="text-lg mb-2">No snippets yet</p>
+                <p className="text-sm">
+                  Create one, or save a clipboard entry as a snippet
+                </p>
+              </>
+            ) : (
+              'No snippets match your search'
+            )}
+          </div>
+        )}
+      </div>
+
+      {editing && (
+        <SnippetEditor
+          snippet={editing === 'new' ? undefined : editing}
+          onSaved={() => {
+            setEditing(null);
+            loadSnippets();
+          }}
+          onClose={() => setEditing(null)}
+        />
+      )}
+
+      {prompting && (
+        <SnippetInputsPrompt
+          snippetName={prompting.name}
+          labels={getTemplateInputs(prompting.content)}
+          onSubmit={inputs => pasteSnippet(prompting, inputs)}
+          onClose={() => setPrompting(null)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from 'react';
+
+interface TagEditorProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  onClose: () => void;
+}
+
+const MAX_SUGGESTIONS = 5;
+
+export const TagEditor: React.FC<TagEditorProps> = ({
+  tags,
+  onChange,
+  onClose,
+}) => {
+  const [input, setInput] = useState('');
+  const [knownTags, setKnownTags] = useState<string[]>([]);
+  const [highlightedIndex, setHighlightedIndex] = useState(-1);
+
+  useEffect(() => {
+    loadKnownTags();
+  }, []);
+
+  const loadKnownTags = async () => {
+    try {
+      const tagCounts = await window.electronAPI.clipboard.listTags();
+      setKnownTags((tagCounts || []).map(({ tag }) => tag));
+    } catch (error) {
+      console.error('Failed to load tags:', error);
+    }
+  };
+
+  const hasTag = (tag: string) =>
+    tags.some(existing => existing.toLowerCase() === tag.toLowerCase());
+
+  const query = input.trim().replace(/^#+/, '').toLowerCase();
+  const suggestions = query
+    ? knownTags
+        .filter(tag => tag.toLowerCase().includes(query) && !hasTag(tag))
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const addTag = (tag: string) => {
+    const name = tag.trim().replace(/^#+/, '');
+    setInput('');
+    setHighlightedIndex(-1);
+    if (!name || hasTag(name)) return;
+    onChange([...tags, name]);
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(tags.filter(existing => existing !== tag));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    // Keep list navigation and paste shortcuts out of the editor
+    e.stopPropagation();
+
+    switch (e.key) {
+      case 'Enter':
+      case ',':
+        e.preventDefault();
+        addTag(highlightedIndex >= 0 ? suggestions[highlightedIndex] : input);
+        break;
+      case 'ArrowDown':
+        e.preventDefault();
+        setHighlightedIndex(prev => Math.min(prev + 1, suggestions.length - 1));
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setHighlightedIndex(prev => Math.max(prev - 1, -1));
+        break;
+      case 'Backspace':
+        if (!input && tags.length > 0) {
+          removeTag(tags[tags.length - 1]);
+        }
+        break;
+      case 'Escape':
+        e.preventDefault();
+        onClose();
+        break;
+    }
+  };
+
+  return (
+    <div className="mt-2 relative" onClick={e => e.stopPropagation()}>
+      <div className="flex flex-wrap items-center gap-1 px-2 py-1 border border-light-border dark:border-dark-border rounded-md bg-light-bg-primary dark:bg-dark-bg-primary">
+        {tags.map(tag => (
+          <span
+            key={tag}
+            className="inline-flex items-center gap-1 px-2 py-0.5 text-xs rounded-full bg-primary-100 dark:bg-primary-900/30 text-primary-700 dark:text-primary-300"
+          >
+            #{tag}
+            <button
+              onClick={() => removeTag(tag)}
+              className="hover:opacity-75"
+              title={`Remove tag ${tag}`}
+            >
+              ✕
+            </button>
+          </span>
+        ))}
+        <input
+          type="text"
+          value={input}
+          onChange={e => {
+            setInput(e.target.value);
+            setHighlightedIndex(-1);
+          }}
+          onKeyDown={handleKeyDown}
+          onBlur={() => addTag(input)}
+          placeholder={tags.length ? 'Add tag' : 'Add tags, e.g. work'}
+          className="flex-1 min-w-[6rem] py-0.5 text-xs bg-transparent text-light-text-primary dark:text-dark-text-primary focus:outline-none"
+          autoFocus
+        />
+      </div>
+
+      {suggestions.length > 0 && (
+        <div className="absolute left-0 right-0 mt-1 bg-light-bg-primary dark:bg-dark-bg-primary border border-light-border dark:border-dark-border rounded-md shadow-lg z-50">
+          {suggestions.map((tag, index) => (
+            <button
+              key={tag}
+              // Pick the tag before the input's blur adds the typed text
+              onMouseDown={e => {
+                e.preventDefault();
+                addTag(tag);
+              }}
+              className={`w-full px-3 py-1 text-left text-xs text-light-text-primary dark:text-dark-text-primary first:rounded-t-md last:rounded-b-md ${
+                index === highlightedIndex
+                  ? 'bg-light-bg-secondary dark:bg-dark-bg-secondary'
+                  : 'hover:bg-light-bg-secondary dark:hover:bg-dark-bg-secondary'
+              }`}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
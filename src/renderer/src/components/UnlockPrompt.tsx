@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+
+interface UnlockPromptProps {
+  onUnlock: (passphrase: string) => Promise<boolean>;
+}
+
+export const UnlockPrompt: React.FC<UnlockPromptProps> = ({ onUnlock }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+
+    setIsUnlocking(true);
+    const success = await onUnlock(passphrase);
+    setIsUnlocking(false);
+
+    if (!success) {
+      setError('Incorrect passphrase');
+      setPassphrase('');
+    }
+  };
+
+  return (
+    <div className="flex-1 flex items-center justify-center">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm space-y-3">
+        <div className="text-center">
+          <p className="text-lg mb-1">🔒 Clipboard history is locked</p>
+          <p className="text-sm text-light-text-secondary dark:text-dark-text-secondary">
+            Enter your passphrase to decrypt it. New copies aren&apos;t saved
+            until you unlock.
+          </p>
+        </div>
+
+        <input
+          type="password"
+          value={passphrase}
+          onChange={e => {
+            setPassphrase(e.target.value);
+            setError(null);
+          }}
+          placeholder="Passphrase"
+          autoFocus
+          className="w-full px-3 py-2 border border-light-border dark:border-dark-border rounded-md bg-light-bg-secondary dark:bg-dark-bg-secondary text-light-text-primary dark:text-dark-text-primary"
+        />
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={isUnlocking || !passphrase}
+          className="w-full px-4 py-2 bg-primary-500 text-white rounded-md hover:bg-primary-600 transition-colors disabled:opacity-50"
+        >
+          {isUnlocking ? 'Unlocking...' : 'Unlock'}
+        </button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,22 @@
+import { ClipboardRepresentations } from './types';
+
+const LABELS: Record<
+  Exclude<keyof ClipboardRepresentations, 'custom'>,
+  string
+> = {
+  text: 'Text',
+  html: 'HTML',
+  rtf: 'RTF',
+  image: 'Image',
+  bookmark: 'Bookmark',
+};
+
+// Names of the formats held, standard ones first, then custom MIME types
+export const getRepresentationLabels = (
+  representations: ClipboardRepresentations
+): string[] => [
+  ...(Object.keys(LABELS) as (keyof typeof LABELS)[])
+    .filter(key => representations[key] !== undefined)
+    .map(key => LABELS[key]),
+  ...Object.keys(representations.custom || {}),
+];
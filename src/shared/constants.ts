@@ -1,2 +1,29 @@
+import { ClipboardEntry, HistorySortBy, SensitiveDataRuleId } from './types';
+
 // Simple utility to check if we're in development
 export const isDev = process.env.NODE_ENV === 'development';
+
+// Secret types recognized on capture, in the order they are checked
+export const SENSITIVE_DATA_RULES: { id: SensitiveDataRuleId; name: string }[] =
+  [
+    { id: 'private-key', name: 'Private key' },
+    { id: 'aws-access-key', name: 'AWS access key' },
+    { id: 'aws-secret-key', name: 'AWS secret key' },
+    { id: 'jwt', name: 'JSON Web Token' },
+    { id: 'github-token', name: 'GitHub token' },
+    { id: 'slack-token', name: 'Slack token' },
+    { id: 'stripe-key', name: 'Stripe secret key' },
+    { id: 'credit-card', name: 'Credit card number' },
+    { id: 'high-entropy-token', name: 'API key or token' },
+  ];
+
+// Sort orders offered in the header, default first
+export const HISTORY_SORT_OPTIONS: { value: HistorySortBy; label: string }[] = [
+  { value: 'created', label: 'Newest' },
+  { value: 'lastUsed', label: 'Recently used' },
+  { value: 'usageCount', label: 'Most used' },
+  { value: 'frecency', label: 'Frequent' },
+];
+
+// Formats whose content can be edited in place
+export const EDITABLE_FORMATS: ClipboardEntry['format'][] = ['text', 'html'];
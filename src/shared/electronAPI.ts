@@ -1,36 +1,19 @@
-import { ClipboardEntry, Settings } from './types';
+import { IpcInvokeApi } from './ipc-contract';
+import { CleanupReport, ClipboardEntry, PasteQueueState } from './types';
 
-export interface ElectronAPI {
-  clipboard: {
-    getHistory: (options?: any) => Promise<ClipboardEntry[]>;
-    delete: (id: number) => Promise<boolean>;
-    pin: (id: number) => Promise<ClipboardEntry | null>;
-    updateNote: (id: number, note: string) => Promise<ClipboardEntry | null>;
-    clear: () => Promise<boolean>;
-    paste: (content: string) => Promise<boolean>;
-    smartPaste: (content: string) => Promise<boolean>;
-  };
-  settings: {
-    get: (key?: string) => Promise<any>;
-    set: (key: string, value: any) => Promise<void>;
-    getAll: () => Promise<Settings>;
-  };
-  window: {
-    show: () => Promise<void>;
-    hide: () => Promise<void>;
-    toggle: () => Promise<void>;
-    closeAbout: () => Promise<void>;
-  };
-  hotkey: {
-    register: (hotkey: string) => Promise<boolean>;
-    getCurrent: () => Promise<string>;
-  };
+// The invoke methods come from the channel registry in ipc-contract.ts
+export interface ElectronAPI extends Omit<IpcInvokeApi, 'utils'> {
   on: {
     clipboardChanged: (callback: (entry: ClipboardEntry) => void) => () => void;
+    entriesExpired: (callback: (ids: number[]) => void) => () => void;
+    entryUpdated: (callback: (entry: ClipboardEntry) => void) => () => void;
+    historyCleaned: (callback: (report: CleanupReport) => void) => () => void;
+    pasteQueueChanged: (
+      callback: (state: PasteQueueState) => void
+    ) => () => void;
     settingsChanged: (callback: () => void) => () => void;
   };
-  utils: {
-    getVersion: () => Promise<string>;
+  utils: IpcInvokeApi['utils'] & {
     getPlatform: () => string;
     isProduction: () => boolean;
   };
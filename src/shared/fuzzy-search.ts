@@ -0,0 +1,386 @@
+import { extractTextFromHTML, extractTextFromRTF } from './text-extraction';
+import { ClipboardEntry } from './types';
+
+export interface FuzzyMatch {
+  // Relevance from 0 to 1
+  score: number;
+  // Indexes of the matched characters in the text
+  positions: number[];
+}
+
+export interface HighlightRange {
+  start: number;
+  end: number;
+}
+
+// Scores for each kind of match, best first
+const EXACT_WORD_SCORE = 1;
+const PREFIX_SCORE = 0.95;
+const EXACT_SCORE = 0.9;
+const ACRONYM_SCORE = 0.8;
+const SUBSEQUENCE_SCORE = 0.7;
+const TYPO_SCORE = 0.5;
+
+// Matches spread wider than this many characters per query character are
+// treated as noise rather than a subsequence match
+const MAX_SPREAD = 3;
+// Long texts are only matched fuzzily near their start
+const MAX_FUZZY_LENGTH = 5000;
+// Terms shorter than this must be spelled correctly
+const MIN_TYPO_LENGTH = 4;
+
+// Blend of relevance, recency and usage when ranking search results
+const RELEVANCE_WEIGHT = 0.7;
+const RECENCY_WEIGHT = 0.2;
+const USAGE_WEIGHT = 0.1;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isSeparator = (char: string) =>
+  /[\s\-_./\\:,;()[\]{}"'`<>|=+*#@!?]/.test(char);
+
+// Start of a word: after a separator, or a capital following a lowercase
+// letter as in camelCase
+const isWordStart = (text: string, index: number) =>
+  index === 0 ||
+  isSeparator(text[index - 1]) ||
+  (/[a-z]/.test(text[index - 1]) && /[A-Z]/.test(text[index]));
+
+const range = (start: number, length: number) =>
+  Array.from({ length }, (_, i) => start + i);
+
+// Prefers an occurrence at the start of a word over the first one
+const matchExact = (term: string, text: string, lower: string) => {
+  let firstIndex = -1;
+  for (
+    let index = lower.indexOf(term);
+    index !== -1;
+    index = lower.indexOf(term, index + 1)
+  ) {
+    if (isWordStart(text, index)) {
+      return {
+        score: EXACT_WORD_SCORE,
+        positions: range(index, term.length),
+      };
+    }
+    if (firstIndex === -1) firstIndex = index;
+  }
+
+  return firstIndex === -1
+    ? null
+    : { score: EXACT_SCORE, positions: range(firstIndex, term.length) };
+};
+
+// Each character of the term starts a word, as "gco" in "git checkout"
+const matchAcronym = (term: string, text: string, lower: string) => {
+  const positions: number[] = [];
+  for (let i = 0; i < text.length && positions.length < term.length; i++) {
+    if (lower[i] === term[positions.length] && isWordStart(text, i)) {
+      positions.push(i);
+    }
+  }
+  return positions.length === term.length
+    ? { score: ACRONYM_SCORE, positions }
+    : null;
+};
+
+// The characters of the term in order, in the tightest window found. Only
+// the window's ends are tracked while searching, as the search index tries
+// every word it holds.
+const matchSubsequence = (term: string, lower: string) => {
+  const maxSpan = term.length * MAX_SPREAD;
+  let bestStart = -1;
+  let bestSpan = maxSpan;
+
+  for (
+    let start = lower.indexOf(term[0]);
+    start !== -1 && start < MAX_FUZZY_LENGTH;
+    start = lower.indexOf(term[0], start + 1)
+  ) {
+    let matched = 1;
+    let end = start + 1;
+    for (
+      ;
+      end < lower.length && end - start < maxSpan && matched < term.length;
+      end++
+    ) {
+      if (lower[end] === term[matched]) matched++;
+    }
+
+    if (matched < term.length) continue;
+    if (bestStart === -1 || end - start < bestSpan) {
+      bestStart = start;
+      bestSpan = end - start;
+      if (bestSpan === term.length) break;
+    }
+  }
+
+  if (bestStart === -1) return null;
+  const positions = [bestStart];
+  for (let i = bestStart + 1; positions.length < term.length; i++) {
+    if (lower[i] === term[positions.length]) positions.push(i);
+  }
+  return {
+    score: SUBSEQUENCE_SCORE * (term.length / bestSpan),
+    positions,
+  };
+};
+
+// Rows of the edit distance table, reused between calls as the search index
+// compares a term with every word it holds
+let rows = [new Int32Array(0), new Int32Array(0), new Int32Array(0)];
+
+// Edit distance counting swapped neighbours as one edit, giving up once it
+// exceeds the limit. Only cells within the limit of the diagonal can stay
+// under it, so the rest are skipped.
+const editDistance = (a: string, b: string, limit: number) => {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+
+  if (rows[0].length <= b.length + 1) {
+    rows = rows.map(() => new Int32Array(b.length + 2));
+  }
+  let [previousRow, row, nextRow] = rows;
+  for (let j = 0; j <= b.length; j++) row[j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    const char = a.charCodeAt(i - 1);
+    const from = i > limit ? i - limit : 1;
+    const to = i + limit < b.length ? i + limit : b.length;
+    nextRow[from - 1] = from === 1 ? i : limit + 1;
+    nextRow[to + 1] = limit + 1;
+    let rowMin = limit + 1;
+    for (let j = from; j <= to; j++) {
+      let distance = row[j - 1] + (char === b.charCodeAt(j - 1) ? 0 : 1);
+      if (row[j] + 1 < distance) distance = row[j] + 1;
+      if (nextRow[j - 1] + 1 < distance) distance = nextRow[j - 1] + 1;
+      if (
+        i > 1 &&
+        j > 1 &&
+        previousRow[j - 2] + 1 < distance &&
+        char === b.charCodeAt(j - 2) &&
+        a.charCodeAt(i - 2) === b.charCodeAt(j - 1)
+      ) {
+        distance = previousRow[j - 2] + 1;
+      }
+      nextRow[j] = distance;
+      if (distance < rowMin) rowMin = distance;
+    }
+    if (rowMin > limit) return limit + 1;
+    [previousRow, row, nextRow] = [row, nextRow, previousRow];
+  }
+  return row[b.length];
+};
+
+const getMaxTypos = (term: string) => (term.length >= 8 ? 2 : 1);
+
+// Score of a word, or the start of one, within a typo or two of the term
+const scoreTypo = (term: string, word: string) => {
+  const maxTypos = getMaxTypos(term);
+  // Compare prefixes so half-typed words still match
+  const distance = editDistance(
+    term,
+    word.slice(0, term.length + maxTypos),
+    maxTypos
+  );
+  return distance > maxTypos
+    ? 0
+    : TYPO_SCORE * (1 - distance / (term.length + 1));
+};
+
+// The word in the text closest to the term, allowing a typo or two
+const matchTypo = (term: string, lower: string) => {
+  if (term.length < MIN_TYPO_LENGTH) return null;
+  let best: FuzzyMatch | null = null;
+
+  const words = lower.slice(0, MAX_FUZZY_LENGTH).matchAll(/\S+/g);
+  for (const word of words) {
+    const score = scoreTypo(term, word[0]);
+    if (score > (best?.score || 0)) {
+      best = {
+        score,
+        positions: range(word.index!, Math.min(word[0].length, term.length)),
+      };
+    }
+  }
+  return best;
+};
+
+const matchTerm = (term: string, text: string): FuzzyMatch | null => {
+  const lower = text.toLowerCase();
+  return (
+    matchExact(term, text, lower) ||
+    matchAcronym(term, text, lower) ||
+    matchSubsequence(term, lower) ||
+    matchTypo(term, lower)
+  );
+};
+
+// Relevance of a single lowercase word for the term, or 0 when it doesn't
+// match. Used by the search index, which matches words rather than text.
+export const scoreWord = (term: string, word: string): number => {
+  if (word === term) return EXACT_WORD_SCORE;
+
+  const index = word.indexOf(term);
+  if (index !== -1) return index === 0 ? PREFIX_SCORE : EXACT_SCORE;
+
+  // Most words are too short to match any other way
+  if (word.length + getMaxTypos(term) < term.length) return 0;
+
+  const subsequence =
+    word.length >= term.length && matchSubsequence(term, word);
+  if (subsequence) return subsequence.score;
+
+  // Typos rarely change both of the first two letters, which keeps the
+  // expensive comparison to a fraction of the words
+  if (
+    term.length >= MIN_TYPO_LENGTH &&
+    (word[0] === term[0] || word[1] === term[1])
+  ) {
+    return scoreTypo(term, word);
+  }
+  return 0;
+};
+
+// Relevance of the initials of consecutive words, as "gcm" for "git commit
+// --message", or 0 when the term isn't among them
+export const scoreInitials = (term: string, initials: string): number =>
+  term.length > 1 && initials.includes(term) ? ACRONYM_SCORE : 0;
+
+export const splitQuery = (query: string): string[] =>
+  query.toLowerCase().split(/\s+/).filter(Boolean);
+
+// Matches every term of the query against the text. The score is the
+// average of the term scores.
+export const fuzzyMatch = (query: string, text: string): FuzzyMatch | null => {
+  const terms = splitQuery(query);
+  if (terms.length === 0 || !text) return null;
+
+  let total = 0;
+  const positions = new Set<number>();
+  for (const term of terms) {
+    const match = matchTerm(term, text);
+    if (!match) return null;
+    total += match.score;
+    match.positions.forEach(position => positions.add(position));
+  }
+
+  return {
+    score: total / terms.length,
+    positions: Array.from(positions).sort((a, b) => a - b),
+  };
+};
+
+export type SearchableEntry = Pick<
+  ClipboardEntry,
+  'content' | 'format' | 'preview' | 'category' | 'note'
+>;
+
+// Text of the entry's content that searches look at, with rich formats
+// reduced to their text and images, whose content is encoded data that would
+// match almost anything, left out
+const getSearchableContent = ({ content, format }: SearchableEntry) => {
+  switch (format) {
+    case 'image':
+      return undefined;
+    case 'html':
+      return extractTextFromHTML(content);
+    case 'rtf':
+      return extractTextFromRTF(content);
+    default:
+      return content;
+  }
+};
+
+// The text of an entry that searches look at
+export const getSearchableFields = (entry: SearchableEntry): string[] => {
+  const content = getSearchableContent(entry);
+  return [entry.preview, content, entry.note, entry.category].filter(
+    (field): field is string => !!field
+  );
+};
+
+// Relevance of an entry, where each term may match any of its fields, or
+// null when some term matches none of them
+export const matchEntry = (
+  query: string,
+  entry: SearchableEntry
+): number | null => {
+  const terms = splitQuery(query);
+  if (terms.length === 0) return null;
+
+  const fields = getSearchableFields(entry);
+  let total = 0;
+  for (const term of terms) {
+    let best = 0;
+    for (const field of fields) {
+      const match = matchTerm(term, field);
+      if (match && match.score > best) best = match.score;
+      if (best === EXACT_WORD_SCORE) break;
+    }
+    if (best === 0) return null;
+    total += best;
+  }
+  return total / terms.length;
+};
+
+// Dates may also be timestamps, as read from storage
+interface RankedEntry {
+  createdAt: Date | number;
+  lastUsedAt?: Date | number | null;
+  usageCount?: number;
+}
+
+// Blends relevance with how recently and how often the entry was used
+export const getSearchRank = (
+  relevance: number,
+  entry: RankedEntry,
+  now: number = Date.now()
+): number => {
+  const lastActivity = Number(entry.lastUsedAt || entry.createdAt);
+  const ageDays = Math.max(0, now - lastActivity) / DAY_MS;
+  const recency = 1 / (1 + ageDays);
+  const usage = Math.min(1, Math.log2((entry.usageCount || 0) + 1) / 5);
+
+  return (
+    RELEVANCE_WEIGHT * relevance +
+    RECENCY_WEIGHT * recency +
+    USAGE_WEIGHT * usage
+  );
+};
+
+// getSearchRank as an SQL expression over the columns of a stored entry, so
+// that many equally relevant matches are ranked without calling back into JS
+export const getSearchRankSql = (relevance: number, now: number): string => {
+  const lastActivity = 'COALESCE(NULLIF(last_used_at, 0), created_at)';
+  const recency = `1.0 / (1 + MAX(0, ${now} - ${lastActivity}) / ${DAY_MS}.0)`;
+  const usage = 'MIN(1, log2(usage_count + 1) / 5.0)';
+
+  return `(${RELEVANCE_WEIGHT * relevance} + ${RECENCY_WEIGHT} * ${recency} + ${USAGE_WEIGHT} * ${usage})`;
+};
+
+// Matched characters of the text merged into ranges for highlighting. Terms
+// that matched another field of the entry are skipped.
+export const getHighlightRanges = (
+  query: string,
+  text: string
+): HighlightRange[] => {
+  if (!text) return [];
+
+  const positions = new Set<number>();
+  for (const term of splitQuery(query)) {
+    matchTerm(term, text)?.positions.forEach(position =>
+      positions.add(position)
+    );
+  }
+
+  const ranges: HighlightRange[] = [];
+  for (const position of Array.from(positions).sort((a, b) => a - b)) {
+    const last = ranges[ranges.length - 1];
+    if (last && last.end === position) {
+      last.end++;
+    } else {
+      ranges.push({ start: position, end: position + 1 });
+    }
+  }
+  return ranges;
+};
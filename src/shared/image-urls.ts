@@ -0,0 +1,31 @@
+// Images in the image store are addressed by the SHA-256 of their PNG data,
+// or its keyed hash while history is encrypted, and served to the renderer
+// over this protocol
+export const IMAGE_PROTOCOL = 'localclip-image';
+
+export type ImageVariant = 'image' | 'thumbnail';
+
+const IMAGE_URL_PATTERN = new RegExp(
+  `^${IMAGE_PROTOCOL}://(image|thumbnail)/([0-9a-f]{64})$`
+);
+
+export const isImageHash = (value: string): boolean =>
+  /^[0-9a-f]{64}$/.test(value);
+
+export const toImageUrl = (hash: string, variant: ImageVariant = 'image') =>
+  `${IMAGE_PROTOCOL}://${variant}/${hash}`;
+
+export const parseImageUrl = (
+  url: string
+): { hash: string; variant: ImageVariant } | null => {
+  const match = url.match(IMAGE_URL_PATTERN);
+  return match ? { variant: match[1] as ImageVariant, hash: match[2] } : null;
+};
+
+// Thumbnail of an image entry. Entries saved before the image store hold the
+// whole image as a data URL, which is shown as is.
+export const getThumbnailUrl = (content: string): string | null => {
+  if (content.startsWith('data:image/')) return content;
+  const image = parseImageUrl(content);
+  return image ? toImageUrl(image.hash, 'thumbnail') : null;
+};
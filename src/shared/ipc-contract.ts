@@ -0,0 +1,481 @@
+import {
+  array,
+  boolean,
+  date,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  record,
+  Schema,
+  SchemaIssue,
+  string,
+  unknown,
+} from './ipc-schema';
+import { PASTE_TRANSFORMS, PasteTransformId } from './paste-transforms';
+import {
+  CleanupReport,
+  ClipboardEntry,
+  DEFAULT_SETTINGS,
+  EncryptionKeySource,
+  EncryptionStatus,
+  EntryRevision,
+  GetHistoryOptions,
+  HistoryPage,
+  HistorySortBy,
+  PasteQueueState,
+  SensitiveDataRuleId,
+  Settings,
+  Snippet,
+  SnippetInput,
+  StorageRecoveryInfo,
+  TagCount,
+  TagMatchMode,
+} from './types';
+
+// Every request the renderer can make of the main process. The preload
+// bridge, the ElectronAPI type and the argument checks in the main process
+// are all built from this list, so a channel is added here and nowhere else.
+
+export type NewClipboardEntry = Omit<
+  ClipboardEntry,
+  'id' | 'createdAt' | 'updatedAt'
+>;
+
+interface NamedSchema<T> {
+  name: string;
+  schema: Schema<T>;
+}
+
+type ArgSchemas<Args extends unknown[]> = {
+  [K in keyof Args]-?: readonly [string, Schema<Args[K]>];
+};
+
+// Bounds every channel signature, whatever arguments it takes
+type Signature = (...args: never[]) => unknown;
+
+export interface IpcChannelSpec<F extends Signature> {
+  args: NamedSchema<unknown>[];
+  // Checks between arguments, run once each argument is valid on its own
+  checkArgs?: (args: unknown[], issues: SchemaIssue[]) => void;
+  // Only carries the signature for the types derived from the registry
+  signature?: F;
+}
+
+// The schemas check Parameters<F>, or the wider Args when a signature's
+// parameters depend on each other and checkArgs checks the rest
+const channel = <F extends Signature, Args extends unknown[] = Parameters<F>>(
+  ...args: ArgSchemas<Args>
+): IpcChannelSpec<F> => ({
+  args: (args as unknown as [string, Schema<unknown>][]).map(
+    ([name, schema]) => ({ name, schema })
+  ),
+});
+
+const id = number({ integer: true, min: 1 });
+
+const SENSITIVE_DATA_RULES = Object.keys(
+  DEFAULT_SETTINGS.sensitiveDataActions
+) as SensitiveDataRuleId[];
+
+const clipboardFormat = oneOf<ClipboardEntry['format']>([
+  'text',
+  'image',
+  'file',
+  'html',
+  'rtf',
+]);
+
+const newEntryShape = {
+  content: string(),
+  contentType: string(),
+  format: clipboardFormat,
+  preview: optional(string()),
+  filePath: optional(string()),
+  appName: optional(string()),
+  isPinned: boolean(),
+  isFavorite: boolean(),
+  category: optional(string()),
+  tags: array(string()),
+  usageCount: number({ integer: true, min: 0 }),
+  lastUsedAt: optional(date()),
+  note: optional(string()),
+  sensitiveType: optional(oneOf(SENSITIVE_DATA_RULES)),
+  expiresAt: optional(date()),
+  representations: optional(
+    object({
+      text: optional(string()),
+      html: optional(string()),
+      rtf: optional(string()),
+      image: optional(string()),
+      bookmark: optional(object({ title: string(), url: string() })),
+      custom: optional(record(string())),
+    })
+  ),
+  files: optional(
+    array(
+      object({
+        path: string(),
+        name: string(),
+        isDirectory: boolean(),
+        size: optional(number({ min: 0 })),
+        icon: optional(string()),
+      })
+    )
+  ),
+  imageHash: optional(string()),
+};
+
+const newClipboardEntry: Schema<NewClipboardEntry> = object(newEntryShape);
+
+const clipboardEntry: Schema<ClipboardEntry> = object({
+  ...newEntryShape,
+  id,
+  createdAt: date(),
+  updatedAt: date(),
+});
+
+const sortBy = oneOf<HistorySortBy>([
+  'created',
+  'lastUsed',
+  'usageCount',
+  'frecency',
+]);
+
+const historyOptions: Schema<GetHistoryOptions> = object({
+  limit: optional(number({ integer: true, min: 0 })),
+  offset: optional(number({ integer: true, min: 0 })),
+  cursor: optional(nullable(string())),
+  category: optional(string()),
+  contentType: optional(string()),
+  dateRange: optional(object({ start: date(), end: date() })),
+  searchQuery: optional(string()),
+  favoritesOnly: optional(boolean()),
+  sortBy: optional(sortBy),
+  tags: optional(array(string())),
+  tagMatch: optional(oneOf<TagMatchMode>(['all', 'any'])),
+});
+
+const snippetInput: Schema<SnippetInput> = object({
+  name: string(),
+  content: string(),
+  folder: optional(string()),
+  abbreviation: optional(string()),
+});
+
+const pasteTransforms = array(
+  oneOf(PASTE_TRANSFORMS.map(transform => transform.id))
+);
+
+const hotkey = string({ minLength: 1 });
+
+// Values each setting may be set to
+export const SETTINGS_SCHEMA: { [K in keyof Settings]-?: Schema<Settings[K]> } =
+  {
+    maxHistoryItems: number({ integer: true, min: 1 }),
+    keepFavorites: boolean(),
+    autoStart: boolean(),
+    minimizeToTray: boolean(),
+    theme: oneOf(['light', 'dark', 'auto']),
+    accentColor: string(),
+    fontSize: oneOf(['small', 'medium', 'large']),
+    globalHotkey: hotkey,
+    pasteQueueHotkey: hotkey,
+    pasteQueueOrder: oneOf(['fifo', 'lifo']),
+    monitorClipboard: boolean(),
+    autoCategories: boolean(),
+    duplicateDetection: boolean(),
+    duplicateMatch: oneOf(['exact', 'normalized']),
+    sortBy,
+    excludedApps: array(string()),
+    sensitiveDataDetection: boolean(),
+    // Settings saved before a rule was added have no action for it, so
+    // rules may be missing but unknown ones are rejected
+    sensitiveDataActions: object(
+      Object.fromEntries(
+        SENSITIVE_DATA_RULES.map(rule => [
+          rule,
+          optional(oneOf(['ignore', 'skip', 'mask', 'expire'])),
+        ])
+      )
+    ) as Schema<Settings['sensitiveDataActions']>,
+    sensitiveDataExpiryMinutes: number({ integer: true, min: 1 }),
+    clearClipboardOnExpiry: boolean(),
+    incognitoMode: boolean(),
+    encryptData: boolean(),
+    autoCleanup: boolean(),
+    cleanupDays: number({ integer: true, min: 1 }),
+    hideFromDock: boolean(),
+  };
+
+const settingKey = oneOf(Object.keys(SETTINGS_SCHEMA) as (keyof Settings)[]);
+
+// One [key, value] pair per setting, so a handler that checks the key also
+// knows the type of the value
+type SettingArgs = {
+  [K in keyof Settings]-?: [key: K, value: Settings[K]];
+}[keyof Settings];
+
+export const IPC_CHANNELS = {
+  'window:show': channel<() => void>(),
+  'window:hide': channel<() => void>(),
+  'window:toggle': channel<() => void>(),
+  'window:closeAbout': channel<() => void>(),
+
+  'clipboard:getHistory': channel<
+    (options?: GetHistoryOptions) => ClipboardEntry[]
+  >(['options', optional(historyOptions)]),
+  'clipboard:query': channel<(options?: GetHistoryOptions) => HistoryPage>([
+    'options',
+    optional(historyOptions),
+  ]),
+  'clipboard:add': channel<(entry: NewClipboardEntry) => ClipboardEntry>([
+    'entry',
+    newClipboardEntry,
+  ]),
+  'clipboard:delete': channel<(id: number) => boolean>(['id', id]),
+  'clipboard:pin': channel<(id: number) => ClipboardEntry | null>(['id', id]),
+  'clipboard:favorite': channel<(id: number) => ClipboardEntry | null>([
+    'id',
+    id,
+  ]),
+  'clipboard:updateNote': channel<
+    (id: number, note: string) => ClipboardEntry | null
+  >(['id', id], ['note', string()]),
+  'clipboard:edit': channel<
+    (id: number, content: string) => ClipboardEntry | null
+  >(['id', id], ['content', string()]),
+  'clipboard:getRevisions': channel<(id: number) => EntryRevision[]>([
+    'id',
+    id,
+  ]),
+  'clipboard:restoreRevision': channel<
+    (id: number, revisionId: number) => ClipboardEntry | null
+  >(['id', id], ['revisionId', id]),
+  'clipboard:setTags': channel<
+    (id: number, tags: string[]) => ClipboardEntry | null
+  >(['id', id], ['tags', array(string())]),
+  'clipboard:listTags': channel<() => TagCount[]>(),
+  'clipboard:setExpiry': channel<
+    (id: number, expiresAt: Date | null) => ClipboardEntry | null
+  >(['id', id], ['expiresAt', nullable(date())]),
+  'clipboard:clear': channel<() => boolean>(),
+  'clipboard:paste': channel<(entry: ClipboardEntry) => boolean>([
+    'entry',
+    clipboardEntry,
+  ]),
+  'clipboard:smartPaste': channel<(entry: ClipboardEntry) => boolean>([
+    'entry',
+    clipboardEntry,
+  ]),
+  'clipboard:pasteAs': channel<
+    (entry: ClipboardEntry, transforms: PasteTransformId[]) => boolean
+  >(['entry', clipboardEntry], ['transforms', pasteTransforms]),
+  'clipboard:getRecentApps': channel<() => string[]>(),
+
+  'pasteQueue:getState': channel<() => PasteQueueState>(),
+  'pasteQueue:startCollecting': channel<() => PasteQueueState>(),
+  'pasteQueue:stopCollecting': channel<() => PasteQueueState>(),
+  'pasteQueue:add': channel<(entry: ClipboardEntry) => PasteQueueState>([
+    'entry',
+    clipboardEntry,
+  ]),
+  'pasteQueue:remove': channel<(index: number) => PasteQueueState>([
+    'index',
+    number({ integer: true, min: 0 }),
+  ]),
+  'pasteQueue:clear': channel<() => PasteQueueState>(),
+  'pasteQueue:pasteNext': channel<() => boolean>(),
+
+  'snippets:list': channel<() => Snippet[]>(),
+  'snippets:create': channel<(input: SnippetInput) => Snippet>([
+    'input',
+    snippetInput,
+  ]),
+  'snippets:update': channel<
+    (id: number, input: SnippetInput) => Snippet | null
+  >(['id', id], ['input', snippetInput]),
+  'snippets:delete': channel<(id: number) => boolean>(['id', id]),
+  'snippets:paste': channel<
+    (id: number, inputs?: Record<string, string>) => boolean
+  >(['id', id], ['inputs', optional(record(string()))]),
+
+  'storage:getRecoveryInfo': channel<() => StorageRecoveryInfo | null>(),
+  'storage:dismissRecovery': channel<() => boolean>(),
+
+  'encryption:getStatus': channel<() => EncryptionStatus>(),
+  'encryption:enable': channel<
+    (keySource: EncryptionKeySource, passphrase?: string) => EncryptionStatus
+  >(
+    ['keySource', oneOf(['keychain', 'passphrase'])],
+    ['passphrase', optional(string())]
+  ),
+  'encryption:disable': channel<() => EncryptionStatus>(),
+  'encryption:unlock': channel<(passphrase: string) => boolean>([
+    'passphrase',
+    string(),
+  ]),
+
+  'cleanup:run': channel<() => CleanupReport>(),
+  'cleanup:getLastReport': channel<() => CleanupReport | null>(),
+
+  'settings:get': channel<(key: keyof Settings) => unknown>([
+    'key',
+    settingKey,
+  ]),
+  'settings:set': {
+    ...channel<(...args: SettingArgs) => boolean, [keyof Settings, unknown]>(
+      ['key', settingKey],
+      ['value', unknown()]
+    ),
+    checkArgs: ([key, value], issues) => {
+      // Turning encryption on needs a key source and possibly a passphrase
+      if (key === 'encryptData') {
+        issues.push({
+          path: 'key',
+          message:
+            'is changed through encryption:enable and encryption:disable',
+        });
+        return;
+      }
+      SETTINGS_SCHEMA[key as keyof Settings].check(value, 'value', issues);
+    },
+  },
+  'settings:getAll': channel<() => Settings>(),
+
+  'hotkey:register': channel<(hotkey: string) => boolean>(['hotkey', hotkey]),
+  'hotkey:getCurrent': channel<() => string>(),
+  'hotkey:registerPasteQueue': channel<(hotkey: string) => boolean>([
+    'hotkey',
+    hotkey,
+  ]),
+
+  'utils:getVersion': channel<() => string>(),
+} satisfies Record<string, IpcChannelSpec<Signature>>;
+
+export type IpcChannel = keyof typeof IPC_CHANNELS;
+
+type SignatureOf<C extends IpcChannel> =
+  (typeof IPC_CHANNELS)[C] extends IpcChannelSpec<infer F> ? F : never;
+
+export type IpcArgs<C extends IpcChannel> = Parameters<SignatureOf<C>>;
+export type IpcResult<C extends IpcChannel> = Awaited<
+  ReturnType<SignatureOf<C>>
+>;
+
+type IpcNamespace = IpcChannel extends infer C
+  ? C extends `${infer N}:${string}`
+    ? N
+    : never
+  : never;
+
+// clipboard:pin becomes api.clipboard.pin, and so on
+type ChannelApi = {
+  [N in IpcNamespace]: {
+    [C in IpcChannel as C extends `${N}:${infer M}` ? M : never]: (
+      ...args: IpcArgs<C>
+    ) => Promise<IpcResult<C>>;
+  };
+};
+
+// A generic signature loses its type parameter once mapped above, so the
+// settings methods give each key the value type its schema checks here
+interface SettingsInvokeApi {
+  get<K extends keyof Settings>(key: K): Promise<Settings[K]>;
+  set<K extends keyof Settings>(
+    key: K,
+    value: Settings[K]
+  ): Promise<IpcResult<'settings:set'>>;
+}
+
+export type IpcInvokeApi = Omit<ChannelApi, 'settings'> & {
+  settings: Omit<ChannelApi['settings'], keyof SettingsInvokeApi> &
+    SettingsInvokeApi;
+};
+
+export type IpcErrorCode = 'INVALID_ARGUMENTS' | 'HANDLER_FAILED';
+
+// Errors thrown by IPC handlers. Electron only passes the message on to the
+// renderer, so the code and channel lead the message where parseIpcError
+// can find them again.
+export class IpcError extends Error {
+  code: IpcErrorCode;
+  channel: string;
+  issues: SchemaIssue[];
+
+  constructor(
+    code: IpcErrorCode,
+    channel: string,
+    detail: string,
+    issues: SchemaIssue[] = []
+  ) {
+    super(`[${code}] ${channel}: ${detail}`);
+    this.name = 'IpcError';
+    this.code = code;
+    this.channel = channel;
+    this.issues = issues;
+  }
+}
+
+export const parseIpcError = (
+  error: unknown
+): { code: IpcErrorCode; channel: string; detail: string } | null => {
+  const message = error instanceof Error ? error.message : String(error);
+  const match = message.match(
+    /\[(INVALID_ARGUMENTS|HANDLER_FAILED)\] ([\w-]+:[\w-]+): (.*)$/s
+  );
+  return match
+    ? { code: match[1] as IpcErrorCode, channel: match[2], detail: match[3] }
+    : null;
+};
+
+export const isIpcChannel = (value: string): value is IpcChannel =>
+  Object.prototype.hasOwnProperty.call(IPC_CHANNELS, value);
+
+// Checks the arguments of a call against the channel's schemas, throwing an
+// IpcError that lists every problem
+export const parseIpcArgs = <C extends IpcChannel>(
+  channel: C,
+  args: unknown[]
+): IpcArgs<C> => {
+  const spec: IpcChannelSpec<Signature> = IPC_CHANNELS[channel];
+  const issues: SchemaIssue[] = [];
+
+  if (args.length > spec.args.length) {
+    issues.push({
+      path: `arguments`,
+      message: `expected at most ${spec.args.length}, got ${args.length}`,
+    });
+  }
+  spec.args.forEach(({ name, schema }, index) =>
+    schema.check(args[index], name, issues)
+  );
+  if (issues.length === 0) spec.checkArgs?.(args, issues);
+
+  if (issues.length > 0) {
+    throw new IpcError(
+      'INVALID_ARGUMENTS',
+      channel,
+      issues.map(issue => `${issue.path} ${issue.message}`).join('; '),
+      issues
+    );
+  }
+  return args as IpcArgs<C>;
+};
+
+// Builds the namespaced API from the registry around the given invoke
+// function, which is ipcRenderer.invoke in the preload script
+export const createInvokeApi = (
+  invoke: (channel: IpcChannel, ...args: unknown[]) => Promise<unknown>
+): IpcInvokeApi => {
+  const api: Record<string, Record<string, unknown>> = {};
+  for (const channel of Object.keys(IPC_CHANNELS) as IpcChannel[]) {
+    const [namespace, method] = channel.split(':');
+    api[namespace] = api[namespace] || {};
+    api[namespace][method] = (...args: unknown[]) => invoke(channel, ...args);
+  }
+  // Built at runtime, so the types come from the registry rather than the
+  // object; the main process checks every call against its schemas
+  return api as unknown as IpcInvokeApi;
+};
@@ -0,0 +1,156 @@
+// Small runtime schemas for values arriving over IPC. Each schema checks a
+// value and records what is wrong with it, so one call reports every
+// problem with its path.
+
+export interface SchemaIssue {
+  // Where the problem is, e.g. entry.tags[2]
+  path: string;
+  message: string;
+}
+
+export interface Schema<T> {
+  check(value: unknown, path: string, issues: SchemaIssue[]): value is T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: undefined extends Infer<S[K]> ? K : never;
+}[keyof S];
+
+type ObjectOf<S extends Shape> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]>;
+} & {
+  [K in OptionalKeys<S>]?: Infer<S[K]>;
+};
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (value instanceof Date) return 'a date';
+  return typeof value === 'object' ? 'an object' : typeof value;
+};
+
+const fail = (issues: SchemaIssue[], path: string, message: string) => {
+  issues.push({ path, message });
+  return false;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' &&
+  value !== null &&
+  !Array.isArray(value) &&
+  !(value instanceof Date);
+
+export const string = (
+  options: { minLength?: number } = {}
+): Schema<string> => ({
+  check: (value, path, issues): value is string => {
+    if (typeof value !== 'string') {
+      return fail(issues, path, `expected a string, got ${describe(value)}`);
+    }
+    if (options.minLength !== undefined && value.length < options.minLength) {
+      return fail(
+        issues,
+        path,
+        `must be at least ${options.minLength} characters`
+      );
+    }
+    return true;
+  },
+});
+
+export const number = (
+  options: { integer?: boolean; min?: number; max?: number } = {}
+): Schema<number> => ({
+  check: (value, path, issues): value is number => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      return fail(issues, path, `expected a number, got ${describe(value)}`);
+    }
+    if (options.integer && !Number.isInteger(value)) {
+      return fail(issues, path, 'must be a whole number');
+    }
+    if (options.min !== undefined && value < options.min) {
+      return fail(issues, path, `must be at least ${options.min}`);
+    }
+    if (options.max !== undefined && value > options.max) {
+      return fail(issues, path, `must be at most ${options.max}`);
+    }
+    return true;
+  },
+});
+
+export const boolean = (): Schema<boolean> => ({
+  check: (value, path, issues): value is boolean =>
+    typeof value === 'boolean' ||
+    fail(issues, path, `expected a boolean, got ${describe(value)}`),
+});
+
+export const date = (): Schema<Date> => ({
+  check: (value, path, issues): value is Date =>
+    (value instanceof Date && !isNaN(value.getTime())) ||
+    fail(issues, path, `expected a date, got ${describe(value)}`),
+});
+
+export const oneOf = <T extends string>(values: readonly T[]): Schema<T> => ({
+  check: (value, path, issues): value is T =>
+    values.includes(value as T) ||
+    fail(issues, path, `expected one of ${values.join(', ')}`),
+});
+
+export const unknown = (): Schema<unknown> => ({
+  check: (_value): _value is unknown => true,
+});
+
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> => ({
+  check: (value, path, issues): value is T | undefined =>
+    value === undefined || schema.check(value, path, issues),
+});
+
+export const nullable = <T>(schema: Schema<T>): Schema<T | null> => ({
+  check: (value, path, issues): value is T | null =>
+    value === null || schema.check(value, path, issues),
+});
+
+export const array = <T>(schema: Schema<T>): Schema<T[]> => ({
+  check: (value, path, issues): value is T[] => {
+    if (!Array.isArray(value)) {
+      return fail(issues, path, `expected an array, got ${describe(value)}`);
+    }
+    // Every item is checked so all of their problems are reported
+    return value
+      .map((item, index) => schema.check(item, `${path}[${index}]`, issues))
+      .every(Boolean);
+  },
+});
+
+// An object with any keys, such as a map of snippet inputs
+export const record = <T>(schema: Schema<T>): Schema<Record<string, T>> => ({
+  check: (value, path, issues): value is Record<string, T> => {
+    if (!isPlainObject(value)) {
+      return fail(issues, path, `expected an object, got ${describe(value)}`);
+    }
+    return Object.entries(value)
+      .map(([key, item]) => schema.check(item, `${path}.${key}`, issues))
+      .every(Boolean);
+  },
+});
+
+// An object with exactly the given keys. Unknown keys are rejected rather
+// than passed through to the handler.
+export const object = <S extends Shape>(shape: S): Schema<ObjectOf<S>> => ({
+  check: (value, path, issues): value is ObjectOf<S> => {
+    if (!isPlainObject(value)) {
+      return fail(issues, path, `expected an object, got ${describe(value)}`);
+    }
+    const unknownKeys = Object.keys(value)
+      .filter(key => !(key in shape))
+      .map(key => fail(issues, `${path}.${key}`, 'is not a known key'));
+    const fields = Object.entries(shape).map(([key, schema]) =>
+      schema.check(value[key], `${path}.${key}`, issues)
+    );
+    return unknownKeys.length === 0 && fields.every(Boolean);
+  },
+});
@@ -0,0 +1,301 @@
+import { extractTextFromRTF } from './text-extraction';
+import { ClipboardEntry } from './types';
+
+export type PasteTransformId =
+  | 'plainText'
+  | 'markdown'
+  | 'trim'
+  | 'uppercase'
+  | 'lowercase'
+  | 'titleCase'
+  | 'urlEncode'
+  | 'base64'
+  | 'jsonEscape';
+
+// What a transform reads: the text so far, and the HTML of the entry while no
+// earlier step has replaced it
+export interface PasteValue {
+  text: string;
+  html?: string;
+}
+
+type PasteSource = Pick<ClipboardEntry, 'content' | 'format'>;
+
+export interface PasteTransform {
+  id: PasteTransformId;
+  label: string;
+  // Formats the transform changes anything for, when not all text formats
+  formats?: PasteSource['format'][];
+  apply: (value: PasteValue) => string;
+}
+
+const ENTITIES: Record<string, string> = {
+  nbsp: ' ',
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code =
+        name[1].toLowerCase() === 'x'
+          ? parseInt(name.slice(2), 16)
+          : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '';
+    }
+    return ENTITIES[name.toLowerCase()] ?? entity;
+  });
+
+const stripTags = (html: string) => html.replace(/<[^>]*>/g, '');
+
+const getAttribute = (tag: string, name: string) =>
+  decodeEntities(
+    tag
+      .match(new RegExp(`\\s${name}\\s*=\\s*("([^"]*)"|'([^']*)')`, 'i'))
+      ?.slice(2)
+      .find(value => value !== undefined) ?? ''
+  );
+
+// Drops what never renders, and sets <pre> blocks aside on lines of their own
+// so their whitespace survives the collapsing of everything else. They are
+// marked with a private-use character, which copied text doesn't contain.
+// `restore` puts them back.
+const prepareHTML = (html: string, formatPre: (code: string) => string) => {
+  const blocks: string[] = [];
+  const text = html
+    .replace(/<(script|style|head)\b[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<pre\b[^>]*>([\s\S]*?)<\/pre>/gi, (_, code: string) => {
+      blocks.push(formatPre(decodeEntities(stripTags(code))));
+      return `\uE000${blocks.length - 1}\uE000`;
+    })
+    .replace(/[ \t\r\n\f]+/g, ' ')
+    .replace(/\uE000\d+\uE000/g, '\n\n$&\n\n');
+
+  // Called once lines are tidied, which would trim the code's indentation
+  const restore = (result: string) =>
+    result.replace(/\uE000(\d+)\uE000/g, (_, index) => blocks[Number(index)]);
+  return { text, restore };
+};
+
+// Trims each line and keeps at most one blank line between blocks. Indents
+// are written as the private-use \uE001 until now so they aren't trimmed
+// away.
+const tidyLines = (text: string) =>
+  text
+    .split('\n')
+    .map(line => line.trim().replace(/\uE001/g, ' '))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+// Plain text of HTML, keeping the line breaks of its paragraphs and lists
+// where extractTextFromHTML flattens everything onto one line for previews
+export const htmlToPlainText = (html: string): string => {
+  const { text, restore } = prepareHTML(html, code => code);
+
+  return restore(
+    tidyLines(
+      decodeEntities(
+        stripTags(
+          text
+            .replace(/<(br|li|tr|\/?div)\b[^>]*>/gi, '\n')
+            .replace(/<\/t[dh]>/gi, '\t')
+            .replace(
+              /<\/?(p|h[1-6]|ul|ol|table|blockquote|section|article|header|footer|hr)\b[^>]*>/gi,
+              '\n\n'
+            )
+        )
+      )
+    )
+  );
+};
+
+// Lists with no list inside them, so nested lists convert inside out
+const INNERMOST_LIST =
+  /<(ul|ol)\b[^>]*>((?:(?!<\/?(?:ul|ol)\b)[\s\S])*)<\/\1>/i;
+const INNERMOST_QUOTE =
+  /<blockquote\b[^>]*>((?:(?!<\/?blockquote\b)[\s\S])*)<\/blockquote>/i;
+
+const convertList = (type: string, inner: string) => {
+  const items = inner
+    .replace(/<\/li>/gi, '')
+    .split(/<li\b[^>]*>/i)
+    .slice(1)
+    .map(item => tidyLines(item).replace(/\n+/g, '\n'));
+
+  const lines = items.map((item, index) => {
+    const marker = type.toLowerCase() === 'ol' ? `${index + 1}. ` : '- ';
+    const indent = '\uE001'.repeat(marker.length);
+    // Continuation lines, such as a nested list, line up under the text
+    return marker + item.split('\n').join(`\n${indent}`);
+  });
+  return `\n\n${lines.join('\n')}\n\n`;
+};
+
+// Markdown for the common structure of copied web pages: headings, emphasis,
+// links, images, lists, quotes and code. Anything else becomes its text.
+export const htmlToMarkdown = (html: string): string => {
+  const { text: prepared, restore } = prepareHTML(
+    html,
+    code => '```\n' + code.replace(/^\n|\n$/g, '') + '\n```'
+  );
+
+  let text = prepared
+    .replace(
+      /<(strong|b)\b[^>]*>([\s\S]*?)<\/\1>/gi,
+      (_, _tag, inner: string) => (inner.trim() ? `**${inner.trim()}**` : '')
+    )
+    .replace(/<(em|i)\b[^>]*>([\s\S]*?)<\/\1>/gi, (_, _tag, inner: string) =>
+      inner.trim() ? `*${inner.trim()}*` : ''
+    )
+    .replace(/<(del|s|strike)\b[^>]*>([\s\S]*?)<\/\1>/gi, '~~$2~~')
+    .replace(/<code\b[^>]*>([\s\S]*?)<\/code>/gi, '`$1`')
+    .replace(/<a\b([^>]*)>([\s\S]*?)<\/a>/gi, (_, attrs: string, inner) => {
+      const href = getAttribute(attrs, 'href');
+      return href ? `[${inner.trim()}](${href})` : inner;
+    })
+    .replace(
+      /<img\b[^>]*>/gi,
+      tag => `![${getAttribute(tag, 'alt')}](${getAttribute(tag, 'src')})`
+    )
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<hr\b[^>]*>/gi, '\n\n---\n\n');
+
+  let list;
+  while ((list = text.match(INNERMOST_LIST))) {
+    text = text.replace(list[0], convertList(list[1], list[2]));
+  }
+
+  text = text
+    .replace(
+      /<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi,
+      (_, level: string, inner: string) =>
+        `\n\n${'#'.repeat(Number(level))} ${stripTags(inner).trim()}\n\n`
+    )
+    .replace(/<(\/?div|tr)\b[^>]*>/gi, '\n')
+    .replace(/<\/?(p|section|article|header|footer|table)\b[^>]*>/gi, '\n\n');
+
+  let quote;
+  while ((quote = text.match(INNERMOST_QUOTE))) {
+    const lines = tidyLines(quote[1])
+      .split('\n')
+      .map(line => (line ? `>\uE001${line}` : '>'));
+    text = text.replace(quote[0], `\n\n${lines.join('\n')}\n\n`);
+  }
+
+  return restore(tidyLines(decodeEntities(stripTags(text))));
+};
+
+// UTF-8 bytes as Base64, as btoa only takes Latin-1
+const toBase64 = (text: string) =>
+  btoa(
+    encodeURIComponent(text).replace(/%([0-9A-F]{2})/g, (_, hex) =>
+      String.fromCharCode(parseInt(hex, 16))
+    )
+  );
+
+// Capitalises the first letter of each word, leaving contractions alone
+const toTitleCase = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(
+      /(^|[^\p{L}\p{N}'’])(\p{L})/gu,
+      (_, before: string, letter: string) => before + letter.toUpperCase()
+    );
+
+// In menu order. New transforms only need adding here.
+export const PASTE_TRANSFORMS: PasteTransform[] = [
+  {
+    id: 'plainText',
+    label: 'Paste as plain text',
+    formats: ['html', 'rtf'],
+    apply: ({ text }) => text,
+  },
+  {
+    id: 'markdown',
+    label: 'Paste as Markdown',
+    formats: ['html'],
+    apply: ({ text, html }) => (html ? htmlToMarkdown(html) : text),
+  },
+  { id: 'trim', label: 'Paste trimmed', apply: ({ text }) => text.trim() },
+  {
+    id: 'uppercase',
+    label: 'Paste as UPPERCASE',
+    apply: ({ text }) => text.toUpperCase(),
+  },
+  {
+    id: 'lowercase',
+    label: 'Paste as lowercase',
+    apply: ({ text }) => text.toLowerCase(),
+  },
+  {
+    id: 'titleCase',
+    label: 'Paste as Title Case',
+    apply: ({ text }) => toTitleCase(text),
+  },
+  {
+    id: 'urlEncode',
+    label: 'Paste URL-encoded',
+    apply: ({ text }) => encodeURIComponent(text),
+  },
+  {
+    id: 'base64',
+    label: 'Paste as Base64',
+    apply: ({ text }) => toBase64(text),
+  },
+  {
+    id: 'jsonEscape',
+    label: 'Paste JSON-escaped',
+    apply: ({ text }) => JSON.stringify(text).slice(1, -1),
+  },
+];
+
+export const getPasteTransform = (id: string): PasteTransform | undefined =>
+  PASTE_TRANSFORMS.find(transform => transform.id === id);
+
+// Images and files have no text to transform
+export const canTransform = (entry: PasteSource): boolean =>
+  entry.format !== 'image' && entry.format !== 'file';
+
+// Transforms worth offering for an entry, in menu order
+export const getPasteTransformsFor = (entry: PasteSource): PasteTransform[] =>
+  canTransform(entry)
+    ? PASTE_TRANSFORMS.filter(
+        transform =>
+          !transform.formats || transform.formats.includes(entry.format)
+      )
+    : [];
+
+// Plain text of an entry in any text format
+export const getPlainText = (entry: PasteSource): string => {
+  if (entry.format === 'html') return htmlToPlainText(entry.content);
+  if (entry.format === 'rtf') return extractTextFromRTF(entry.content);
+  return entry.content;
+};
+
+// Runs the transforms in order, each on the result of the one before, and
+// returns the text to paste
+export const applyPasteTransforms = (
+  entry: PasteSource,
+  ids: PasteTransformId[]
+): string => {
+  if (!canTransform(entry)) {
+    throw new Error(`Cannot transform ${entry.format} entries`);
+  }
+
+  let value: PasteValue = {
+    text: getPlainText(entry),
+    html: entry.format === 'html' ? entry.content : undefined,
+  };
+  for (const id of ids) {
+    const transform = getPasteTransform(id);
+    if (!transform) throw new Error(`Unknown paste transform: ${id}`);
+    value = { text: transform.apply(value) };
+  }
+  return value.text;
+};
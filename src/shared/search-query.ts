@@ -0,0 +1,365 @@
+import {
+  getHighlightRanges,
+  getSearchableFields,
+  HighlightRange,
+  matchEntry,
+  SearchableEntry,
+} from './fuzzy-search';
+
+// Free text of a query: words are matched fuzzily, "quoted phrases" exactly
+// and /regular expressions/ as written
+export interface TextClause {
+  kind: 'term' | 'phrase' | 'regex';
+  value: string;
+  flags?: string;
+  negated: boolean;
+}
+
+export interface FieldClause {
+  include: string[];
+  exclude: string[];
+}
+
+export interface SearchQueryError {
+  message: string;
+  // Character range of the offending token in the query
+  start: number;
+  end: number;
+}
+
+export interface ParsedSearchQuery {
+  text: TextClause[];
+  // Any of the listed types or apps may match, while every tag must
+  types: FieldClause;
+  apps: FieldClause;
+  tags: FieldClause;
+  // Created on or after / strictly before
+  after?: Date;
+  before?: Date;
+  pinned?: boolean;
+  favorite?: boolean;
+  errors: SearchQueryError[];
+}
+
+const FIELDS = ['type', 'app', 'tag', 'is', 'after', 'before', 'date'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Midnight at the start of the given local day: YYYY-MM-DD, today or yesterday
+const parseDay = (value: string): Date | null => {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  switch (value.toLowerCase()) {
+    case 'today':
+      return today;
+    case 'yesterday':
+      return new Date(today.getTime() - DAY_MS);
+  }
+
+  const match = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (!match) return null;
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+};
+
+const nextDay = (date: Date) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+
+const createQuery = (): ParsedSearchQuery => ({
+  text: [],
+  types: { include: [], exclude: [] },
+  apps: { include: [], exclude: [] },
+  tags: { include: [], exclude: [] },
+  errors: [],
+});
+
+const narrowAfter = (query: ParsedSearchQuery, date: Date) => {
+  if (!query.after || date > query.after) query.after = date;
+};
+
+const narrowBefore = (query: ParsedSearchQuery, date: Date) => {
+  if (!query.before || date < query.before) query.before = date;
+};
+
+// Reads a double-quoted string starting at the quote, returning the text and
+// the index after the closing quote, or null when it is never closed
+const readQuoted = (input: string, start: number) => {
+  const end = input.indexOf('"', start + 1);
+  return end === -1
+    ? null
+    : { value: input.slice(start + 1, end), next: end + 1 };
+};
+
+const readWord = (input: string, start: number) => {
+  let end = start;
+  while (end < input.length && !/\s/.test(input[end])) end++;
+  return { value: input.slice(start, end), next: end };
+};
+
+// Parses queries like `type:url app:firefox tag:deploy after:2026-09-01
+// "exact phrase" -draft /v\d+/`. Tokens with errors are left out of the
+// result and reported with their position.
+export const parseSearchQuery = (input: string): ParsedSearchQuery => {
+  const query = createQuery();
+  let index = 0;
+
+  const addError = (message: string, start: number, end: number) => {
+    query.errors.push({ message, start, end });
+  };
+
+  while (index < input.length) {
+    if (/\s/.test(input[index])) {
+      index++;
+      continue;
+    }
+
+    const start = index;
+    const negated = input[index] === '-' && /\S/.test(input[index + 1] || '');
+    if (negated) index++;
+
+    // "Exact phrase"
+    if (input[index] === '"') {
+      const quoted = readQuoted(input, index);
+      if (!quoted) {
+        addError('Missing closing quote', start, input.length);
+        break;
+      }
+      if (quoted.value.trim()) {
+        query.text.push({ kind: 'phrase', value: quoted.value, negated });
+      }
+      index = quoted.next;
+      continue;
+    }
+
+    // /Regular expression/flags, while other words with slashes such as
+    // paths are searched for as they are
+    const regexMatch = readWord(input, index).value.match(
+      /^\/(.+)\/([imsu]*)$/
+    );
+    if (regexMatch) {
+      // Case-insensitive unless other flags are given
+      const [token, source] = regexMatch;
+      const flags = regexMatch[2] || 'i';
+      try {
+        new RegExp(source, flags);
+        query.text.push({ kind: 'regex', value: source, flags, negated });
+      } catch (error) {
+        addError(
+          `Invalid regular expression: ${(error as Error).message}`,
+          start,
+          index + token.length
+        );
+      }
+      index += token.length;
+      continue;
+    }
+
+    const fieldMatch = input.slice(index).match(/^([a-z]+):/i);
+    const field = fieldMatch?.[1].toLowerCase();
+    if (!field || !FIELDS.includes(field)) {
+      // Plain words, including ones with colons such as URLs
+      const word = readWord(input, index);
+      query.text.push({ kind: 'term', value: word.value, negated });
+      index = word.next;
+      continue;
+    }
+
+    // field:value or field:"quoted value"
+    index += fieldMatch![0].length;
+    let value: string;
+    if (input[index] === '"') {
+      const quoted = readQuoted(input, index);
+      if (!quoted) {
+        addError('Missing closing quote', start, input.length);
+        break;
+      }
+      value = quoted.value;
+      index = quoted.next;
+    } else {
+      const word = readWord(input, index);
+      value = word.value;
+      index = word.next;
+    }
+
+    if (!value.trim()) {
+      addError(`Missing value for ${field}:`, start, index);
+      continue;
+    }
+
+    switch (field) {
+      case 'type':
+      case 'app':
+      case 'tag': {
+        const clause = query[`${field}s` as 'types' | 'apps' | 'tags'];
+        const name = field === 'tag' ? value.replace(/^#+/, '') : value;
+        (negated ? clause.exclude : clause.include).push(name);
+        break;
+      }
+
+      case 'is': {
+        const flag = value.toLowerCase();
+        if (flag === 'pinned') {
+          query.pinned = !negated;
+        } else if (flag === 'favorite' || flag === 'favourite') {
+          query.favorite = !negated;
+        } else {
+          addError(
+            `Unknown value "${value}" for is:, use pinned or favorite`,
+            start,
+            index
+          );
+        }
+        break;
+      }
+
+      case 'after':
+      case 'before': {
+        const day = parseDay(value);
+        if (!day) {
+          addError(`Invalid date "${value}", use YYYY-MM-DD`, start, index);
+        } else if (negated) {
+          addError(`${field}: can't be negated`, start, index);
+        } else if (field === 'after') {
+          narrowAfter(query, day);
+        } else {
+          narrowBefore(query, day);
+        }
+        break;
+      }
+
+      case 'date': {
+        // date:2026-09-01, date:>2026-09-01, date:<=2026-09-01, ...
+        const [, operator, dayValue] = value.match(/^(>=|<=|>|<|=)?(.*)$/)!;
+        const day = parseDay(dayValue);
+        if (!day) {
+          addError(`Invalid date "${dayValue}", use YYYY-MM-DD`, start, index);
+          break;
+        }
+        if (negated) {
+          addError(`date: can't be negated`, start, index);
+          break;
+        }
+
+        switch (operator) {
+          case '>':
+            narrowAfter(query, nextDay(day));
+            break;
+          case '>=':
+            narrowAfter(query, day);
+            break;
+          case '<':
+            narrowBefore(query, day);
+            break;
+          case '<=':
+            narrowBefore(query, nextDay(day));
+            break;
+          default:
+            narrowAfter(query, day);
+            narrowBefore(query, nextDay(day));
+        }
+        break;
+      }
+    }
+  }
+
+  return query;
+};
+
+const toRegExp = (clause: TextClause, global = false) =>
+  new RegExp(clause.value, `${clause.flags || ''}${global ? 'g' : ''}`);
+
+// Whether the query needs entry text to be read, rather than only columns
+export const hasTextClauses = (query: ParsedSearchQuery): boolean =>
+  query.text.length > 0;
+
+// Relevance of the entry for the text clauses, or null when it doesn't
+// match. Entries are only ranked by the fuzzy words; exact clauses just
+// filter.
+export const matchTextClauses = (
+  query: ParsedSearchQuery,
+  entry: SearchableEntry
+): number | null => {
+  const fields = getSearchableFields(entry);
+  const lowerFields = fields.map(field => field.toLowerCase());
+
+  const matchesClause = (clause: TextClause) => {
+    if (clause.kind === 'regex') {
+      const regex = toRegExp(clause);
+      return fields.some(field => regex.test(field));
+    }
+    // Excluded words have to match exactly, or a typo away would hide them
+    const value = clause.value.toLowerCase();
+    return lowerFields.some(field => field.includes(value));
+  };
+
+  const terms: string[] = [];
+  for (const clause of query.text) {
+    if (clause.negated) {
+      if (matchesClause(clause)) return null;
+    } else if (clause.kind === 'term') {
+      terms.push(clause.value);
+    } else if (!matchesClause(clause)) {
+      return null;
+    }
+  }
+
+  return terms.length > 0 ? matchEntry(terms.join(' '), entry) : 1;
+};
+
+// Characters of the text matched by the query's words, phrases and regular
+// expressions, merged into ranges for highlighting
+export const getQueryHighlightRanges = (
+  input: string,
+  text: string
+): HighlightRange[] => {
+  if (!text) return [];
+
+  const { text: clauses } = parseSearchQuery(input);
+  const ranges: HighlightRange[] = [];
+  const lower = text.toLowerCase();
+
+  const terms = clauses
+    .filter(clause => clause.kind === 'term' && !clause.negated)
+    .map(clause => clause.value);
+  ranges.push(...getHighlightRanges(terms.join(' '), text));
+
+  for (const clause of clauses) {
+    if (clause.negated) continue;
+
+    if (clause.kind === 'phrase') {
+      const value = clause.value.toLowerCase();
+      for (
+        let index = lower.indexOf(value);
+        index !== -1;
+        index = lower.indexOf(value, index + value.length)
+      ) {
+        ranges.push({ start: index, end: index + value.length });
+      }
+    } else if (clause.kind === 'regex') {
+      for (const match of text.matchAll(toRegExp(clause, true))) {
+        if (match[0]) {
+          ranges.push({
+            start: match.index!,
+            end: match.index! + match[0].length,
+          });
+        }
+      }
+    }
+  }
+
+  // Merge overlapping ranges
+  return ranges
+    .sort((a, b) => a.start - b.start)
+    .reduce<HighlightRange[]>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range.start <= last.end) {
+        last.end = Math.max(last.end, range.end);
+      } else {
+        merged.push({ ...range });
+      }
+      return merged;
+    }, []);
+};
@@ -0,0 +1,126 @@
+import { fuzzyMatch } from './fuzzy-search';
+import { Snippet, SnippetInput } from './types';
+
+export interface TemplateValues {
+  // Text on the clipboard before the snippet replaces it
+  clipboard: string;
+  // Answers to the {{input:Label}} prompts, by label
+  inputs: Record<string, string>;
+  now: Date;
+}
+
+export interface ExpandedTemplate {
+  text: string;
+  // Characters after {{cursor}}, which the caret is moved back over once the
+  // text is pasted
+  cursorOffset: number;
+}
+
+// {{date}}, {{clipboard}}, {{cursor}} and {{input:Label}}. Anything else in
+// braces is left as written.
+const PLACEHOLDER_PATTERN =
+  /\{\{\s*(date|clipboard|cursor|input:([^{}]*?))\s*\}\}/gi;
+
+// Today as YYYY-MM-DD in local time
+const formatDate = (date: Date) =>
+  [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0'),
+  ].join('-');
+
+// Labels of the {{input:Label}} placeholders, once each and in order, which
+// have to be asked for before the snippet can be pasted
+export const getTemplateInputs = (content: string): string[] => {
+  const labels = new Set<string>();
+  for (const match of content.matchAll(PLACEHOLDER_PATTERN)) {
+    const label = match[2]?.trim();
+    if (label) labels.add(label);
+  }
+  return Array.from(labels);
+};
+
+// Fills in the placeholders of a snippet. Only the first {{cursor}} counts,
+// and inputs without an answer are left empty.
+export const expandTemplate = (
+  content: string,
+  values: TemplateValues
+): ExpandedTemplate => {
+  let text = '';
+  let cursorIndex = -1;
+  let lastIndex = 0;
+
+  for (const match of content.matchAll(PLACEHOLDER_PATTERN)) {
+    text += content.slice(lastIndex, match.index);
+    lastIndex = match.index! + match[0].length;
+
+    const name = match[1].toLowerCase();
+    if (match[2] !== undefined) {
+      text += values.inputs[match[2].trim()] ?? '';
+    } else if (name === 'date') {
+      text += formatDate(values.now);
+    } else if (name === 'clipboard') {
+      text += values.clipboard;
+    } else if (cursorIndex === -1) {
+      cursorIndex = text.length;
+    }
+  }
+  text += content.slice(lastIndex);
+
+  return {
+    text,
+    // Counted in characters rather than UTF-16 units, like arrow key presses
+    cursorOffset:
+      cursorIndex === -1 ? 0 : Array.from(text.slice(cursorIndex)).length,
+  };
+};
+
+// Why the snippet can't be saved, or null when it can. Abbreviations must be
+// single words and unique, ignoring case.
+export const getSnippetError = (
+  input: SnippetInput,
+  snippets: Snippet[],
+  id?: number
+): string | null => {
+  if (!input.name?.trim()) return 'Name is required';
+  if (!input.content) return 'Content is required';
+
+  const abbreviation = input.abbreviation?.trim();
+  if (abbreviation) {
+    if (/\s/.test(abbreviation)) return "Abbreviations can't contain spaces";
+
+    const taken = snippets.find(
+      snippet =>
+        snippet.id !== id &&
+        snippet.abbreviation?.toLowerCase() === abbreviation.toLowerCase()
+    );
+    if (taken) return `Abbreviation is already used by "${taken.name}"`;
+  }
+  return null;
+};
+
+// Snippets matching the query, best first. Typing a snippet's abbreviation
+// puts it at the top.
+export const searchSnippets = (query: string, snippets: Snippet[]) => {
+  const term = query.trim().toLowerCase();
+  if (!term) return snippets;
+
+  return snippets
+    .map(snippet => {
+      if (snippet.abbreviation?.toLowerCase() === term) {
+        return { snippet, score: Infinity };
+      }
+      const text = [
+        snippet.name,
+        snippet.abbreviation,
+        snippet.folder,
+        snippet.content,
+      ]
+        .filter(Boolean)
+        .join('\n');
+      return { snippet, score: fuzzyMatch(term, text)?.score ?? 0 };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map(({ snippet }) => snippet);
+};
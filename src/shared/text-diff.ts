@@ -0,0 +1,76 @@
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Beyond this many line pairs the changed part is shown as a plain
+// replacement rather than spending memory on the comparison table
+const MAX_DIFF_CELLS = 1_000_000;
+
+const toLine =
+  (type: DiffLine['type']) =>
+  (text: string): DiffLine => ({ type, text });
+
+// Longest common subsequence of the lines, walked from the front
+const diffMiddle = (before: string[], after: string[]): DiffLine[] => {
+  if (before.length * after.length > MAX_DIFF_CELLS) {
+    return [...before.map(toLine('removed')), ...after.map(toLine('added'))];
+  }
+
+  // common[i * width + j] is the LCS length of before[i..] and after[j..]
+  const width = after.length + 1;
+  const common = new Uint32Array((before.length + 1) * width);
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      common[i * width + j] =
+        before[i] === after[j]
+          ? common[(i + 1) * width + j + 1] + 1
+          : Math.max(common[(i + 1) * width + j], common[i * width + j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      result.push({ type: 'same', text: before[i] });
+      i++;
+      j++;
+    } else if (common[(i + 1) * width + j] >= common[i * width + j + 1]) {
+      result.push({ type: 'removed', text: before[i++] });
+    } else {
+      result.push({ type: 'added', text: after[j++] });
+    }
+  }
+  return [
+    ...result,
+    ...before.slice(i).map(toLine('removed')),
+    ...after.slice(j).map(toLine('added')),
+  ];
+};
+
+// Line-by-line changes that turn `before` into `after`
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // Edits are usually small, so only compare what lies between the
+  // unchanged start and end
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  return [
+    ...a.slice(0, start).map(toLine('same')),
+    ...diffMiddle(a.slice(start, endA), b.slice(start, endB)),
+    ...a.slice(endA).map(toLine('same')),
+  ];
+};
@@ -15,15 +15,93 @@ export interface ClipboardEntry {
   usageCount: number;
   lastUsedAt?: Date;
   note?: string;
+  // ID of the secret rule that matched, for entries holding sensitive data
+  sensitiveType?: SensitiveDataRuleId;
+  expiresAt?: Date;
+  // Every format of the copy, when it held more than the one in content
+  representations?: ClipboardRepresentations;
+  // Details of the files and folders of a 'file' entry, whose content is
+  // their paths, one per line
+  files?: CopiedFile[];
+  // SHA-256 of the copy's image in the image store, for image entries and
+  // for other copies that included an image
+  imageHash?: string;
+}
+
+export interface CopiedFile {
+  path: string;
+  name: string;
+  isDirectory: boolean;
+  // In bytes, for files that still existed when they were copied
+  size?: number;
+  // Small PNG data URL of the file type's icon
+  icon?: string;
+}
+
+// What a single copy put on the clipboard. Pasting writes all of it back so
+// the target app can pick the format it handles best.
+export interface ClipboardRepresentations {
+  text?: string;
+  html?: string;
+  rtf?: string;
+  // Image store URL of the PNG, or a PNG data URL in entries saved before
+  // the image store
+  image?: string;
+  bookmark?: { title: string; url: string };
+  // Base64 data of other MIME types, by type
+  custom?: Record<string, string>;
+}
+
+// Content an entry had before an edit, newest first in listings
+export interface EntryRevision {
+  id: number;
+  entryId: number;
+  content: string;
+  createdAt: Date;
 }
 
 export interface GetHistoryOptions {
   limit?: number;
   offset?: number;
+  // Continues a queryHistory listing after the previous page
+  cursor?: string | null;
   category?: string;
   contentType?: string;
   dateRange?: DateRange;
+  // Search bar text, in the query language of parseSearchQuery
   searchQuery?: string;
+  favoritesOnly?: boolean;
+  sortBy?: HistorySortBy;
+  tags?: string[];
+  // 'all' keeps entries that have every tag, 'any' those with at least one
+  tagMatch?: TagMatchMode;
+}
+
+export type TagMatchMode = 'all' | 'any';
+
+// created: newest first, lastUsed: most recently pasted, usageCount: most
+// pasted, frecency: pasted often and recently
+export type HistorySortBy = 'created' | 'lastUsed' | 'usageCount' | 'frecency';
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+// Matches for the search, format and date filters, broken down for the
+// category, favorites and tag chips
+export interface HistoryCounts {
+  total: number;
+  categories: Record<string, number>;
+  favorites: number;
+  tags: TagCount[];
+}
+
+export interface HistoryPage {
+  entries: ClipboardEntry[];
+  // Pass back as GetHistoryOptions.cursor for the next page; null at the end
+  nextCursor: string | null;
+  counts: HistoryCounts;
 }
 
 export interface DateRange {
@@ -31,9 +109,86 @@ export interface DateRange {
   end: Date;
 }
 
+export interface StorageRecoveryInfo {
+  recoveredAt: Date;
+  // Set when a valid backup was found and restored
+  backupCreatedAt?: Date;
+  // Where the damaged database was moved to
+  corruptFilePath: string;
+}
+
+export interface CleanupReport {
+  ranAt: Date;
+  deletedEntries: number;
+  deletedFiles: number;
+  freedBytes: number;
+}
+
+export interface Snippet {
+  id: number;
+  name: string;
+  // Template text, with placeholders such as {{date}} filled in at paste time
+  content: string;
+  folder?: string;
+  // Short text that finds the snippet straight away in the Snippets view
+  abbreviation?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  usageCount: number;
+  lastUsedAt?: Date;
+}
+
+// Fields of a snippet the user edits
+export type SnippetInput = Pick<
+  Snippet,
+  'name' | 'content' | 'folder' | 'abbreviation'
+>;
+
+export type EncryptionKeySource = 'keychain' | 'passphrase';
+
+export interface EncryptionStatus {
+  enabled: boolean;
+  keySource: EncryptionKeySource | null;
+  // True while encrypted history is waiting for the passphrase
+  locked: boolean;
+  keychainAvailable: boolean;
+}
+
+export type SensitiveDataRuleId =
+  | 'private-key'
+  | 'aws-access-key'
+  | 'aws-secret-key'
+  | 'jwt'
+  | 'github-token'
+  | 'slack-token'
+  | 'stripe-key'
+  | 'credit-card'
+  | 'high-entropy-token';
+
+// What happens to a copy that matches a sensitive data rule. 'ignore' turns
+// the rule off, so the copy is saved as usual.
+export type SensitiveDataAction = 'ignore' | 'skip' | 'mask' | 'expire';
+
+// Which end of the paste queue the next item comes from
+export type PasteQueueOrder = 'fifo' | 'lifo';
+
+export interface PasteQueueState {
+  // Whether new copies and picked entries are added to the queue
+  isCollecting: boolean;
+  order: PasteQueueOrder;
+  // Entries still to paste, next first
+  entries: ClipboardEntry[];
+  // Entries pasted since the queue was started
+  pastedCount: number;
+}
+
+// How repeat copies are matched against existing entries
+export type DuplicateMatchMode = 'exact' | 'normalized';
+
 export interface Settings {
   // General
   maxHistoryItems: number;
+  keepFavorites: boolean;
   autoStart: boolean;
   minimizeToTray: boolean;
 
@@ -44,12 +199,20 @@ export interface Settings {
 
   // Behavior
   globalHotkey: string;
+  pasteQueueHotkey: string;
+  pasteQueueOrder: PasteQueueOrder;
   monitorClipboard: boolean;
   autoCategories: boolean;
   duplicateDetection: boolean;
+  duplicateMatch: DuplicateMatchMode;
+  sortBy: HistorySortBy;
 
   // Privacy
   excludedApps: string[];
+  sensitiveDataDetection: boolean;
+  sensitiveDataActions: Record<SensitiveDataRuleId, SensitiveDataAction>;
+  sensitiveDataExpiryMinutes: number;
+  clearClipboardOnExpiry: boolean;
   incognitoMode: boolean;
   encryptData: boolean;
   autoCleanup: boolean;
@@ -61,16 +224,35 @@ export interface Settings {
 
 export const DEFAULT_SETTINGS: Settings = {
   maxHistoryItems: 40,
+  keepFavorites: true,
   autoStart: true,
   minimizeToTray: true,
   theme: 'auto',
   accentColor: '#0078d4',
   fontSize: 'medium',
   globalHotkey: 'CommandOrControl+Shift+V',
+  pasteQueueHotkey: 'CommandOrControl+Alt+V',
+  pasteQueueOrder: 'fifo',
   monitorClipboard: true,
   autoCategories: true,
   duplicateDetection: true,
+  duplicateMatch: 'exact',
+  sortBy: 'created',
   excludedApps: [],
+  sensitiveDataDetection: true,
+  sensitiveDataActions: {
+    'private-key': 'skip',
+    'aws-access-key': 'mask',
+    'aws-secret-key': 'skip',
+    jwt: 'expire',
+    'github-token': 'mask',
+    'slack-token': 'mask',
+    'stripe-key': 'mask',
+    'credit-card': 'expire',
+    'high-entropy-token': 'ignore',
+  },
+  sensitiveDataExpiryMinutes: 10,
+  clearClipboardOnExpiry: true,
   incognitoMode: false,
   encryptData: false,
   autoCleanup: true,
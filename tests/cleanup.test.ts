@@ -0,0 +1,121 @@
+import { existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CleanupManager } from '../src/main/cleanup';
+import { SettingsManager } from '../src/main/settings';
+import { SqliteStorageManager } from '../src/main/sqlite-storage';
+import { Settings } from '../src/shared/types';
+
+let mockUserDataPath = '';
+
+jest.mock('electron', () => ({
+  app: {
+    getPath: jest.fn(() => mockUserDataPath),
+  },
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('CleanupManager', () => {
+  let storageManager: SqliteStorageManager;
+  let cleanupManager: CleanupManager;
+  let imagesDir: string;
+
+  const settings: Partial<Settings> = {};
+  const settingsManager = {
+    get: (key: keyof Settings) => settings[key],
+  } as unknown as SettingsManager;
+
+  const addEntry = (
+    content: string,
+    ageInDays: number,
+    options: { isPinned?: boolean; filePath?: string } = {}
+  ) => {
+    jest.setSystemTime(Date.now() - ageInDays * DAY_MS);
+    const saved = storageManager.addClipboardEntry({
+      content,
+      contentType: 'text',
+      format: 'text' as const,
+      isPinned: options.isPinned ?? false,
+      isFavorite: false,
+      tags: [],
+      usageCount: 0,
+      filePath: options.filePath,
+    });
+    jest.setSystemTime(Date.now() + ageInDays * DAY_MS);
+    return saved;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    mockUserDataPath = mkdtempSync(join(tmpdir(), 'localclip-test-'));
+    imagesDir = join(mockUserDataPath, 'images');
+    mkdirSync(imagesDir);
+
+    settings.autoCleanup = true;
+    settings.cleanupDays = 30;
+
+    storageManager = new SqliteStorageManager();
+    cleanupManager = new CleanupManager(storageManager, settingsManager);
+  });
+
+  afterEach(() => {
+    cleanupManager.stop();
+    storageManager.close();
+    jest.useRealTimers();
+    rmSync(mockUserDataPath, { recursive: true, force: true });
+  });
+
+  it('should delete non-pinned entries older than cleanupDays', async () => {
+    await addEntry('Old entry', 40);
+    await addEntry('Old pinned entry', 40, { isPinned: true });
+    await addEntry('Recent entry', 5);
+
+    const report = cleanupManager.runCleanup();
+
+    expect(report.deletedEntries).toBe(1);
+    const remaining = await storageManager.getClipboardHistory();
+    expect(remaining.map(entry => entry.content).sort()).toEqual([
+      'Old pinned entry',
+      'Recent entry',
+    ]);
+  });
+
+  it('should delete image files no entry references', async () => {
+    const keptImage = join(imagesDir, 'kept.png');
+    await addEntry('data:image/png;base64,AAAA', 1, { filePath: keptImage });
+
+    for (const file of [
+      'kept.png',
+      'kept_thumb.png',
+      'orphan.png',
+      'orphan_thumb.png.enc',
+    ]) {
+      writeFileSync(join(imagesDir, file), 'png');
+    }
+    jest.setSystemTime(Date.now() + 2 * 60 * 1000);
+
+    const report = cleanupManager.runCleanup();
+
+    expect(report.deletedFiles).toBe(2);
+    expect(report.freedBytes).toBe(6);
+    expect(existsSync(keptImage)).toBe(true);
+    expect(existsSync(join(imagesDir, 'kept_thumb.png'))).toBe(true);
+    expect(existsSync(join(imagesDir, 'orphan.png'))).toBe(false);
+  });
+
+  it('should only run on schedule when autoCleanup is enabled', async () => {
+    settings.autoCleanup = false;
+    await addEntry('Old entry', 40);
+
+    cleanupManager.start();
+
+    expect(cleanupManager.getLastReport()).toBeNull();
+    expect(storageManager.getClipboardEntryCount()).toBe(1);
+
+    settings.autoCleanup = true;
+    jest.advanceTimersByTime(DAY_MS);
+
+    expect(cleanupManager.getLastReport()?.deletedEntries).toBe(1);
+  });
+});
@@ -0,0 +1,18 @@
+import { getRepresentationLabels } from '../src/shared/clipboard-formats';
+
+describe('getRepresentationLabels', () => {
+  it('lists standard formats first, then custom MIME types', () => {
+    expect(
+      getRepresentationLabels({
+        custom: { 'application/x-app-data': 'AQID' },
+        image: 'data:image/png;base64,AAAA',
+        text: 'Hello',
+        html: '<b>Hello</b>',
+      })
+    ).toEqual(['Text', 'HTML', 'Image', 'application/x-app-data']);
+  });
+
+  it('lists nothing for an empty copy', () => {
+    expect(getRepresentationLabels({})).toEqual([]);
+  });
+});
@@ -0,0 +1,151 @@
+import { clipboard } from 'electron';
+import {
+  createClipboardWatcher,
+  getClipboardFingerprint,
+  ImageFingerprinter,
+  PollingClipboardWatcher,
+} from '../src/main/clipboard-watcher';
+
+jest.mock('electron', () => ({
+  clipboard: {
+    availableFormats: jest.fn(),
+    readText: jest.fn(() => ''),
+    readImage: jest.fn(),
+  },
+}));
+
+describe('getClipboardFingerprint', () => {
+  let size: { width: number; height: number };
+  const pixels = Buffer.alloc(64 * 64 * 4);
+  const toBitmap = jest.fn(() => Buffer.from(pixels));
+
+  beforeEach(() => {
+    size = { width: 64, height: 64 };
+    pixels.fill(0);
+    toBitmap.mockClear();
+    jest.mocked(clipboard.availableFormats).mockReturnValue(['image/png']);
+    jest.mocked(clipboard.readImage).mockImplementation(
+      () =>
+        ({
+          isEmpty: () => false,
+          getSize: () => size,
+          toBitmap,
+        }) as unknown as Electron.NativeImage
+    );
+  });
+
+  it('hashes the pixels only when the formats or image size change', () => {
+    const images = new ImageFingerprinter();
+    const first = getClipboardFingerprint(images);
+    expect(getClipboardFingerprint(images)).toBe(first);
+    expect(toBitmap).toHaveBeenCalledTimes(1);
+
+    size = { width: 32, height: 128 };
+    expect(getClipboardFingerprint(images)).not.toBe(first);
+    expect(toBitmap).toHaveBeenCalledTimes(2);
+
+    jest
+      .mocked(clipboard.availableFormats)
+      .mockReturnValue(['image/png', 'text/plain']);
+    getClipboardFingerprint(images);
+    expect(toBitmap).toHaveBeenCalledTimes(3);
+  });
+
+  it('tells images of the same size apart after a copy without one', () => {
+    const images = new ImageFingerprinter();
+    const first = getClipboardFingerprint(images);
+
+    jest.mocked(clipboard.availableFormats).mockReturnValue(['text/plain']);
+    getClipboardFingerprint(images);
+    jest.mocked(clipboard.availableFormats).mockReturnValue(['image/png']);
+    pixels[4097] = 255;
+    expect(getClipboardFingerprint(images)).not.toBe(first);
+  });
+});
+
+describe('PollingClipboardWatcher', () => {
+  let contents: string;
+  let watcher: PollingClipboardWatcher;
+  // Seconds since the user's last input
+  let idleTime: number;
+  const onChange = jest.fn();
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    onChange.mockReset();
+    contents = 'first';
+    idleTime = 60;
+    watcher = new PollingClipboardWatcher(
+      () => contents,
+      () => idleTime
+    );
+    watcher.start(onChange);
+  });
+
+  afterEach(() => {
+    watcher.stop();
+    jest.useRealTimers();
+  });
+
+  it('reports a copy on the next poll', () => {
+    contents = 'second';
+    jest.advanceTimersByTime(250);
+    expect(onChange).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(10_000);
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+
+  it('backs off while idle and speeds up again after a copy', () => {
+    const fingerprint = jest.fn(() => contents);
+    watcher.stop();
+    watcher = new PollingClipboardWatcher(fingerprint, () => idleTime);
+    watcher.start(onChange);
+
+    // Read on start, then 250, 375, 562.5, 843.75 and 1000 ms apart
+    jest.advanceTimersByTime(10_000);
+    expect(fingerprint.mock.calls).toHaveLength(12);
+
+    // Copy again as soon as the first copy is seen
+    const seenAt: number[] = [];
+    onChange.mockImplementation(() => {
+      seenAt.push(Date.now());
+      contents = 'third';
+    });
+    contents = 'second';
+    jest.advanceTimersByTime(2250);
+    expect(seenAt).toHaveLength(2);
+    expect(seenAt[1] - seenAt[0]).toBe(250);
+  });
+
+  it('keeps polling quickly while the user is active', () => {
+    const fingerprint = jest.fn(() => contents);
+    watcher.stop();
+    watcher = new PollingClipboardWatcher(fingerprint, () => idleTime);
+    idleTime = 0;
+    watcher.start(onChange);
+
+    // Read on start, then every 250 ms
+    jest.advanceTimersByTime(10_000);
+    expect(fingerprint.mock.calls).toHaveLength(41);
+  });
+
+  it('stops polling when stopped', () => {
+    watcher.stop();
+    contents = 'second';
+    jest.advanceTimersByTime(10_000);
+    expect(onChange).not.toHaveBeenCalled();
+  });
+});
+
+describe('createClipboardWatcher', () => {
+  it('polls when no change notifications are available', () => {
+    const platform = Object.getOwnPropertyDescriptor(process, 'platform')!;
+    Object.defineProperty(process, 'platform', { value: 'darwin' });
+    try {
+      expect(createClipboardWatcher()).toBeInstanceOf(PollingClipboardWatcher);
+    } finally {
+      Object.defineProperty(process, 'platform', platform);
+    }
+  });
+});
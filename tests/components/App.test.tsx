@@ -27,6 +27,17 @@ const mockClipboardEntries: ClipboardEntry[] = [
   },
 ];
 
+const toHistoryPage = (entries: ClipboardEntry[]) => ({
+  entries,
+  nextCursor: null,
+  counts: {
+    total: entries.length,
+    categories: { Text: entries.length },
+    favorites: 0,
+    tags: [],
+  },
+});
+
 // Mock window.location
 const mockLocation = {
   href: 'http://localhost:3000',
@@ -52,8 +63,8 @@ describe('App', () => {
     }));
 
     // Mock electronAPI methods
-    (window.electronAPI.clipboard.getHistory as jest.Mock).mockResolvedValue(
-      mockClipboardEntries
+    (window.electronAPI.clipboard.query as jest.Mock).mockResolvedValue(
+      toHistoryPage(mockClipboardEntries)
     );
     (window.electronAPI.settings.get as jest.Mock).mockResolvedValue(true);
     (window.electronAPI.on.clipboardChanged as jest.Mock).mockReturnValue(
@@ -78,12 +89,12 @@ describe('App', () => {
       expect(screen.getByText('Test clipboard content')).toBeInTheDocument();
     });
 
-    expect(window.electronAPI.clipboard.getHistory).toHaveBeenCalled();
+    expect(window.electronAPI.clipboard.query).toHaveBeenCalled();
   });
 
   it('should handle empty clipboard history', async () => {
-    (window.electronAPI.clipboard.getHistory as jest.Mock).mockResolvedValue(
-      []
+    (window.electronAPI.clipboard.query as jest.Mock).mockResolvedValue(
+      toHistoryPage([])
     );
 
     render(<App />);
@@ -97,7 +108,7 @@ describe('App', () => {
   });
 
   it('should handle API errors gracefully', async () => {
-    (window.electronAPI.clipboard.getHistory as jest.Mock).mockRejectedValue(
+    (window.electronAPI.clipboard.query as jest.Mock).mockRejectedValue(
       new Error('API Error')
     );
 
@@ -165,8 +176,13 @@ describe('App', () => {
     );
     fireEvent.change(searchInput, { target: { value: 'test' } });
 
-    // Should filter entries based on search
-    expect(screen.getByText('Test clipboard content')).toBeInTheDocument();
+    // Should search in the main process and highlight the match
+    await waitFor(() => {
+      expect(window.electronAPI.clipboard.query).toHaveBeenLastCalledWith(
+        expect.objectContaining({ searchQuery: 'test' })
+      );
+    });
+    expect(screen.getByText('Test', { selector: 'mark' })).toBeInTheDocument();
   });
 
   it('should handle settings modal', async () => {
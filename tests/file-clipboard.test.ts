@@ -0,0 +1,45 @@
+import {
+  parseGnomeCopiedFiles,
+  parseUriList,
+  toGnomeCopiedFiles,
+  toUriList,
+} from '../src/main/file-clipboard';
+
+jest.mock('electron', () => ({
+  app: {},
+  clipboard: {},
+}));
+
+describe('file clipboard formats', () => {
+  it('reads local paths from a URI list', () => {
+    expect(
+      parseUriList(
+        '# copied from the file manager\r\n' +
+          'file:///home/me/My%20Report.pdf\r\n' +
+          'https://example.com/remote.txt\r\n' +
+          'file:///home/me/photos\r\n'
+      )
+    ).toEqual(['/home/me/My Report.pdf', '/home/me/photos']);
+  });
+
+  it('reads copied and cut files from GNOME file managers', () => {
+    const uris = 'file:///tmp/a.txt\nfile:///tmp/b%C3%A9.txt';
+
+    expect(parseGnomeCopiedFiles(`copy\n${uris}`)).toEqual([
+      '/tmp/a.txt',
+      '/tmp/bé.txt',
+    ]);
+    expect(parseGnomeCopiedFiles(`cut\n${uris}`)).toHaveLength(2);
+    expect(parseGnomeCopiedFiles(uris)).toEqual([]);
+  });
+
+  it('writes paths back in the format they were read from', () => {
+    const paths = ['/home/me/My Report.pdf', '/tmp/#1.txt'];
+
+    expect(toUriList(paths)).toBe(
+      'file:///home/me/My%20Report.pdf\r\nfile:///tmp/%231.txt'
+    );
+    expect(parseUriList(toUriList(paths))).toEqual(paths);
+    expect(parseGnomeCopiedFiles(toGnomeCopiedFiles(paths))).toEqual(paths);
+  });
+});
@@ -0,0 +1,158 @@
+import Database from 'better-sqlite3';
+import {
+  fuzzyMatch,
+  getHighlightRanges,
+  getSearchRank,
+  getSearchRankSql,
+  matchEntry,
+} from '../src/shared/fuzzy-search';
+
+describe('fuzzyMatch', () => {
+  it('should rank exact word matches above fuzzy ones', () => {
+    const exact = fuzzyMatch('check', 'git checkout main');
+    const subsequence = fuzzyMatch('chkout', 'git checkout main');
+
+    expect(exact?.score).toBe(1);
+    expect(subsequence).not.toBeNull();
+    expect(subsequence!.score).toBeLessThan(exact!.score);
+  });
+
+  it('should match acronyms', () => {
+    const match = fuzzyMatch('gcm', 'git commit --message');
+    expect(match?.positions).toEqual([0, 4, 13]);
+  });
+
+  it('should match camelCase acronyms', () => {
+    expect(fuzzyMatch('gch', 'getClipboardHistory')?.positions).toEqual([
+      0, 3, 12,
+    ]);
+  });
+
+  it('should tolerate typos', () => {
+    expect(fuzzyMatch('recieve', 'please receive this')).not.toBeNull();
+    expect(fuzzyMatch('pasword', 'reset your password')).not.toBeNull();
+  });
+
+  it('should require every term to match', () => {
+    expect(
+      fuzzyMatch('meeting notes', 'meeting notes for today')
+    ).not.toBeNull();
+    expect(fuzzyMatch('meeting budget', 'meeting notes for today')).toBeNull();
+  });
+
+  it('should not match scattered characters', () => {
+    expect(fuzzyMatch('abc', 'alpha then bravo and the topic')).toBeNull();
+  });
+});
+
+describe('matchEntry', () => {
+  it('should let terms match different fields', () => {
+    expect(
+      matchEntry('invoice work', {
+        content: 'Invoice #1234',
+        format: 'text',
+        preview: 'Invoice #1234',
+        category: 'Text',
+        note: 'for work',
+      })
+    ).not.toBeNull();
+  });
+
+  it('should ignore image content', () => {
+    expect(
+      matchEntry('abc', {
+        content: 'data:image/png;base64,aGVsbG8gYWJj',
+        format: 'image',
+        preview: '[Image]',
+      })
+    ).toBeNull();
+  });
+});
+
+describe('getSearchRank', () => {
+  const now = new Date('2024-01-10T00:00:00Z').getTime();
+
+  it('should prefer recent and frequently used entries on equal relevance', () => {
+    const old = getSearchRank(
+      1,
+      { createdAt: new Date('2024-01-01T00:00:00Z'), usageCount: 0 },
+      now
+    );
+    const recent = getSearchRank(
+      1,
+      { createdAt: new Date('2024-01-09T00:00:00Z'), usageCount: 0 },
+      now
+    );
+    const used = getSearchRank(
+      1,
+      { createdAt: new Date('2024-01-01T00:00:00Z'), usageCount: 10 },
+      now
+    );
+
+    expect(recent).toBeGreaterThan(old);
+    expect(used).toBeGreaterThan(old);
+  });
+
+  it('should let relevance outweigh recency', () => {
+    const relevantOld = getSearchRank(
+      1,
+      { createdAt: new Date('2023-01-01T00:00:00Z'), usageCount: 0 },
+      now
+    );
+    const fuzzyNew = getSearchRank(
+      0.5,
+      { createdAt: new Date(now), usageCount: 0 },
+      now
+    );
+    expect(relevantOld).toBeGreaterThan(fuzzyNew);
+  });
+});
+
+describe('getSearchRankSql', () => {
+  const now = new Date('2024-01-10T00:00:00Z').getTime();
+
+  it('should rank stored entries as getSearchRank does', () => {
+    const db = new Database(':memory:');
+    const entries = [
+      { createdAt: new Date('2024-01-01T00:00:00Z'), usageCount: 0 },
+      {
+        createdAt: new Date('2023-06-01T00:00:00Z'),
+        lastUsedAt: new Date('2024-01-09T12:00:00Z'),
+        usageCount: 7,
+      },
+      { createdAt: new Date(now + 1000), usageCount: 100 },
+    ];
+
+    for (const entry of entries) {
+      const rank = db
+        .prepare(
+          `SELECT ${getSearchRankSql(0.8, now)}
+           FROM (SELECT ? AS created_at, ? AS last_used_at, ? AS usage_count)`
+        )
+        .pluck()
+        .get(
+          entry.createdAt.getTime(),
+          entry.lastUsedAt?.getTime() ?? null,
+          entry.usageCount
+        );
+      expect(rank).toBeCloseTo(getSearchRank(0.8, entry, now), 10);
+    }
+    db.close();
+  });
+});
+
+describe('getHighlightRanges', () => {
+  it('should merge adjacent matched characters', () => {
+    expect(getHighlightRanges('hello wd', 'hello world')).toEqual([
+      { start: 0, end: 5 },
+      { start: 6, end: 7 },
+      { start: 10, end: 11 },
+    ]);
+  });
+
+  it('should highlight the terms that match the text', () => {
+    expect(getHighlightRanges('note missing', 'a note')).toEqual([
+      { start: 2, end: 6 },
+    ]);
+  });
+});
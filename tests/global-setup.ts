@@ -0,0 +1,18 @@
+import { execSync, spawnSync } from 'child_process';
+
+// better-sqlite3 is built for Electron's ABI on install, which Node can't
+// load, so it is rebuilt for Node before the tests run. global-teardown.ts
+// builds it for Electron again afterwards.
+const loadsInNode = () =>
+  spawnSync(process.execPath, [
+    '-e',
+    "new (require('better-sqlite3'))(':memory:').close()",
+  ]).status === 0;
+
+export default function globalSetup() {
+  if (loadsInNode()) return;
+
+  console.log('\nRebuilding better-sqlite3 for Node...');
+  execSync('npm rebuild better-sqlite3', { stdio: 'inherit' });
+  process.env.SQLITE_REBUILT_FOR_NODE = 'true';
+}
@@ -0,0 +1,9 @@
+import { execSync } from 'child_process';
+
+export default function globalTeardown() {
+  if (!process.env.SQLITE_REBUILT_FOR_NODE) return;
+
+  console.log('Rebuilding better-sqlite3 for Electron...');
+  execSync('npx electron-builder install-app-deps', { stdio: 'inherit' });
+  delete process.env.SQLITE_REBUILT_FOR_NODE;
+}
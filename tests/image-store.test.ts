@@ -0,0 +1,101 @@
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createDataKey, DataCipher } from '../src/main/cipher';
+import { fitWithin, hashImage, ImageStore } from '../src/main/image-store';
+import { SqliteStorageManager } from '../src/main/sqlite-storage';
+
+let mockUserDataPath = '';
+
+// Images are stood in for by their PNG bytes, and resizing by a PNG naming
+// the new size
+jest.mock('electron', () => {
+  const createImage = (png: Buffer) => ({
+    getSize: () => ({ width: 400, height: 100 }),
+    resize: ({ width, height }: { width: number; height: number }) =>
+      createImage(Buffer.from(`${width}x${height}`)),
+    toPNG: () => png,
+  });
+  return {
+    app: { getPath: jest.fn(() => mockUserDataPath) },
+    nativeImage: { createFromBuffer: jest.fn(createImage) },
+  };
+});
+
+describe('ImageStore', () => {
+  let cipher: DataCipher | null;
+  let store: ImageStore;
+  const png = Buffer.from('png data');
+
+  beforeEach(() => {
+    mockUserDataPath = mkdtempSync(join(tmpdir(), 'localclip-test-'));
+    cipher = null;
+    store = new ImageStore({
+      getCipher: () => cipher,
+    } as unknown as SqliteStorageManager);
+  });
+
+  afterEach(() => {
+    rmSync(mockUserDataPath, { recursive: true, force: true });
+  });
+
+  const listImages = () => readdirSync(join(mockUserDataPath, 'images'));
+
+  it('stores each image once under its SHA-256', () => {
+    const hash = store.save(png);
+
+    expect(hash).toBe(hashImage(png));
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(store.save(Buffer.from('png data'))).toBe(hash);
+    expect(store.save(Buffer.from('other png'))).not.toBe(hash);
+    expect(listImages()).toHaveLength(2);
+    expect(store.read(hash)).toEqual(png);
+  });
+
+  it('names images by a keyed hash while history is encrypted', () => {
+    cipher = new DataCipher(createDataKey());
+    const hash = store.save(png);
+
+    expect(hash).toBe(cipher.hash(png));
+    expect(hash).not.toBe(hashImage(png));
+    expect(store.hash(png)).toBe(hash);
+  });
+
+  it('makes thumbnails on first use, keeping the aspect ratio', () => {
+    const hash = store.save(png);
+    expect(listImages()).toEqual([`${hash}.png`]);
+
+    expect(store.getThumbnail(hash)?.toString()).toBe('128x32');
+    expect(listImages()).toContain(`${hash}_thumb.png`);
+    expect(fitWithin({ width: 50, height: 20 }, 128)).toEqual({
+      width: 50,
+      height: 20,
+    });
+    expect(fitWithin({ width: 1000, height: 3000 }, 128)).toEqual({
+      width: 43,
+      height: 128,
+    });
+  });
+
+  it('encrypts images while history is encrypted', () => {
+    cipher = new DataCipher(createDataKey());
+    const hash = store.save(png);
+
+    const encryptedPath = join(mockUserDataPath, 'images', `${hash}.png.enc`);
+    expect(readFileSync(encryptedPath).includes(png)).toBe(false);
+    expect(store.read(hash)).toEqual(png);
+
+    // Locked storage can't show them
+    cipher = null;
+    expect(store.read(hash)).toBeNull();
+  });
+
+  it('deletes images with their thumbnails', () => {
+    const hash = store.save(png);
+    store.getThumbnail(hash);
+    store.delete([hash]);
+
+    expect(listImages()).toEqual([]);
+    expect(existsSync(store.getPath(hash))).toBe(false);
+  });
+});
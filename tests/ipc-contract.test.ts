@@ -0,0 +1,132 @@
+import {
+  createInvokeApi,
+  IPC_CHANNELS,
+  IpcError,
+  parseIpcArgs,
+  parseIpcError,
+} from '../src/shared/ipc-contract';
+import { ClipboardEntry } from '../src/shared/types';
+
+const entry = (fields: Partial<ClipboardEntry> = {}): ClipboardEntry => ({
+  id: 1,
+  content: 'hello',
+  contentType: 'text',
+  format: 'text',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  isPinned: false,
+  isFavorite: false,
+  tags: [],
+  usageCount: 0,
+  ...fields,
+});
+
+const issuesOf = (run: () => unknown) => {
+  try {
+    run();
+  } catch (error) {
+    expect(error).toBeInstanceOf(IpcError);
+    return (error as IpcError).issues;
+  }
+  throw new Error('Expected the arguments to be rejected');
+};
+
+describe('parseIpcArgs', () => {
+  it('should accept valid arguments', () => {
+    const args = parseIpcArgs('clipboard:pasteAs', [
+      entry({ representations: { text: 'hello', html: '<b>hello</b>' } }),
+      ['uppercase'],
+    ]);
+    expect(args[1]).toEqual(['uppercase']);
+    expect(parseIpcArgs('clipboard:getHistory', [])).toEqual([]);
+  });
+
+  it('should reject unknown keys with their path', () => {
+    const issues = issuesOf(() =>
+      parseIpcArgs('clipboard:paste', [
+        entry({ representations: { text: 'a', script: 'b' } as never }),
+      ])
+    );
+    expect(issues).toEqual([
+      { path: 'entry.representations.script', message: 'is not a known key' },
+    ]);
+  });
+
+  it('should report every malformed argument', () => {
+    const issues = issuesOf(() =>
+      parseIpcArgs('clipboard:setTags', ['7', ['work', 3]])
+    );
+    expect(issues.map(issue => issue.path)).toEqual(['id', 'tags[1]']);
+  });
+
+  it('should reject extra arguments and bad values', () => {
+    expect(issuesOf(() => parseIpcArgs('clipboard:delete', [1, 2]))).toEqual([
+      { path: 'arguments', message: 'expected at most 1, got 2' },
+    ]);
+    expect(
+      issuesOf(() => parseIpcArgs('pasteQueue:remove', [1.5]))[0].message
+    ).toBe('must be a whole number');
+    expect(
+      issuesOf(() => parseIpcArgs('clipboard:pasteAs', [entry(), ['shout']]))
+    ).toHaveLength(1);
+  });
+
+  it('should check settings against the schema of their key', () => {
+    expect(parseIpcArgs('settings:set', ['theme', 'dark'])).toEqual([
+      'theme',
+      'dark',
+    ]);
+    expect(
+      issuesOf(() => parseIpcArgs('settings:set', ['adminMode', true]))[0].path
+    ).toBe('key');
+    expect(
+      issuesOf(() => parseIpcArgs('settings:set', ['maxHistoryItems', '50']))
+    ).toEqual([{ path: 'value', message: 'expected a number, got string' }]);
+    expect(
+      issuesOf(() =>
+        parseIpcArgs('settings:set', [
+          'sensitiveDataActions',
+          { 'credit-card': 'shred', password: 'mask' },
+        ])
+      ).map(issue => issue.path)
+    ).toEqual(['value.password', 'value.credit-card']);
+  });
+
+  it('should leave encryption to the encryption channels', () => {
+    expect(
+      issuesOf(() => parseIpcArgs('settings:set', ['encryptData', true]))[0]
+        .path
+    ).toBe('key');
+  });
+});
+
+describe('createInvokeApi', () => {
+  it('should expose every channel as a namespaced method', async () => {
+    const invoke = jest.fn().mockResolvedValue(true);
+    const api = createInvokeApi(invoke);
+
+    await api.clipboard.setTags(3, ['work']);
+    expect(invoke).toHaveBeenCalledWith('clipboard:setTags', 3, ['work']);
+
+    const methods = Object.entries(api).flatMap(([namespace, group]) =>
+      Object.keys(group).map(method => `${namespace}:${method}`)
+    );
+    expect(methods.sort()).toEqual(Object.keys(IPC_CHANNELS).sort());
+  });
+});
+
+describe('parseIpcError', () => {
+  it('should read the code and channel back from a forwarded error', () => {
+    const error = new IpcError('INVALID_ARGUMENTS', 'clipboard:delete', 'x');
+    // Electron prefixes the message when passing the error to the renderer
+    const forwarded = new Error(
+      `Error invoking remote method 'clipboard:delete': Error: ${error.message}`
+    );
+    expect(parseIpcError(forwarded)).toEqual({
+      code: 'INVALID_ARGUMENTS',
+      channel: 'clipboard:delete',
+      detail: 'x',
+    });
+    expect(parseIpcError(new Error('disk full'))).toBeNull();
+  });
+});
@@ -0,0 +1,71 @@
+import { PasteQueueManager } from '../src/main/paste-queue';
+import { SettingsManager } from '../src/main/settings';
+import { ClipboardEntry, PasteQueueState, Settings } from '../src/shared/types';
+
+const entry = (id: number): ClipboardEntry => ({
+  id,
+  content: `field ${id}`,
+  contentType: 'text',
+  format: 'text',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  isPinned: false,
+  isFavorite: false,
+  tags: [],
+  usageCount: 0,
+});
+
+describe('PasteQueueManager', () => {
+  const settings: Partial<Settings> = {};
+  const settingsManager: Pick<SettingsManager, 'get'> = {
+    get: <K extends keyof Settings>(key?: K) =>
+      settings[key!] as K extends undefined ? Settings : Settings[K],
+  };
+
+  let queue: PasteQueueManager;
+  let onChange: jest.Mock<void, [PasteQueueState]>;
+
+  beforeEach(() => {
+    settings.pasteQueueOrder = 'fifo';
+    onChange = jest.fn();
+    queue = new PasteQueueManager(settingsManager, onChange);
+    queue.startCollecting();
+    [1, 2, 3].forEach(id => queue.add(entry(id)));
+  });
+
+  it('should paste entries in the order they were collected', () => {
+    expect(queue.takeNext()?.id).toBe(1);
+    expect(queue.takeNext()?.id).toBe(2);
+    expect(queue.getState()).toMatchObject({ pastedCount: 2 });
+    expect(queue.takeNext()?.id).toBe(3);
+    expect(queue.takeNext()).toBeNull();
+  });
+
+  it('should paste the last collected entry first in LIFO order', () => {
+    settings.pasteQueueOrder = 'lifo';
+    expect(queue.getState().entries.map(({ id }) => id)).toEqual([3, 2, 1]);
+
+    queue.remove(1);
+    expect(queue.takeNext()?.id).toBe(3);
+    expect(queue.takeNext()?.id).toBe(1);
+  });
+
+  it('should describe progress and report every change', () => {
+    expect(queue.describeProgress()).toBe('Collecting paste queue (3 queued)');
+
+    queue.stopCollecting();
+    queue.takeNext();
+    expect(queue.describeProgress()).toBe('Paste queue 1/3');
+    expect(onChange).toHaveBeenLastCalledWith(
+      expect.objectContaining({ isCollecting: false, pastedCount: 1 })
+    );
+
+    queue.clear();
+    expect(queue.describeProgress()).toBeNull();
+  });
+
+  it('should start an empty queue each time collecting starts', () => {
+    queue.startCollecting();
+    expect(queue.getState().entries).toEqual([]);
+  });
+});
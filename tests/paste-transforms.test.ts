@@ -0,0 +1,97 @@
+import {
+  applyPasteTransforms,
+  getPasteTransformsFor,
+  htmlToMarkdown,
+  htmlToPlainText,
+  PasteTransformId,
+} from '../src/shared/paste-transforms';
+
+const html = (content: string) => ({ content, format: 'html' as const });
+const text = (content: string) => ({ content, format: 'text' as const });
+
+describe('paste transforms', () => {
+  it('converts HTML to Markdown', () => {
+    expect(
+      htmlToMarkdown(
+        '<h2>Notes</h2><p>Read <strong>this</strong> at ' +
+          '<a href="https://example.com/?a=1&amp;b=2">the site</a>.</p>' +
+          '<ul><li>One</li><li>Two<ol><li>Nested</li></ol></li></ul>' +
+          '<blockquote><p>Quoted</p></blockquote>' +
+          '<pre><code>  if (a &lt; b) {}\n</code></pre>'
+      )
+    ).toBe(
+      [
+        '## Notes',
+        '',
+        'Read **this** at [the site](https://example.com/?a=1&b=2).',
+        '',
+        '- One',
+        '- Two',
+        '  1. Nested',
+        '',
+        '> Quoted',
+        '',
+        '```',
+        '  if (a < b) {}',
+        '```',
+      ].join('\n')
+    );
+  });
+
+  it('keeps the line breaks of HTML blocks in plain text', () => {
+    expect(
+      htmlToPlainText('<p>First&nbsp;line<br>second</p><ul><li>a</li></ul>')
+    ).toBe('First line\nsecond\n\na');
+  });
+
+  it('runs transforms in order on the result of the previous one', () => {
+    expect(
+      applyPasteTransforms(text("  hello WORLD, don't  "), [
+        'trim',
+        'titleCase',
+      ])
+    ).toBe("Hello World, Don't");
+    expect(
+      applyPasteTransforms(html('<p><b>Bold</b></p>'), [
+        'markdown',
+        'uppercase',
+      ])
+    ).toBe('**BOLD**');
+    // Plain text has no HTML left to convert
+    expect(
+      applyPasteTransforms(html('<p><b>Bold</b></p>'), [
+        'plainText',
+        'markdown',
+      ])
+    ).toBe('Bold');
+  });
+
+  it('encodes text', () => {
+    const entry = text('a "b"\nc&d é');
+    const encode = (id: PasteTransformId) => applyPasteTransforms(entry, [id]);
+
+    expect(encode('urlEncode')).toBe('a%20%22b%22%0Ac%26d%20%C3%A9');
+    expect(encode('jsonEscape')).toBe('a \\"b\\"\\nc&d é');
+    expect(Buffer.from(encode('base64'), 'base64').toString('utf8')).toBe(
+      entry.content
+    );
+  });
+
+  it('offers only the transforms that apply to an entry', () => {
+    const ids = (entry: Parameters<typeof getPasteTransformsFor>[0]) =>
+      getPasteTransformsFor(entry).map(transform => transform.id);
+
+    expect(ids(html('<p>x</p>'))).toContain('markdown');
+    expect(ids(text('x'))).not.toContain('markdown');
+    expect(ids(text('x'))).not.toContain('plainText');
+    expect(ids({ content: 'data:image/png;base64,', format: 'image' })).toEqual(
+      []
+    );
+  });
+
+  it('rejects unknown transforms', () => {
+    expect(() =>
+      applyPasteTransforms(text('x'), ['reverse' as PasteTransformId])
+    ).toThrow('Unknown paste transform: reverse');
+  });
+});
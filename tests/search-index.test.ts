@@ -0,0 +1,67 @@
+import { SearchIndex, tokenize } from '../src/main/search-index';
+import { parseSearchQuery } from '../src/shared/search-query';
+import { ClipboardFormat } from '../src/shared/types';
+
+const entry = (
+  id: number,
+  content: string,
+  format: ClipboardFormat = 'text'
+) => ({ id, content, format, preview: content.slice(0, 100) });
+
+const search = (index: SearchIndex, query: string) => {
+  const result = index.search(parseSearchQuery(query));
+  return result && Array.from(result.relevance.keys()).sort();
+};
+
+describe('tokenize', () => {
+  it('should split camelCase words and collect initials', () => {
+    const { words, initials } = tokenize('getClipboardHistory now');
+    expect(words).toEqual(
+      expect.arrayContaining(['getclipboardhistory', 'clipboard', 'now'])
+    );
+    expect(initials).toBe('gchn');
+  });
+});
+
+describe('SearchIndex', () => {
+  let index: SearchIndex;
+
+  beforeEach(() => {
+    index = new SearchIndex();
+    index.add(entry(1, 'git checkout main'));
+    index.add(entry(2, 'Please receive the invoice'));
+    index.add({
+      ...entry(3, '<p class="note">Meeting notes</p>', 'html'),
+      preview: 'Meeting notes',
+    });
+  });
+
+  it('should match prefixes, acronyms and typos', () => {
+    expect(search(index, 'check')).toEqual([1]);
+    expect(search(index, 'gcm')).toEqual([1]);
+    expect(search(index, 'recieve')).toEqual([2]);
+  });
+
+  it('should index the text of rich formats without markup', () => {
+    expect(search(index, 'meeting')).toEqual([3]);
+    expect(search(index, 'class')).toEqual([]);
+  });
+
+  it('should follow updates and removals', () => {
+    index.add(entry(1, 'npm install'));
+    expect(search(index, 'checkout')).toEqual([]);
+    expect(search(index, 'install')).toEqual([1]);
+
+    index.remove(2);
+    expect(search(index, 'invoice')).toEqual([]);
+    expect(index.size).toBe(2);
+  });
+
+  it('should exclude negated words', () => {
+    expect(search(index, 'e -invoice')).toEqual([1, 3]);
+  });
+
+  it('should leave regular expressions to a full scan', () => {
+    expect(index.search(parseSearchQuery('/che+ck/'))).toBeNull();
+  });
+});
@@ -0,0 +1,109 @@
+import {
+  getQueryHighlightRanges,
+  matchTextClauses,
+  parseSearchQuery,
+} from '../src/shared/search-query';
+
+describe('parseSearchQuery', () => {
+  it('should parse field operators, phrases and negation', () => {
+    const query = parseSearchQuery(
+      'type:url app:firefox tag:#deploy after:2026-09-01 "exact phrase" -draft'
+    );
+
+    expect(query.errors).toEqual([]);
+    expect(query.types).toEqual({ include: ['url'], exclude: [] });
+    expect(query.apps).toEqual({ include: ['firefox'], exclude: [] });
+    expect(query.tags).toEqual({ include: ['deploy'], exclude: [] });
+    expect(query.after).toEqual(new Date(2026, 8, 1));
+    expect(query.text).toEqual([
+      { kind: 'phrase', value: 'exact phrase', negated: false },
+      { kind: 'term', value: 'draft', negated: true },
+    ]);
+  });
+
+  it('should parse quoted field values and excluded fields', () => {
+    const query = parseSearchQuery('app:"Google Chrome" -tag:old -is:pinned');
+
+    expect(query.apps.include).toEqual(['Google Chrome']);
+    expect(query.tags.exclude).toEqual(['old']);
+    expect(query.pinned).toBe(false);
+  });
+
+  it('should parse date comparisons', () => {
+    expect(parseSearchQuery('date:>2026-09-01')).toMatchObject({
+      after: new Date(2026, 8, 2),
+    });
+    expect(parseSearchQuery('date:<=2026-09-01')).toMatchObject({
+      before: new Date(2026, 8, 2),
+    });
+    expect(parseSearchQuery('date:2026-09-01')).toMatchObject({
+      after: new Date(2026, 8, 1),
+      before: new Date(2026, 8, 2),
+    });
+  });
+
+  it('should parse regular expressions but keep paths as words', () => {
+    const query = parseSearchQuery('/v\\d+\\.\\d+/ /usr/bin');
+
+    expect(query.text).toEqual([
+      { kind: 'regex', value: 'v\\d+\\.\\d+', flags: 'i', negated: false },
+      { kind: 'term', value: '/usr/bin', negated: false },
+    ]);
+  });
+
+  it('should treat unknown prefixes as plain words', () => {
+    expect(parseSearchQuery('https://example.com').text).toEqual([
+      { kind: 'term', value: 'https://example.com', negated: false },
+    ]);
+  });
+
+  it('should report invalid syntax with its position', () => {
+    const input = 'after:someday /[a-/ tag: "open';
+    const { errors, text } = parseSearchQuery(input);
+
+    expect(errors.map(({ start, end }) => input.slice(start, end))).toEqual([
+      'after:someday',
+      '/[a-/',
+      'tag:',
+      '"open',
+    ]);
+    expect(errors[0].message).toBe('Invalid date "someday", use YYYY-MM-DD');
+    expect(text).toEqual([]);
+  });
+});
+
+describe('matchTextClauses', () => {
+  const entry = {
+    content: 'Release v2.4 notes',
+    format: 'text' as const,
+    preview: 'Release v2.4 notes',
+  };
+
+  it('should require phrases and regular expressions to match', () => {
+    expect(matchTextClauses(parseSearchQuery('"v2.4 notes"'), entry)).toBe(1);
+    expect(
+      matchTextClauses(parseSearchQuery('/v\\d\\.\\d/'), entry)
+    ).not.toBeNull();
+    expect(matchTextClauses(parseSearchQuery('"v2.5"'), entry)).toBeNull();
+  });
+
+  it('should exclude negated words', () => {
+    expect(
+      matchTextClauses(parseSearchQuery('release -notes'), entry)
+    ).toBeNull();
+    expect(
+      matchTextClauses(parseSearchQuery('release -draft'), entry)
+    ).not.toBeNull();
+  });
+});
+
+describe('getQueryHighlightRanges', () => {
+  it('should highlight phrases and regular expression matches', () => {
+    expect(
+      getQueryHighlightRanges('"release" /\\d\\.\\d/ type:text', 'Release v2.4')
+    ).toEqual([
+      { start: 0, end: 7 },
+      { start: 9, end: 12 },
+    ]);
+  });
+});
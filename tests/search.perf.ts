@@ -0,0 +1,96 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import Database from 'better-sqlite3';
+import { SqliteStorageManager } from '../src/main/sqlite-storage';
+
+let mockUserDataPath = '';
+
+jest.mock('electron', () => ({
+  app: {
+    getPath: jest.fn(() => mockUserDataPath),
+  },
+}));
+
+const ENTRY_COUNT = 50_000;
+const TARGET_MS = 50;
+
+const WORDS = [
+  'deploy',
+  'invoice',
+  'meeting',
+  'release',
+  'customer',
+  'password',
+  'kubernetes',
+  'refactor',
+  'migration',
+  'dashboard',
+];
+
+// Fills the database directly, as adding 50k entries one by one would take
+// most of the test's time
+const seedEntries = (databasePath: string) => {
+  const db = new Database(databasePath);
+  const insert = db.prepare(
+    `INSERT INTO clipboard_entries (content, content_type, format, preview,
+       app_name, created_at, updated_at, last_copied_at, category, tags)
+     VALUES (@content, 'text', 'text', @content, 'Terminal', @time, @time,
+       @time, @category, @tags)`
+  );
+  const start = Date.now() - ENTRY_COUNT * 1000;
+  db.transaction(() => {
+    for (let i = 0; i < ENTRY_COUNT; i++) {
+      const content = `notes ${i}: ${WORDS[i % WORDS.length]} ${
+        WORDS[(i * 7) % WORDS.length]
+      } item${i} for team ${i % 97}`;
+      insert.run({
+        content,
+        time: start + i * 1000,
+        category: i % 3 === 0 ? 'Code' : 'Text',
+        tags: JSON.stringify(i % 5 === 0 ? ['work'] : []),
+      });
+    }
+  })();
+  db.close();
+};
+
+// The first run of a query is the one a user waits for, as the term matches
+// and chip counts it works out are then remembered
+const timeFirstRun = (run: () => unknown) => {
+  const startedAt = performance.now();
+  run();
+  return performance.now() - startedAt;
+};
+
+describe('search performance', () => {
+  let storageManager: SqliteStorageManager;
+
+  beforeAll(() => {
+    mockUserDataPath = mkdtempSync(join(tmpdir(), 'localclip-test-'));
+    new SqliteStorageManager().close();
+    seedEntries(join(mockUserDataPath, 'localclip.db'));
+    storageManager = new SqliteStorageManager();
+    storageManager.buildSearchIndex();
+  }, 60_000);
+
+  afterAll(() => {
+    storageManager.close();
+    rmSync(mockUserDataPath, { recursive: true, force: true });
+  });
+
+  it.each([
+    ['a rare term', 'item4242'],
+    ['a common term', 'notes'],
+    ['a common term with a tag', 'deploy tag:work'],
+    ['a typo', 'kubernets'],
+  ])(
+    `should search ${ENTRY_COUNT} entries for %s within ${TARGET_MS}ms`,
+    (_, searchQuery) => {
+      const time = timeFirstRun(() =>
+        storageManager.queryHistory({ searchQuery, limit: 50 })
+      );
+      expect(time).toBeLessThan(TARGET_MS);
+    }
+  );
+});
@@ -4,12 +4,53 @@ import '@testing-library/jest-dom';
 const mockElectronAPI = {
   clipboard: {
     getHistory: jest.fn(),
+    query: jest.fn(),
+    add: jest.fn(),
     delete: jest.fn(),
     pin: jest.fn(),
+    favorite: jest.fn(),
     updateNote: jest.fn(),
+    edit: jest.fn(),
+    getRevisions: jest.fn(),
+    restoreRevision: jest.fn(),
+    setTags: jest.fn(),
+    listTags: jest.fn(),
+    setExpiry: jest.fn(),
     clear: jest.fn(),
     paste: jest.fn(),
     smartPaste: jest.fn(),
+    pasteAs: jest.fn(),
+    getRecentApps: jest.fn(),
+  },
+  pasteQueue: {
+    getState: jest.fn(),
+    startCollecting: jest.fn(),
+    stopCollecting: jest.fn(),
+    add: jest.fn(),
+    remove: jest.fn(),
+    clear: jest.fn(),
+    pasteNext: jest.fn(),
+  },
+  snippets: {
+    list: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+    paste: jest.fn(),
+  },
+  storage: {
+    getRecoveryInfo: jest.fn(),
+    dismissRecovery: jest.fn(),
+  },
+  encryption: {
+    getStatus: jest.fn(),
+    enable: jest.fn(),
+    disable: jest.fn(),
+    unlock: jest.fn(),
+  },
+  cleanup: {
+    run: jest.fn(),
+    getLastReport: jest.fn(),
   },
   settings: {
     get: jest.fn(),
@@ -25,9 +66,14 @@ const mockElectronAPI = {
   hotkey: {
     register: jest.fn(),
     getCurrent: jest.fn(),
+    registerPasteQueue: jest.fn(),
   },
   on: {
     clipboardChanged: jest.fn(),
+    entriesExpired: jest.fn(),
+    entryUpdated: jest.fn(),
+    historyCleaned: jest.fn(),
+    pasteQueueChanged: jest.fn(),
     settingsChanged: jest.fn(),
   },
   utils: {
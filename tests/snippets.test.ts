@@ -0,0 +1,98 @@
+import {
+  expandTemplate,
+  getSnippetError,
+  getTemplateInputs,
+  searchSnippets,
+} from '../src/shared/snippets';
+import { Snippet } from '../src/shared/types';
+
+const snippet = (
+  id: number,
+  name: string,
+  fields: Partial<Snippet> = {}
+): Snippet => ({
+  id,
+  name,
+  content: `${name} text`,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  usageCount: 0,
+  ...fields,
+});
+
+describe('expandTemplate', () => {
+  const values = {
+    clipboard: 'copied text',
+    inputs: { 'Ticket ID': 'LC-42' },
+    now: new Date(2026, 8, 5, 14, 30),
+  };
+
+  it('should fill in the date, clipboard and inputs', () => {
+    const { text } = expandTemplate(
+      'Fixes {{input:Ticket ID}} on {{date}}: {{ clipboard }}',
+      values
+    );
+    expect(text).toBe('Fixes LC-42 on 2026-09-05: copied text');
+  });
+
+  it('should report the characters after the cursor', () => {
+    const expanded = expandTemplate(
+      'SELECT * FROM {{cursor}} WHERE id = {{cursor}}1;',
+      values
+    );
+    expect(expanded.text).toBe('SELECT * FROM  WHERE id = 1;');
+    expect(expanded.cursorOffset).toBe(' WHERE id = 1;'.length);
+  });
+
+  it('should leave unknown placeholders and missing inputs alone', () => {
+    const { text, cursorOffset } = expandTemplate(
+      '{{name}} {{input:Other}}!',
+      values
+    );
+    expect(text).toBe('{{name}} !');
+    expect(cursorOffset).toBe(0);
+  });
+});
+
+describe('getTemplateInputs', () => {
+  it('should list each input label once in order', () => {
+    expect(
+      getTemplateInputs(
+        '{{input:Ticket ID}} {{input: Reviewer }} {{input:Ticket ID}} {{date}}'
+      )
+    ).toEqual(['Ticket ID', 'Reviewer']);
+  });
+});
+
+describe('getSnippetError', () => {
+  const snippets = [snippet(1, 'Signature', { abbreviation: 'sig' })];
+
+  it('should require a name and content', () => {
+    expect(getSnippetError({ name: ' ', content: 'x' }, snippets)).toBe(
+      'Name is required'
+    );
+    expect(getSnippetError({ name: 'Empty', content: '' }, snippets)).toBe(
+      'Content is required'
+    );
+  });
+
+  it('should reject abbreviations that are taken or have spaces', () => {
+    const input = { name: 'Other', content: 'x', abbreviation: 'SIG' };
+    expect(getSnippetError(input, snippets)).toMatch(/already used/);
+    expect(getSnippetError(input, snippets, 1)).toBeNull();
+    expect(
+      getSnippetError({ ...input, abbreviation: 'my sig' }, snippets)
+    ).toMatch(/spaces/);
+  });
+});
+
+describe('searchSnippets', () => {
+  it('should put an exact abbreviation match first', () => {
+    const snippets = [
+      snippet(1, 'PR checklist', { content: 'prq review items' }),
+      snippet(2, 'Pull request query', { abbreviation: 'prq' }),
+    ];
+    expect(searchSnippets('prq', snippets).map(({ id }) => id)).toEqual([2, 1]);
+    expect(searchSnippets('', snippets)).toBe(snippets);
+  });
+});
@@ -0,0 +1,1263 @@
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readdirSync,
+  rmSync,
+  writeFileSync,
+} from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import Database from 'better-sqlite3';
+import { createDataKey, DataCipher } from '../src/main/cipher';
+import {
+  AddEntryOptions,
+  SqliteStorageManager,
+} from '../src/main/sqlite-storage';
+import { NewClipboardEntry } from '../src/shared/ipc-contract';
+
+let mockUserDataPath = '';
+
+jest.mock('electron', () => ({
+  app: {
+    getPath: jest.fn(() => mockUserDataPath),
+  },
+}));
+
+describe('SqliteStorageManager', () => {
+  let storageManager: SqliteStorageManager;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockUserDataPath = mkdtempSync(join(tmpdir(), 'localclip-test-'));
+
+    storageManager = new SqliteStorageManager();
+  });
+
+  afterEach(() => {
+    if (storageManager) {
+      storageManager.close();
+    }
+    rmSync(mockUserDataPath, { recursive: true, force: true });
+  });
+
+  // Adds a text entry with the given fields changed
+  const addEntry = (
+    content: string,
+    fields: Partial<NewClipboardEntry> = {},
+    maxHistoryItems?: number,
+    options?: AddEntryOptions
+  ) =>
+    storageManager.addClipboardEntry(
+      {
+        content,
+        contentType: 'text',
+        format: 'text',
+        preview: content,
+        appName: 'TestApp',
+        isPinned: false,
+        isFavorite: false,
+        category: 'Text',
+        tags: [],
+        usageCount: 0,
+        ...fields,
+      },
+      maxHistoryItems,
+      options
+    );
+
+  describe('initialization', () => {
+    it('should create the database in the user data directory', () => {
+      expect(existsSync(join(mockUserDataPath, 'localclip.db'))).toBe(true);
+    });
+
+    it('should initialize with empty data when no database exists', () => {
+      expect(storageManager.getClipboardEntryCount()).toBe(0);
+    });
+
+    it('should keep entries across restarts', async () => {
+      await addEntry('Persisted content', { tags: ['work'] });
+      storageManager.close();
+
+      storageManager = new SqliteStorageManager();
+      const [entry] = await storageManager.getClipboardHistory();
+      expect(entry.content).toBe('Persisted content');
+      expect(entry.tags).toEqual(['work']);
+      expect(entry.createdAt).toBeInstanceOf(Date);
+    });
+  });
+
+  describe('backups and recovery', () => {
+    it('should keep a rolling set of backups', () => {
+      for (let i = 0; i < 8; i++) {
+        storageManager.createBackup();
+      }
+
+      const backups = readdirSync(join(mockUserDataPath, 'backups'));
+      expect(backups).toHaveLength(5);
+      expect(backups.every(file => file.endsWith('.db'))).toBe(true);
+    });
+
+    it('should restore from the newest valid backup when the database is corrupted', async () => {
+      await addEntry('Pinned before crash', { isPinned: true });
+      storageManager.close();
+
+      writeFileSync(join(mockUserDataPath, 'localclip.db'), 'not a database');
+      storageManager = new SqliteStorageManager();
+
+      expect(storageManager.getPinnedEntryCount()).toBe(1);
+      const recoveryInfo = storageManager.getRecoveryInfo();
+      expect(recoveryInfo?.backupCreatedAt).toBeInstanceOf(Date);
+      expect(existsSync(recoveryInfo!.corruptFilePath)).toBe(true);
+
+      storageManager.clearRecoveryInfo();
+      expect(storageManager.getRecoveryInfo()).toBeNull();
+    });
+
+    it('should start empty and report it when no backup is usable', () => {
+      storageManager.close();
+      rmSync(join(mockUserDataPath, 'backups'), { recursive: true });
+
+      writeFileSync(join(mockUserDataPath, 'localclip.db'), 'not a database');
+      storageManager = new SqliteStorageManager();
+
+      expect(storageManager.getClipboardEntryCount()).toBe(0);
+      const recoveryInfo = storageManager.getRecoveryInfo();
+      expect(recoveryInfo).not.toBeNull();
+      expect(recoveryInfo?.backupCreatedAt).toBeUndefined();
+    });
+
+    it('should leave the database alone when it fails to open for other reasons', async () => {
+      await addEntry('Kept through the failure');
+      storageManager.close();
+
+      // A directory in place of the WAL file can't be opened, but the
+      // database itself is fine
+      const walPath = join(mockUserDataPath, 'localclip.db-wal');
+      rmSync(walPath, { force: true });
+      mkdirSync(walPath);
+      expect(() => new SqliteStorageManager()).toThrow();
+      expect(
+        readdirSync(mockUserDataPath).filter(file => file.includes('corrupt'))
+      ).toEqual([]);
+
+      rmSync(walPath, { recursive: true });
+      storageManager = new SqliteStorageManager();
+      expect(storageManager.getClipboardEntryCount()).toBe(1);
+      expect(storageManager.getRecoveryInfo()).toBeNull();
+    });
+
+    it('should not report a recovery after a clean start', () => {
+      expect(storageManager.getRecoveryInfo()).toBeNull();
+    });
+  });
+
+  describe('encryption at rest', () => {
+    const readRawContents = () => {
+      const db = new Database(join(mockUserDataPath, 'localclip.db'), {
+        readonly: true,
+      });
+      const rows = db
+        .prepare('SELECT content, note, file_path FROM clipboard_entries')
+        .all() as {
+        content: string;
+        note: string | null;
+        file_path: string | null;
+      }[];
+      db.close();
+      return rows;
+    };
+
+    it('should encrypt existing and new entries and decrypt them on read', async () => {
+      await addEntry('my password is hunter2', {
+        note: 'secret note',
+        filePath: '/home/user/secret.txt',
+      });
+      storageManager.enableEncryption(
+        new DataCipher(createDataKey()),
+        'passphrase',
+        {
+          salt: 'c2FsdA==',
+        }
+      );
+      await addEntry('another secret', { note: 'secret note' });
+
+      const raw = readRawContents();
+      expect(raw).toHaveLength(2);
+      expect(raw.every(row => row.content.startsWith('enc:v1:'))).toBe(true);
+      expect(raw.every(row => row.note?.startsWith('enc:v1:'))).toBe(true);
+      expect(raw[0].file_path).toMatch(/^enc:v1:/);
+
+      const history = await storageManager.getClipboardHistory();
+      expect(history[1].filePath).toBe('/home/user/secret.txt');
+      expect(history.map(entry => entry.content)).toEqual([
+        'another secret',
+        'my password is hunter2',
+      ]);
+      expect(storageManager.getMeta('encryption.salt')).toBe('c2FsdA==');
+    });
+
+    it('should encrypt the revisions of edited entries', async () => {
+      const entry = await addEntry('first draft');
+      await storageManager.editClipboardEntry(entry.id, 'second draft');
+      storageManager.enableEncryption(
+        new DataCipher(createDataKey()),
+        'keychain',
+        {}
+      );
+
+      const db = new Database(join(mockUserDataPath, 'localclip.db'), {
+        readonly: true,
+      });
+      const [revision] = db
+        .prepare('SELECT content FROM entry_revisions')
+        .all() as { content: string }[];
+      db.close();
+
+      expect(revision.content.startsWith('enc:v1:')).toBe(true);
+      expect(storageManager.getRevisions(entry.id)[0].content).toBe(
+        'first draft'
+      );
+    });
+
+    it('should search encrypted entries', async () => {
+      storageManager.enableEncryption(
+        new DataCipher(createDataKey()),
+        'keychain',
+        {}
+      );
+      await addEntry('Hello world');
+      await addEntry('Something else');
+
+      const results = await storageManager.getClipboardHistory({
+        searchQuery: 'world',
+      });
+      expect(results).toHaveLength(1);
+      expect(results[0].content).toBe('Hello world');
+    });
+
+    it('should stay locked after a restart until the key is provided', async () => {
+      const cipher = new DataCipher(createDataKey());
+      storageManager.enableEncryption(cipher, 'passphrase', {});
+      await addEntry('Locked content');
+      storageManager.close();
+
+      storageManager = new SqliteStorageManager();
+      expect(storageManager.isLocked()).toBe(true);
+      expect(await storageManager.getClipboardHistory()).toEqual([]);
+      await expect(addEntry('New content')).rejects.toThrow('locked');
+
+      storageManager.setCipher(cipher);
+      expect(storageManager.isLocked()).toBe(false);
+      expect((await storageManager.getClipboardHistory())[0].content).toBe(
+        'Locked content'
+      );
+    });
+
+    it('should replace plaintext backups and delete other plaintext copies', async () => {
+      await addEntry('Backed up content');
+      storageManager.createBackup();
+      storageManager.createBackup();
+      for (const file of [
+        'localclip.db.corrupt-1',
+        'localclip.db.corrupt-1-wal',
+      ]) {
+        writeFileSync(join(mockUserDataPath, file), 'Backed up content');
+      }
+      storageManager.enableEncryption(
+        new DataCipher(createDataKey()),
+        'keychain',
+        {}
+      );
+
+      const backups = readdirSync(join(mockUserDataPath, 'backups'));
+      expect(backups).toHaveLength(1);
+      expect(
+        readdirSync(mockUserDataPath).filter(file => file.includes('corrupt'))
+      ).toEqual([]);
+    });
+
+    it('should decrypt all entries when encryption is disabled', async () => {
+      storageManager.enableEncryption(
+        new DataCipher(createDataKey()),
+        'keychain',
+        {}
+      );
+      await addEntry('Plain again');
+
+      storageManager.disableEncryption();
+
+      expect(storageManager.isEncryptionEnabled()).toBe(false);
+      expect(readRawContents()[0].content).toBe('Plain again');
+      expect(storageManager.getMeta('encryption.keySource')).toBeUndefined();
+      // Encrypted backups couldn't be restored without the key
+      const backupsDir = join(mockUserDataPath, 'backups');
+      const backups = readdirSync(backupsDir);
+      expect(backups).toHaveLength(1);
+      const backup = new Database(join(backupsDir, backups[0]), {
+        readonly: true,
+      });
+      expect(
+        backup.prepare('SELECT content FROM clipboard_entries').get()
+      ).toEqual({ content: 'Plain again' });
+      backup.close();
+    });
+  });
+
+  describe('legacy JSON import', () => {
+    it('should import entries and settings from localclip-data.json once', async () => {
+      const importLegacySettings = jest.fn();
+      storageManager.close();
+      rmSync(join(mockUserDataPath, 'localclip.db'));
+      writeFileSync(
+        join(mockUserDataPath, 'localclip-data.json'),
+        JSON.stringify({
+          entries: [
+            {
+              id: 7,
+              content: 'Old pinned',
+              contentType: 'text',
+              format: 'text',
+              createdAt: '2024-01-01T00:00:00.000Z',
+              updatedAt: '2024-01-01T00:00:00.000Z',
+              isPinned: true,
+              category: 'Text',
+              note: 'keep me',
+            },
+            { id: 8, content: 'Old entry', createdAt: '2024-01-02' },
+          ],
+          settings: { theme: 'dark', lastView: 'all' },
+          version: '1.0.0',
+        })
+      );
+
+      storageManager = new SqliteStorageManager({ importLegacySettings });
+
+      expect(storageManager.getClipboardEntryCount()).toBe(2);
+      expect(storageManager.getPinnedEntryCount()).toBe(1);
+      const history = await storageManager.getClipboardHistory();
+      expect(history[0]).toMatchObject({
+        id: 7,
+        content: 'Old pinned',
+        note: 'keep me',
+        tags: [],
+      });
+      expect(importLegacySettings).toHaveBeenCalledWith({
+        theme: 'dark',
+        lastView: 'all',
+      });
+      // The plaintext file is deleted once imported
+      expect(readdirSync(mockUserDataPath)).not.toContainEqual(
+        expect.stringMatching(/^localclip-data/)
+      );
+
+      // New entries continue after the imported IDs
+      const added = await addEntry('New entry');
+      expect(added.id).toBe(9);
+    });
+  });
+
+  describe('addClipboardEntry', () => {
+    it('should add a new clipboard entry', async () => {
+      const entry = {
+        content: 'Test content',
+        contentType: 'text',
+        format: 'text' as const,
+        preview: 'Test content',
+        appName: 'TestApp',
+        isPinned: false,
+        isFavorite: false,
+        category: 'Text',
+        tags: [],
+        usageCount: 0,
+      };
+
+      const result = await storageManager.addClipboardEntry(entry);
+
+      expect(result).toMatchObject({
+        ...entry,
+        id: expect.any(Number),
+        createdAt: expect.any(Date),
+        updatedAt: expect.any(Date),
+      });
+      expect(storageManager.getClipboardEntryCount()).toBe(1);
+    });
+
+    it('should enforce history limit for non-pinned items', async () => {
+      const maxItems = 20; // Use minimum limit that will be enforced
+
+      // Add 22 non-pinned items - should trigger limit enforcement
+      for (let i = 0; i < 22; i++) {
+        await storageManager.addClipboardEntry(
+          {
+            content: `Content ${i}`,
+            contentType: 'text',
+            format: 'text' as const,
+            preview: `Content ${i}`,
+            appName: 'TestApp',
+            isPinned: false,
+            isFavorite: false,
+            category: 'Text',
+            tags: [],
+            usageCount: 0,
+          },
+          maxItems
+        );
+      }
+
+      // Should have exactly maxItems non-pinned entries
+      expect(storageManager.getNonPinnedEntryCount()).toBe(maxItems);
+      expect(storageManager.getClipboardEntryCount()).toBe(maxItems);
+    });
+
+    it('should not delete pinned items when enforcing limit', async () => {
+      const maxItems = 20;
+
+      // Add a pinned item first
+      await storageManager.addClipboardEntry(
+        {
+          content: 'Pinned content',
+          contentType: 'text',
+          format: 'text' as const,
+          preview: 'Pinned content',
+          appName: 'TestApp',
+          isPinned: true,
+          isFavorite: false,
+          category: 'Text',
+          tags: [],
+          usageCount: 0,
+        },
+        maxItems
+      );
+
+      // Add 22 non-pinned items - should trigger limit enforcement
+      for (let i = 0; i < 22; i++) {
+        await storageManager.addClipboardEntry(
+          {
+            content: `Content ${i}`,
+            contentType: 'text',
+            format: 'text' as const,
+            preview: `Content ${i}`,
+            appName: 'TestApp',
+            isPinned: false,
+            isFavorite: false,
+            category: 'Text',
+            tags: [],
+            usageCount: 0,
+          },
+          maxItems
+        );
+      }
+
+      expect(storageManager.getPinnedEntryCount()).toBe(1);
+      expect(storageManager.getNonPinnedEntryCount()).toBe(maxItems);
+      expect(storageManager.getClipboardEntryCount()).toBe(21); // 1 pinned + 20 non-pinned
+    });
+  });
+
+  describe('getClipboardHistory', () => {
+    beforeEach(async () => {
+      // Add test data
+      await storageManager.addClipboardEntry({
+        content: 'Pinned item',
+        contentType: 'text',
+        format: 'text' as const,
+        preview: 'Pinned item',
+        appName: 'TestApp',
+        isPinned: true,
+        isFavorite: false,
+        category: 'Text',
+        tags: [],
+        usageCount: 0,
+      });
+
+      await storageManager.addClipboardEntry({
+        content: 'Regular item 1',
+        contentType: 'text',
+        format: 'text' as const,
+        preview: 'Regular item 1',
+        appName: 'TestApp',
+        isPinned: false,
+        isFavorite: false,
+        category: 'Text',
+        tags: [],
+        usageCount: 0,
+      });
+
+      await storageManager.addClipboardEntry({
+        content: 'Regular item 2',
+        contentType: 'text',
+        format: 'text' as const,
+        preview: 'Regular item 2',
+        appName: 'TestApp',
+        isPinned: false,
+        isFavorite: false,
+        category: 'Text',
+        tags: [],
+        usageCount: 0,
+      });
+    });
+
+    it('should return all pinned items plus limited non-pinned items', async () => {
+      const result = await storageManager.getClipboardHistory({ limit: 1 });
+
+      expect(result).toHaveLength(2); // 1 pinned + 1 non-pinned
+      expect(result[0].isPinned).toBe(true);
+      expect(result[1].isPinned).toBe(false);
+    });
+
+    it('should filter by search query', async () => {
+      const result = await storageManager.getClipboardHistory({
+        searchQuery: 'Pinned',
+      });
+
+      expect(result).toHaveLength(1);
+      expect(result[0].content).toBe('Pinned item');
+    });
+
+    it('should filter by category', async () => {
+      const result = await storageManager.getClipboardHistory({
+        category: 'Text',
+      });
+
+      expect(result).toHaveLength(3);
+    });
+
+    it('should filter by date range', async () => {
+      const now = Date.now();
+
+      const recent = await storageManager.getClipboardHistory({
+        dateRange: { start: new Date(now - 60000), end: new Date(now + 60000) },
+      });
+      expect(recent).toHaveLength(3);
+
+      const old = await storageManager.getClipboardHistory({
+        dateRange: {
+          start: new Date('2020-01-01'),
+          end: new Date('2020-12-31'),
+        },
+      });
+      expect(old).toHaveLength(0);
+    });
+
+    it('should treat LIKE wildcards in the search query literally', async () => {
+      const result = await storageManager.getClipboardHistory({
+        searchQuery: '%',
+      });
+
+      expect(result).toHaveLength(0);
+    });
+  });
+
+  describe('duplicate detection', () => {
+    it('should move a repeat copy to the top and keep its metadata', async () => {
+      const original = await addEntry('Repeated text', {}, 40, {
+        deduplicate: 'exact',
+      });
+      await storageManager.pinClipboardEntry(original.id);
+      await storageManager.updateClipboardEntry(original.id, {
+        note: 'keep me',
+        tags: ['work'],
+      });
+      await addEntry('Something else', {}, 40, { deduplicate: 'exact' });
+
+      const repeated = await addEntry('Repeated text', {}, 40, {
+        deduplicate: 'exact',
+      });
+
+      expect(repeated.id).toBe(original.id);
+      expect(repeated.isPinned).toBe(true);
+      expect(repeated.note).toBe('keep me');
+      expect(repeated.tags).toEqual(['work']);
+      expect(storageManager.getClipboardEntryCount()).toBe(2);
+    });
+
+    it('should keep the creation date and count a repeat copy as a use', async () => {
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+      try {
+        jest.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+        const original = await addEntry('Repeated text', {}, 40, {
+          deduplicate: 'exact',
+        });
+        jest.setSystemTime(new Date('2024-01-02T00:00:00Z'));
+        await addEntry('Something else', {}, 40, { deduplicate: 'exact' });
+        jest.setSystemTime(new Date('2024-01-03T00:00:00Z'));
+        const repeated = await addEntry('Repeated text', {}, 40, {
+          deduplicate: 'exact',
+        });
+
+        expect(repeated.createdAt).toEqual(original.createdAt);
+        expect(repeated.usageCount).toBe(1);
+        expect(repeated.lastUsedAt).toEqual(new Date('2024-01-03T00:00:00Z'));
+      } finally {
+        jest.useRealTimers();
+      }
+
+      const history = storageManager.queryHistory();
+      expect(history.entries.map(entry => entry.content)).toEqual([
+        'Repeated text',
+        'Something else',
+      ]);
+    });
+
+    it('should mark and expire a repeat copy that holds a secret', async () => {
+      const original = await addEntry('4111 1111 1111 1111', {}, 40, {
+        deduplicate: 'exact',
+      });
+      const expiresAt = new Date(Date.now() + 10 * 60 * 1000);
+
+      const repeated = await addEntry(
+        '4111 1111 1111 1111',
+        {
+          sensitiveType: 'credit-card',
+          expiresAt,
+          representations: { text: '4111 1111 1111 1111', html: '<b>4111</b>' },
+        },
+        40,
+        { deduplicate: 'exact' }
+      );
+
+      expect(repeated.id).toBe(original.id);
+      expect(repeated.sensitiveType).toBe('credit-card');
+      expect(repeated.expiresAt).toEqual(expiresAt);
+      expect(repeated.representations?.html).toBe('<b>4111</b>');
+
+      // A later copy without the secret's expiry doesn't lift it
+      const again = await addEntry('4111 1111 1111 1111', {}, 40, {
+        deduplicate: 'exact',
+      });
+      expect(again.expiresAt).toEqual(expiresAt);
+    });
+
+    it('should only ignore whitespace differences in normalized mode', async () => {
+      await addEntry('hello   world', {}, 40, { deduplicate: 'exact' });
+
+      await addEntry(' hello world\n', {}, 40, { deduplicate: 'exact' });
+      expect(storageManager.getClipboardEntryCount()).toBe(2);
+
+      await addEntry('hello\tworld', {}, 40, { deduplicate: 'normalized' });
+      expect(storageManager.getClipboardEntryCount()).toBe(2);
+    });
+
+    it('should add duplicates when detection is off', async () => {
+      await addEntry('Same');
+      await addEntry('Same');
+      expect(storageManager.getClipboardEntryCount()).toBe(2);
+    });
+  });
+
+  describe('getRecentAppNames', () => {
+    it('should list source apps by most recent use', async () => {
+      for (const appName of [
+        'Terminal',
+        'Firefox',
+        'Unknown App',
+        'Terminal',
+      ]) {
+        await addEntry(`Copied from ${appName}`, { appName });
+        await new Promise(resolve => setTimeout(resolve, 5));
+      }
+
+      expect(storageManager.getRecentAppNames()).toEqual([
+        'Terminal',
+        'Firefox',
+      ]);
+    });
+  });
+
+  describe('entry expiry', () => {
+    it('should delete entries once their expiry passes', async () => {
+      const now = Date.now();
+      const code = await addEntry('123456', {
+        expiresAt: new Date(now + 2 * 60 * 1000),
+      });
+      const token = await addEntry('token', {
+        expiresAt: new Date(now + 10 * 60 * 1000),
+      });
+      await addEntry('keep me');
+
+      expect(storageManager.getNextExpiry()).toEqual(code.expiresAt);
+      expect(storageManager.deleteExpiredEntries(new Date(now))).toEqual([]);
+
+      const expired = storageManager.deleteExpiredEntries(
+        new Date(now + 5 * 60 * 1000)
+      );
+      expect(expired.map(entry => entry.content)).toEqual(['123456']);
+      expect(storageManager.getNextExpiry()).toEqual(token.expiresAt);
+
+      // Clearing the expiry keeps the entry
+      await storageManager.updateClipboardEntry(token.id, {
+        expiresAt: undefined,
+      });
+      expect(storageManager.getNextExpiry()).toBeNull();
+      expect(storageManager.getClipboardEntryCount()).toBe(2);
+    });
+  });
+
+  describe('tags', () => {
+    it('should normalize tags when setting them', async () => {
+      const entry = await addEntry('Tagged content', { tags: [] });
+
+      const updated = await storageManager.setTags(entry.id, [
+        ' #work ',
+        'Work',
+        '',
+        'urgent',
+      ]);
+      expect(updated?.tags).toEqual(['work', 'urgent']);
+    });
+
+    it('should list tags by usage', async () => {
+      await addEntry('First', { tags: ['work', 'urgent'] });
+      await addEntry('Second', { tags: ['Work'] });
+      await addEntry('Third', { tags: ['personal'] });
+
+      expect(storageManager.listTags()).toEqual([
+        { tag: 'Work', count: 2 },
+        { tag: 'personal', count: 1 },
+        { tag: 'urgent', count: 1 },
+      ]);
+    });
+
+    it('should filter by tags with all or any semantics', async () => {
+      await addEntry('First', { tags: ['work', 'urgent'] });
+      await addEntry('Second', { tags: ['work'] });
+      await addEntry('Third', { tags: ['personal'] });
+
+      const contents = async (tagMatch: 'all' | 'any') =>
+        (
+          await storageManager.getClipboardHistory({
+            tags: ['WORK', 'urgent'],
+            tagMatch,
+          })
+        )
+          .map(entry => entry.content)
+          .sort();
+
+      expect(await contents('all')).toEqual(['First']);
+      expect(await contents('any')).toEqual(['First', 'Second']);
+    });
+  });
+
+  describe('editing and revisions', () => {
+    it('should keep earlier content as revisions and describe edits', async () => {
+      storageManager.setContentDescriber(async content => ({
+        contentType: 'url',
+        preview: content.toUpperCase(),
+        category: 'URLs',
+      }));
+      const entry = await addEntry('first draft');
+
+      await storageManager.editClipboardEntry(entry.id, 'second draft');
+      const edited = await storageManager.editClipboardEntry(
+        entry.id,
+        'https://example.com'
+      );
+
+      expect(edited).toMatchObject({
+        content: 'https://example.com',
+        contentType: 'url',
+        preview: 'HTTPS://EXAMPLE.COM',
+        category: 'URLs',
+      });
+      expect(
+        storageManager.getRevisions(entry.id).map(revision => revision.content)
+      ).toEqual(['second draft', 'first draft']);
+    });
+
+    it('should restore a revision and keep what it replaced', async () => {
+      const entry = await addEntry('original');
+      await storageManager.editClipboardEntry(entry.id, 'changed');
+      const [revision] = storageManager.getRevisions(entry.id);
+
+      const restored = await storageManager.restoreRevision(
+        entry.id,
+        revision.id
+      );
+      expect(restored?.content).toBe('original');
+      expect(
+        storageManager.getRevisions(entry.id).map(revision => revision.content)
+      ).toEqual(['changed', 'original']);
+      expect(
+        await storageManager.restoreRevision(entry.id + 1, revision.id)
+      ).toBeNull();
+    });
+
+    it('should reject edits to images and empty content', async () => {
+      const image = await addEntry('data:image/png;base64,AAAA', {
+        contentType: 'image',
+        format: 'image',
+      });
+      const text = await addEntry('text');
+
+      await expect(
+        storageManager.editClipboardEntry(image.id, 'text')
+      ).rejects.toThrow('Cannot edit image entries');
+      await expect(
+        storageManager.editClipboardEntry(text.id, '  ')
+      ).rejects.toThrow('Content cannot be empty');
+    });
+
+    it('should delete revisions with their entry', async () => {
+      const entry = await addEntry('original');
+      await storageManager.editClipboardEntry(entry.id, 'changed');
+
+      await storageManager.deleteClipboardEntry(entry.id);
+      expect(storageManager.getRevisions(entry.id)).toEqual([]);
+    });
+  });
+
+  describe('multi-format entries', () => {
+    const representations = {
+      text: 'Hello',
+      html: '<b>Hello</b>',
+      image: 'data:image/png;base64,AAAA',
+      custom: { 'application/x-app-data': 'AQID' },
+    };
+
+    it('should keep every format of a copy, encrypted at rest', async () => {
+      const entry = await addEntry('<b>Hello</b>', {
+        contentType: 'rich-text',
+        format: 'html',
+        representations,
+      });
+      storageManager.enableEncryption(
+        new DataCipher(createDataKey()),
+        'keychain',
+        {}
+      );
+
+      const [stored] = await storageManager.getClipboardHistory();
+      expect(stored.representations).toEqual(representations);
+
+      // Other formats of the copy don't survive an edit
+      const edited = await storageManager.editClipboardEntry(
+        entry.id,
+        '<b>Goodbye</b>'
+      );
+      expect(edited?.representations).toBeUndefined();
+    });
+  });
+
+  describe('stored images', () => {
+    const hash = 'a'.repeat(64);
+    const imageFields = { contentType: 'image', format: 'image' as const };
+    it('should release an image once no entry uses it', async () => {
+      const released = jest.fn();
+      storageManager.setImageReleaseHandler(released);
+
+      const image = await addEntry(`localclip-image://image/${hash}`, {
+        ...imageFields,
+        imageHash: hash,
+      });
+      const text = await addEntry('Cells', { imageHash: hash });
+      expect(storageManager.getStoredImageHashes()).toEqual(new Set([hash]));
+
+      await storageManager.deleteClipboardEntry(image.id);
+      expect(released).not.toHaveBeenCalled();
+
+      // Edited text no longer matches the image of its copy
+      const edited = await storageManager.editClipboardEntry(text.id, 'Edited');
+      expect(edited?.imageHash).toBeUndefined();
+      expect(released).toHaveBeenCalledWith([hash]);
+      expect(storageManager.getStoredImageHashes().size).toBe(0);
+    });
+
+    it('should count images of entries removed in bulk', async () => {
+      const released = jest.fn();
+      storageManager.setImageReleaseHandler(released);
+
+      await addEntry('first', { ...imageFields, imageHash: hash });
+      await addEntry('second', { ...imageFields, imageHash: hash });
+      await storageManager.clearClipboardHistory();
+
+      expect(released).toHaveBeenCalledTimes(1);
+      expect(released).toHaveBeenCalledWith([hash]);
+    });
+
+    it('should point entries at renamed images', async () => {
+      const released = jest.fn();
+      storageManager.setImageReleaseHandler(released);
+      const newHash = 'b'.repeat(64);
+
+      const image = await addEntry(`localclip-image://image/${hash}`, {
+        ...imageFields,
+        imageHash: hash,
+        filePath: `/images/${hash}.png`,
+      });
+      const text = await addEntry('Cells', {
+        imageHash: hash,
+        representations: { image: `localclip-image://image/${hash}` },
+      });
+      storageManager.renameImages(new Map([[hash, newHash]]));
+
+      const entries = await storageManager.getClipboardHistory();
+      const renamedImage = entries.find(entry => entry.id === image.id);
+      expect(renamedImage?.content).toBe(`localclip-image://image/${newHash}`);
+      expect(renamedImage?.filePath).toBe(`/images/${newHash}.png`);
+      expect(renamedImage?.imageHash).toBe(newHash);
+      expect(
+        entries.find(entry => entry.id === text.id)?.representations?.image
+      ).toBe(`localclip-image://image/${newHash}`);
+      expect(storageManager.getStoredImageHashes()).toEqual(new Set([newHash]));
+      expect(released).toHaveBeenCalledWith([hash]);
+    });
+  });
+
+  describe('file entries', () => {
+    it('should keep the details of copied files, encrypted at rest', async () => {
+      const files = [
+        {
+          path: '/home/me/report.pdf',
+          name: 'report.pdf',
+          isDirectory: false,
+          size: 2048,
+          icon: 'data:image/png;base64,AAAA',
+        },
+        { path: '/home/me/photos', name: 'photos', isDirectory: true },
+      ];
+      await addEntry(files.map(file => file.path).join('\n'), {
+        contentType: 'file',
+        format: 'file',
+        files,
+      });
+      storageManager.enableEncryption(
+        new DataCipher(createDataKey()),
+        'keychain',
+        {}
+      );
+
+      const [stored] = await storageManager.getClipboardHistory();
+      expect(stored.files).toEqual(files);
+
+      const db = new Database(join(mockUserDataPath, 'localclip.db'), {
+        readonly: true,
+      });
+      const row = db.prepare('SELECT files FROM clipboard_entries').get() as {
+        files: string;
+      };
+      db.close();
+      expect(row.files).not.toContain('report.pdf');
+    });
+  });
+
+  describe('pinClipboardEntry', () => {
+    it('should toggle pin status of an entry', async () => {
+      const entry = await storageManager.addClipboardEntry({
+        content: 'Test content',
+        contentType: 'text',
+        format: 'text' as const,
+        preview: 'Test content',
+        appName: 'TestApp',
+        isPinned: false,
+        isFavorite: false,
+        category: 'Text',
+        tags: [],
+        usageCount: 0,
+      });
+
+      const pinnedEntry = await storageManager.pinClipboardEntry(entry.id);
+      expect(pinnedEntry?.isPinned).toBe(true);
+
+      const unpinnedEntry = await storageManager.pinClipboardEntry(entry.id);
+      expect(unpinnedEntry?.isPinned).toBe(false);
+    });
+  });
+
+  describe('favorites', () => {
+    it('should toggle favorite status without pinning', async () => {
+      const entry = await addEntry('Favorite content');
+
+      const favorited = await storageManager.favoriteClipboardEntry(entry.id);
+      expect(favorited?.isFavorite).toBe(true);
+      expect(favorited?.isPinned).toBe(false);
+
+      const favorites = await storageManager.getClipboardHistory({
+        favoritesOnly: true,
+      });
+      expect(favorites.map(favorite => favorite.id)).toEqual([entry.id]);
+
+      const unfavorited = await storageManager.favoriteClipboardEntry(entry.id);
+      expect(unfavorited?.isFavorite).toBe(false);
+    });
+
+    it('should keep favorites beyond the history limit when enabled', async () => {
+      const keepFavorites = { keepFavorites: true };
+      await addEntry(
+        'Oldest favorite',
+        { isFavorite: true },
+        20,
+        keepFavorites
+      );
+      for (let i = 0; i < 22; i++) {
+        await addEntry(`Content ${i}`, {}, 20, keepFavorites);
+      }
+
+      const history = await storageManager.getClipboardHistory();
+      expect(history).toHaveLength(21);
+      expect(history.some(entry => entry.content === 'Oldest favorite')).toBe(
+        true
+      );
+
+      // Without the setting, favorites are trimmed like any other entry
+      await storageManager.enforceHistoryLimit(20);
+      expect(storageManager.getClipboardEntryCount()).toBe(20);
+    });
+  });
+
+  describe('usage tracking and sorting', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should record usage and sort by it', async () => {
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+      const day = 24 * 60 * 60 * 1000;
+      const start = new Date('2024-01-01T00:00:00Z').getTime();
+
+      // Used often but long ago
+      jest.setSystemTime(start);
+      const oldFavorite = await addEntry('Old favorite');
+      for (let i = 0; i < 5; i++) {
+        await storageManager.recordUsage(oldFavorite.id);
+      }
+
+      // Used twice, recently
+      jest.setSystemTime(start + 20 * day);
+      const recent = await addEntry('Recently used');
+      await storageManager.recordUsage(recent.id);
+      const used = await storageManager.recordUsage(recent.id);
+      expect(used?.usageCount).toBe(2);
+      expect(used?.lastUsedAt).toEqual(new Date(start + 20 * day));
+
+      // Never used, newest
+      jest.setSystemTime(start + 21 * day);
+      await addEntry('Never used');
+
+      const contents = async (
+        sortBy: 'created' | 'lastUsed' | 'usageCount' | 'frecency'
+      ) =>
+        (await storageManager.getClipboardHistory({ sortBy })).map(
+          entry => entry.content
+        );
+
+      expect(await contents('created')).toEqual([
+        'Never used',
+        'Recently used',
+        'Old favorite',
+      ]);
+      expect(await contents('lastUsed')).toEqual([
+        'Never used',
+        'Recently used',
+        'Old favorite',
+      ]);
+      expect(await contents('usageCount')).toEqual([
+        'Old favorite',
+        'Recently used',
+        'Never used',
+      ]);
+      expect(await contents('frecency')).toEqual([
+        'Recently used',
+        'Never used',
+        'Old favorite',
+      ]);
+    });
+  });
+
+  describe('queryHistory', () => {
+    it('should page through results with a cursor', async () => {
+      await addEntry('Pinned', { isPinned: true });
+      for (let i = 0; i < 5; i++) {
+        await addEntry(`Entry ${i}`, i % 2 ? { category: 'Code' } : {});
+      }
+
+      const first = storageManager.queryHistory({ limit: 2 });
+      expect(first.entries.map(entry => entry.content)).toEqual([
+        'Pinned',
+        'Entry 4',
+        'Entry 3',
+      ]);
+      expect(first.counts).toEqual({
+        total: 6,
+        categories: { Text: 4, Code: 2 },
+        favorites: 0,
+        tags: [],
+      });
+
+      const second = storageManager.queryHistory({
+        limit: 2,
+        cursor: first.nextCursor,
+      });
+      expect(second.entries.map(entry => entry.content)).toEqual([
+        'Entry 2',
+        'Entry 1',
+      ]);
+
+      const last = storageManager.queryHistory({
+        limit: 2,
+        cursor: second.nextCursor,
+      });
+      expect(last.entries.map(entry => entry.content)).toEqual(['Entry 0']);
+      expect(last.nextCursor).toBeNull();
+    });
+
+    it('should keep category counts when filtering by category', async () => {
+      await addEntry('Some text');
+      await addEntry('const x = 1;', { category: 'Code' });
+
+      const page = storageManager.queryHistory({ category: 'Code' });
+      expect(page.entries.map(entry => entry.content)).toEqual([
+        'const x = 1;',
+      ]);
+      expect(page.counts.categories).toEqual({ Text: 1, Code: 1 });
+    });
+
+    it('should count again once the history changes', async () => {
+      await addEntry('meeting notes');
+      expect(
+        storageManager.queryHistory({ searchQuery: 'notes' }).counts.total
+      ).toBe(1);
+
+      const entry = await addEntry('release notes');
+      await storageManager.favoriteClipboardEntry(entry.id);
+      const { counts } = storageManager.queryHistory({ searchQuery: 'notes' });
+      expect(counts.total).toBe(2);
+      expect(counts.favorites).toBe(1);
+    });
+
+    it('should rank fuzzy search results by relevance', async () => {
+      await addEntry('deploy checklist');
+      await addEntry('checkout the release branch');
+      await addEntry('git checkout main');
+      await addEntry('Unrelated');
+
+      const first = storageManager.queryHistory({
+        searchQuery: 'chekout',
+        limit: 1,
+      });
+      expect(first.counts.total).toBe(2);
+      expect(first.entries.map(entry => entry.content)).toEqual([
+        'git checkout main',
+      ]);
+
+      const second = storageManager.queryHistory({
+        searchQuery: 'chekout',
+        limit: 1,
+        cursor: first.nextCursor,
+      });
+      expect(second.entries.map(entry => entry.content)).toEqual([
+        'checkout the release branch',
+      ]);
+      expect(second.nextCursor).toBeNull();
+    });
+
+    it('should apply search query operators', async () => {
+      await addEntry('https://example.com/deploy', {
+        contentType: 'url',
+        appName: 'Firefox',
+        tags: ['deploy'],
+      });
+      await addEntry('https://example.com/draft', {
+        contentType: 'url',
+        appName: 'Firefox',
+        tags: ['deploy'],
+      });
+      await addEntry('deploy notes', { appName: 'Notes', tags: ['deploy'] });
+
+      const contents = (searchQuery: string) =>
+        storageManager
+          .queryHistory({ searchQuery })
+          .entries.map(entry => entry.content);
+
+      expect(contents('type:url app:fire tag:deploy -draft')).toEqual([
+        'https://example.com/deploy',
+      ]);
+      expect(contents('-type:url')).toEqual(['deploy notes']);
+      expect(contents('"com/dr"')).toEqual(['https://example.com/draft']);
+      expect(contents('/^deploy\\s/')).toEqual(['deploy notes']);
+      expect(contents('tag:deploy after:2999-01-01')).toEqual([]);
+    });
+
+    it('should filter by date range and search query', async () => {
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+      try {
+        jest.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+        await addEntry('Old meeting notes');
+        jest.setSystemTime(new Date('2024-02-01T00:00:00Z'));
+        await addEntry('New meeting notes');
+        await addEntry('Shopping list');
+      } finally {
+        jest.useRealTimers();
+      }
+
+      const page = storageManager.queryHistory({
+        searchQuery: 'meeting',
+        dateRange: {
+          start: new Date('2024-01-15T00:00:00Z'),
+          end: new Date('2024-03-01T00:00:00Z'),
+        },
+      });
+      expect(page.entries.map(entry => entry.content)).toEqual([
+        'New meeting notes',
+      ]);
+      expect(page.counts.total).toBe(1);
+    });
+  });
+
+  describe('deleteClipboardEntry', () => {
+    it('should delete an entry by id', async () => {
+      const entry = await storageManager.addClipboardEntry({
+        content: 'Test content',
+        contentType: 'text',
+        format: 'text' as const,
+        preview: 'Test content',
+        appName: 'TestApp',
+        isPinned: false,
+        isFavorite: false,
+        category: 'Text',
+        tags: [],
+        usageCount: 0,
+      });
+
+      const deleted = await storageManager.deleteClipboardEntry(entry.id);
+      expect(deleted).toBe(true);
+      expect(storageManager.getClipboardEntryCount()).toBe(0);
+    });
+  });
+
+  describe('clearClipboardHistory', () => {
+    it('should clear all non-pinned entries', async () => {
+      // Add pinned and non-pinned entries
+      await storageManager.addClipboardEntry({
+        content: 'Pinned',
+        contentType: 'text',
+        format: 'text' as const,
+        preview: 'Pinned',
+        appName: 'TestApp',
+        isPinned: true,
+        isFavorite: false,
+        category: 'Text',
+        tags: [],
+        usageCount: 0,
+      });
+
+      await storageManager.addClipboardEntry({
+        content: 'Not pinned',
+        contentType: 'text',
+        format: 'text' as const,
+        preview: 'Not pinned',
+        appName: 'TestApp',
+        isPinned: false,
+        isFavorite: false,
+        category: 'Text',
+        tags: [],
+        usageCount: 0,
+      });
+
+      const cleared = await storageManager.clearClipboardHistory();
+      expect(cleared).toBe(true);
+      expect(storageManager.getPinnedEntryCount()).toBe(1);
+      expect(storageManager.getNonPinnedEntryCount()).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,27 @@
+import { diffLines } from '../src/shared/text-diff';
+
+describe('diffLines', () => {
+  it('marks added, removed and unchanged lines', () => {
+    expect(diffLines('a\nb\nc\nd', 'a\nc\nx\nd')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'same', text: 'c' },
+      { type: 'added', text: 'x' },
+      { type: 'same', text: 'd' },
+    ]);
+  });
+
+  it('shows a changed line as removed then added', () => {
+    expect(diffLines('hello', 'hello world')).toEqual([
+      { type: 'removed', text: 'hello' },
+      { type: 'added', text: 'hello world' },
+    ]);
+  });
+
+  it('reports no changes for identical text', () => {
+    expect(diffLines('one\ntwo', 'one\ntwo').map(line => line.type)).toEqual([
+      'same',
+      'same',
+    ]);
+  });
+});